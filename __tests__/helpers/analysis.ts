@@ -0,0 +1,107 @@
+/**
+ * analysis.ts
+ * 主要功能：构造测试用的分析结果与快照
+ */
+
+import type { SerializedAnalysisResult, TransactionData } from '@/app/lib/analyze';
+import type { AnalysisSnapshot } from '@/app/lib/snapshots';
+import type { Cluster } from '@/app/lib/cluster';
+import { DEFAULT_ANALYSIS_PARAMETERS } from '@/app/lib/validation';
+
+export const TOKEN = '9PR7nCP9DpcUotnDPVLUBUZKu5WAYkwrCUx9wDnSpump';
+
+/**
+ * 构造分析结果
+ * @param {Record<string, number>} holders - 持有者地址到持仓比例（0-1）
+ * @param {Partial<SerializedAnalysisResult>} overrides - 覆盖的字段
+ * @returns {SerializedAnalysisResult} 分析结果
+ */
+export function createAnalysisResult(
+    holders: Record<string, number>,
+    overrides: Partial<SerializedAnalysisResult> = {}
+): SerializedAnalysisResult {
+    return {
+        tokenAddress: TOKEN,
+        parameters: DEFAULT_ANALYSIS_PARAMETERS,
+        holderSource: 'rpc',
+        holderSourceCapabilities: { sns: false, isNew: false, tags: false },
+        topHolders: Object.entries(holders).map(([address, pct]) => ({
+            holder_address: address,
+            holder_sns: null,
+            holder_pct_of_supply: String(pct),
+            is_new: false
+        })),
+        relatedAddresses: {},
+        holderStatus: {},
+        tokenFlows: [],
+        clusters: [],
+        commonFunders: [],
+        risk: { token: { score: 10, level: 'low', factors: [] }, holders: {} },
+        labels: {},
+        userLabels: {},
+        watchlists: {},
+        summary: {
+            totalHolders: Object.keys(holders).length,
+            totalRelatedAddresses: 0,
+            totalTransactions: 0,
+            totalTokenTransfers: 0,
+            apiCallCount: 0,
+            cacheHits: 0,
+            cacheMisses: 0,
+            budgetExhausted: false,
+            exchangeEdgesRemoved: 0,
+            exchangeEdgesCollapsed: 0,
+            completeness: { complete: 0, partial: 0, failed: 0, ratio: 1 }
+        },
+        ...overrides
+    };
+}
+
+/**
+ * 构造资金转入交易
+ * @param {string} from - 转出地址
+ * @param {string} to - 转入地址
+ * @param {number} timestamp - 时间戳（秒）
+ * @returns {TransactionData} 交易
+ */
+export function createFundingEdge(from: string, to: string, timestamp: number = 1700000000): TransactionData {
+    return {
+        from,
+        to,
+        amount: 10,
+        time: new Date(timestamp * 1000).toISOString(),
+        timestamp,
+        type: 'in',
+        asset: 'SOL'
+    };
+}
+
+/**
+ * 构造群组
+ * @param {string[]} holders - 成员持有者地址
+ * @param {number} totalPct - 合计持仓比例
+ * @returns {Cluster} 群组
+ */
+export function createCluster(holders: string[], totalPct: number): Cluster {
+    return { id: `cluster-${holders.join('-')}`, holders, connectors: [], totalPct, edges: [] };
+}
+
+/**
+ * 构造快照
+ * @param {string} id - 快照 ID
+ * @param {SerializedAnalysisResult} result - 分析结果
+ * @returns {AnalysisSnapshot} 快照
+ */
+export function createSnapshot(id: string, result: SerializedAnalysisResult): AnalysisSnapshot {
+    return {
+        id,
+        tokenAddress: result.tokenAddress,
+        createdAt: new Date().toISOString(),
+        parameters: result.parameters,
+        holderSource: result.holderSource,
+        totalHolders: result.summary.totalHolders,
+        riskScore: result.risk.token.score,
+        riskLevel: result.risk.token.level,
+        result
+    };
+}
@@ -0,0 +1,76 @@
+/**
+ * solscan.ts
+ * 主要功能：模拟 Solscan 转账接口，并按测试的环境变量重新加载 Solscan 客户端
+ *
+ * Solscan 客户端在加载时读取接口地址与缓存配置，
+ * 需要在本地服务启动后设置环境变量，再重新加载模块
+ */
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+type SolscanModule = typeof import('@/app/lib/solscan');
+
+type TransferHandler = (query: URLSearchParams) => { status?: number; body: unknown };
+
+/**
+ * 模拟的 Solscan 服务
+ * @property {SolscanModule} solscan - 指向本地服务的 Solscan 客户端
+ * @property {URLSearchParams[]} requests - 收到的转账查询参数
+ */
+interface SolscanStub {
+    solscan: SolscanModule;
+    requests: URLSearchParams[];
+    setHandler(handler: TransferHandler): void;
+    close(): Promise<void>;
+}
+
+const emptyHandler: TransferHandler = () => ({ body: { success: true, data: [] } });
+
+/**
+ * 构造 Solscan 转账记录
+ * @param {string} from - 发送方
+ * @param {string} to - 接收方
+ * @param {number} amount - 金额（最小单位）
+ * @param {number} blockTime - 区块时间（秒）
+ * @returns {object} 转账记录
+ */
+export function createTransfer(from: string, to: string, amount: number, blockTime: number = 1700000000) {
+    return { from_address: from, to_address: to, amount, token_decimals: 0, block_time: blockTime };
+}
+
+/**
+ * 启动模拟服务并加载 Solscan 客户端
+ * @param {Record<string, string>} env - 加载前设置的环境变量，如 SOLSCAN_CACHE
+ * @returns {Promise<SolscanStub>} 模拟服务
+ */
+export async function startSolscanStub(env: Record<string, string> = {}): Promise<SolscanStub> {
+    let handler = emptyHandler;
+    const requests: URLSearchParams[] = [];
+
+    const server = http.createServer((req, res) => {
+        const query = new URL(req.url ?? '/', 'http://localhost').searchParams;
+        requests.push(query);
+        const { status = 200, body } = handler(query);
+        res.writeHead(status, { 'Content-Type': 'application/json', 'Retry-After': '0' });
+        res.end(JSON.stringify(body));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    // 令牌桶在首次调用时按环境变量创建，放宽限流避免用例等待令牌
+    Object.assign(process.env, {
+        SOLSCAN_API_URL: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+        SOLSCAN_RATE_LIMIT: '1000',
+        SOLSCAN_RATE_BURST: '1000',
+        ...env
+    });
+    jest.resetModules();
+    const solscan = await import('@/app/lib/solscan');
+
+    return {
+        solscan,
+        requests,
+        setHandler: next => { handler = next; },
+        close: () => new Promise(resolve => server.close(() => resolve()))
+    };
+}
@@ -0,0 +1,112 @@
+/**
+ * analyze.test.ts
+ * 通过本地 Solscan 服务测试分析重试：只重新查询失败的持有者、累加统计，以及代币转账追踪失败的持有者状态
+ */
+
+import type { SerializedAnalysisResult } from '@/app/lib/analyze';
+import type { RelationStatus } from '@/app/lib/solscan';
+import { DEFAULT_ANALYSIS_PARAMETERS } from '@/app/lib/validation';
+import { createTransfer, startSolscanStub } from '../helpers/solscan';
+import { TOKEN, createAnalysisResult, createFundingEdge } from '../helpers/analysis';
+
+type AnalyzeModule = typeof import('@/app/lib/analyze');
+type SolscanStub = Awaited<ReturnType<typeof startSolscanStub>>;
+
+const BINANCE = '2ojv9BAiHUrvsm9gxDe7fJSzbNZSJcxZvf8dqmWGHG8S';
+
+const COMPLETE: RelationStatus = { status: 'complete', reason: null, callsAttempted: 1, failedLookups: 0 };
+const FAILED: RelationStatus = { status: 'failed', reason: 'Service unavailable', callsAttempted: 1, failedLookups: 1 };
+
+/**
+ * 构造上一次的分析结果：a 查询完整，b、c 查询失败
+ */
+function createPreviousResult(traceTokenFlow: boolean): SerializedAnalysisResult {
+    const base = createAnalysisResult({ a: 0.3, b: 0.2, c: 0.1 });
+    return {
+        ...base,
+        // 每个持有者只查询一次转入的 SOL 转账
+        parameters: { ...DEFAULT_ANALYSIS_PARAMETERS, maxDepth: 1, direction: 'in', traceTokenFlow },
+        relatedAddresses: {
+            a: {
+                incomingAddresses: ['funder'],
+                outgoingAddresses: [],
+                totalInAmount: 10,
+                totalOutAmount: 0,
+                transactions: [createFundingEdge('funder', 'a')]
+            }
+        },
+        holderStatus: { a: COMPLETE, b: FAILED, c: FAILED },
+        summary: {
+            ...base.summary,
+            apiCallCount: 5,
+            cacheHits: 2,
+            cacheMisses: 3,
+            exchangeEdgesRemoved: 1,
+            exchangeEdgesCollapsed: 4
+        }
+    };
+}
+
+describe('analyzeTokenHoldersRelatedAddresses retry', () => {
+    let stub: SolscanStub;
+    let analyze: AnalyzeModule;
+
+    beforeAll(async () => {
+        stub = await startSolscanStub({ FUNDING_ASSETS: 'SOL' });
+        // 与 Solscan 客户端在同一模块注册表中加载
+        analyze = await import('@/app/lib/analyze');
+    });
+
+    afterAll(async () => {
+        await stub.close();
+    });
+
+    beforeEach(() => {
+        stub.requests.length = 0;
+    });
+
+    it('re-queries only the failed holders and adds up the summary counters', async () => {
+        const previous = createPreviousResult(false);
+        stub.setHandler(query => ({
+            body: { success: true, data: query.get('address') === 'b' ? [createTransfer(BINANCE, 'b', 10)] : [] }
+        }));
+
+        const result = await analyze.analyzeTokenHoldersRelatedAddresses(TOKEN, {}, { retryFrom: previous });
+
+        expect(stub.requests.map(query => query.get('address')).sort()).toEqual(['b', 'c']);
+        expect(result.parameters).toEqual(previous.parameters);
+        expect(result.relatedAddresses.get('a')).toEqual(previous.relatedAddresses.a);
+        expect(result.relatedAddresses.get('b')?.incomingAddresses).toEqual(['exchange:Binance']);
+        expect(result.holderStatus).toMatchObject({
+            a: COMPLETE,
+            b: { status: 'complete' },
+            c: { status: 'complete' }
+        });
+        expect(result.summary).toMatchObject({
+            apiCallCount: 7,
+            cacheHits: 2,
+            cacheMisses: 5,
+            exchangeEdgesRemoved: 1,
+            exchangeEdgesCollapsed: 5,
+            completeness: { complete: 3, partial: 0, failed: 0, ratio: 1 }
+        });
+    });
+
+    it('marks a holder partial when its token transfers cannot be traced', async () => {
+        const previous = createPreviousResult(true);
+        stub.setHandler(query => query.get('token') === TOKEN && query.get('address') === 'b'
+            ? { status: 400, body: { success: false } }
+            : { body: { success: true, data: [] } });
+
+        const result = await analyze.analyzeTokenHoldersRelatedAddresses(TOKEN, {}, { retryFrom: previous });
+
+        expect(result.holderStatus.b).toEqual({
+            status: 'partial',
+            reason: expect.stringMatching(/^Token (in|out) transfers failed: Solscan rejected the request for b/),
+            callsAttempted: 1,
+            failedLookups: 2
+        });
+        expect(result.holderStatus.c.status).toBe('complete');
+        expect(result.summary.completeness).toMatchObject({ complete: 2, partial: 1, failed: 0 });
+    });
+});
@@ -0,0 +1,132 @@
+/**
+ * cache.test.ts
+ * 测试响应缓存：缓存键规范化、内存 LRU 与磁盘后端、后端选择，以及 Solscan 查询的命中统计
+ */
+
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { MemoryLRUCache, FileCache, NoopCache, normalizeCacheKey, createCacheStore } from '@/app/lib/cache';
+import { createTransfer, startSolscanStub } from '../helpers/solscan';
+
+describe('normalizeCacheKey', () => {
+    it('sorts parameters and drops undefined values', () => {
+        const key = normalizeCacheKey('/account/transfer', { page: 1, address: 'a', token: undefined, flow: 'in' });
+
+        expect(key).toBe('/account/transfer?address=a&flow=in&page=1');
+        expect(normalizeCacheKey('/account/transfer', { flow: 'in', address: 'a', page: 1 })).toBe(key);
+    });
+
+    it('separates namespaces and parameter values', () => {
+        expect(normalizeCacheKey('/a', { page: 1 })).not.toBe(normalizeCacheKey('/b', { page: 1 }));
+        expect(normalizeCacheKey('/a', { page: 1 })).not.toBe(normalizeCacheKey('/a', { page: 2 }));
+    });
+});
+
+describe('MemoryLRUCache', () => {
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('returns stored values until they expire', async () => {
+        jest.useFakeTimers();
+        const cache = new MemoryLRUCache();
+        await cache.set('key', { value: 1 }, 1000);
+
+        expect(await cache.get('key')).toEqual({ value: 1 });
+        jest.advanceTimersByTime(1000);
+        expect(await cache.get('key')).toBeNull();
+        expect(await cache.get('missing')).toBeNull();
+    });
+
+    it('evicts the least recently used entry', async () => {
+        const cache = new MemoryLRUCache(2);
+        await cache.set('a', 1, 60_000);
+        await cache.set('b', 2, 60_000);
+        await cache.get('a');
+        await cache.set('c', 3, 60_000);
+
+        expect(await cache.get('a')).toBe(1);
+        expect(await cache.get('b')).toBeNull();
+        expect(await cache.get('c')).toBe(3);
+    });
+});
+
+describe('FileCache', () => {
+    let dir: string;
+
+    beforeAll(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cache-'));
+    });
+
+    afterAll(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('keeps entries readable from another instance', async () => {
+        await new FileCache(dir).set('key', { value: 1 }, 60_000);
+
+        expect(await new FileCache(dir).get('key')).toEqual({ value: 1 });
+        expect(await new FileCache(dir).get('missing')).toBeNull();
+    });
+
+    it('removes expired entries from disk', async () => {
+        const cache = new FileCache(dir);
+        await cache.set('expired', 1, -1);
+        const before = await fs.readdir(dir);
+
+        expect(await cache.get('expired')).toBeNull();
+        expect(await fs.readdir(dir)).toHaveLength(before.length - 1);
+    });
+});
+
+describe('createCacheStore', () => {
+    afterEach(() => {
+        delete process.env.TEST_CACHE;
+    });
+
+    it('selects the backend from the environment', () => {
+        expect(createCacheStore('TEST_CACHE')).toBeInstanceOf(MemoryLRUCache);
+
+        process.env.TEST_CACHE = 'file';
+        expect(createCacheStore('TEST_CACHE')).toBeInstanceOf(FileCache);
+
+        process.env.TEST_CACHE = 'none';
+        expect(createCacheStore('TEST_CACHE')).toBeInstanceOf(NoopCache);
+    });
+});
+
+describe('Solscan transfer cache', () => {
+    it('counts hits and misses and only calls Solscan on a miss', async () => {
+        const stub = await startSolscanStub({ SOLSCAN_CACHE: 'memory' });
+        stub.setHandler(() => ({ body: { success: true, data: [createTransfer('funder', 'holder', 1e9)] } }));
+
+        try {
+            const stats = stub.solscan.createSolscanStats();
+            const first = await stub.solscan.getTransactionGraph(['holder'], stats);
+            const second = await stub.solscan.getTransactionGraph(['holder'], stats);
+
+            expect(second).toEqual(first);
+            expect(stub.requests).toHaveLength(1);
+            expect(stats).toMatchObject({ apiCallCount: 1, cacheHits: 1, cacheMisses: 1 });
+        } finally {
+            await stub.close();
+        }
+    });
+
+    it('does not cache failed responses', async () => {
+        const stub = await startSolscanStub({ SOLSCAN_CACHE: 'memory' });
+        stub.setHandler(() => ({ body: { success: false } }));
+
+        try {
+            const stats = stub.solscan.createSolscanStats();
+            await stub.solscan.getTransactionGraph(['holder'], stats);
+            await stub.solscan.getTransactionGraph(['holder'], stats);
+
+            expect(stub.requests).toHaveLength(2);
+            expect(stats).toMatchObject({ apiCallCount: 2, cacheHits: 0, cacheMisses: 2 });
+        } finally {
+            await stub.close();
+        }
+    });
+});
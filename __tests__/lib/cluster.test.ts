@@ -0,0 +1,92 @@
+/**
+ * cluster.test.ts
+ * 测试持有者群组识别：连通分量、连接地址剪枝、交易所过滤与稳定 ID
+ */
+
+import { detectClusters, getClusterId } from '@/app/lib/cluster';
+import { createAnalysisResult, createFundingEdge } from '../helpers/analysis';
+import type { TransactionData } from '@/app/lib/analyze';
+
+const BINANCE = '2ojv9BAiHUrvsm9gxDe7fJSzbNZSJcxZvf8dqmWGHG8S';
+
+/**
+ * 按持有者列表与交易构造识别输入
+ */
+function detect(holders: Record<string, number>, transactions: TransactionData[]) {
+    const { topHolders } = createAnalysisResult(holders);
+    return detectClusters(topHolders, [{ transactions }]);
+}
+
+describe('detectClusters', () => {
+    it('returns nothing for an empty graph', () => {
+        expect(detect({}, [])).toEqual([]);
+        expect(detect({ a: 0.2, b: 0.1 }, [])).toEqual([]);
+    });
+
+    it('does not form a cluster around a single holder', () => {
+        expect(detect({ a: 0.2 }, [
+            createFundingEdge('funder', 'a'),
+            createFundingEdge('a', 'other')
+        ])).toEqual([]);
+    });
+
+    it('links holders connected directly or through a shared address', () => {
+        const clusters = detect({ a: 0.2, b: 0.1, c: 0.05 }, [
+            createFundingEdge('funder', 'a'),
+            createFundingEdge('funder', 'b'),
+            createFundingEdge('b', 'c')
+        ]);
+
+        expect(clusters).toHaveLength(1);
+        expect(clusters[0]).toMatchObject({
+            id: getClusterId(['a', 'b', 'c']),
+            holders: ['a', 'b', 'c'],
+            connectors: ['funder']
+        });
+        expect(clusters[0].totalPct).toBeCloseTo(0.35);
+        expect(clusters[0].edges).toHaveLength(3);
+    });
+
+    it('prunes dangling addresses that connect no members', () => {
+        const clusters = detect({ a: 0.2, b: 0.1 }, [
+            createFundingEdge('funder', 'a'),
+            createFundingEdge('funder', 'b'),
+            createFundingEdge('origin', 'funder'),
+            createFundingEdge('a', 'leaf')
+        ]);
+
+        expect(clusters[0].connectors).toEqual(['funder']);
+        expect(clusters[0].edges.map(edge => `${edge.from}->${edge.to}`)).toEqual(['funder->a', 'funder->b']);
+    });
+
+    it('does not link holders through an exchange', () => {
+        expect(detect({ a: 0.2, b: 0.1 }, [
+            createFundingEdge(BINANCE, 'a'),
+            createFundingEdge(BINANCE, 'b')
+        ])).toEqual([]);
+    });
+
+    it('counts an edge seen in several holder graphs once', () => {
+        const { topHolders } = createAnalysisResult({ a: 0.2, b: 0.1 });
+        const edge = createFundingEdge('a', 'b');
+
+        const clusters = detectClusters(topHolders, [{ transactions: [edge] }, { transactions: [edge] }]);
+
+        expect(clusters[0].edges).toEqual([edge]);
+    });
+
+    it('keeps separate clusters apart, largest supply first', () => {
+        const clusters = detect({ a: 0.05, b: 0.05, c: 0.2, d: 0.1 }, [
+            createFundingEdge('a', 'b'),
+            createFundingEdge('c', 'd')
+        ]);
+
+        expect(clusters.map(cluster => cluster.holders)).toEqual([['c', 'd'], ['a', 'b']]);
+    });
+
+    it('derives the same ID regardless of member order', () => {
+        expect(getClusterId(['b', 'a'])).toBe(getClusterId(['a', 'b']));
+        expect(getClusterId(['a', 'b'])).not.toBe(getClusterId(['a', 'c']));
+        expect(getClusterId(['a', 'b'])).toMatch(/^cluster-[0-9a-f]{10}$/);
+    });
+});
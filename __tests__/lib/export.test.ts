@@ -0,0 +1,90 @@
+/**
+ * export.test.ts
+ * 测试分析结果导出：CSV 转义与公式防护、较早快照缺少的字段，以及 XML 转义
+ */
+
+import { exportAnalysis, isExportFormat } from '@/app/lib/export';
+import type { SerializedAnalysisResult } from '@/app/lib/analyze';
+import { createAnalysisResult, createFundingEdge } from '../helpers/analysis';
+
+/**
+ * 构造带自定义标签的分析结果
+ */
+function withUserLabel(label: string) {
+    const now = new Date(0).toISOString();
+    return createAnalysisResult({ holder: 0.2 }, {
+        userLabels: { holder: { address: 'holder', label, createdAt: now, updatedAt: now } }
+    });
+}
+
+/**
+ * 导出 CSV 并返回数据行（不含表头）
+ */
+function csvRows(result: SerializedAnalysisResult, format: 'holders-csv' | 'transactions-csv' = 'holders-csv') {
+    return exportAnalysis(result, format).content.split('\r\n').slice(1, -1);
+}
+
+/**
+ * 返回持有者 CSV 中自定义标签列的原始文本
+ */
+function userLabelField(label: string): string {
+    const { content } = exportAnalysis(withUserLabel(label), 'holders-csv');
+    const [header, row] = content.split('\r\n');
+    const column = header.split(',').indexOf('user_label');
+    // 标签之前的列均不含逗号
+    return row.split(',').slice(column, -7).join(',');
+}
+
+describe('exportAnalysis', () => {
+    it('prefixes text that spreadsheets would run as a formula', () => {
+        expect(userLabelField('=1+1')).toBe(`'=1+1`);
+        expect(userLabelField('+1')).toBe(`'+1`);
+        expect(userLabelField('-1')).toBe(`'-1`);
+        expect(userLabelField('@SUM(A1)')).toBe(`'@SUM(A1)`);
+        expect(userLabelField('\t=1')).toBe(`'\t=1`);
+        expect(userLabelField('Dev wallet')).toBe('Dev wallet');
+    });
+
+    it('quotes fields containing commas, quotes or line breaks', () => {
+        expect(userLabelField('Dev, wallet')).toBe('"Dev, wallet"');
+        expect(userLabelField('The "dev"')).toBe('"The ""dev"""');
+        expect(userLabelField('Dev\nwallet')).toBe('"Dev\nwallet"');
+        expect(userLabelField('=HYPERLINK("x","y")')).toBe(`"'=HYPERLINK(""x"",""y"")"`);
+    });
+
+    it('keeps negative numbers as numbers', () => {
+        const edge = { ...createFundingEdge('a', 'b'), amount: -1.5 };
+        const [row] = csvRows(createAnalysisResult({}, { tokenFlows: [edge] }), 'transactions-csv');
+
+        expect(row.split(',')[3]).toBe('-1.5');
+    });
+
+    it('exports snapshots saved before labels, watchlists and holder status existed', () => {
+        const result = createAnalysisResult({ holder: 0.2 });
+        const legacy = { ...result, labels: undefined, userLabels: undefined, watchlists: undefined, holderStatus: undefined };
+
+        const [row] = csvRows(legacy as unknown as SerializedAnalysisResult);
+
+        expect(row.startsWith('holder,,0.2,false,,,,,')).toBe(true);
+        expect(() => exportAnalysis(legacy as unknown as SerializedAnalysisResult, 'graphml')).not.toThrow();
+    });
+
+    it('escapes XML special characters in graph exports', () => {
+        const result = withUserLabel('<dev> & "friends"');
+
+        for (const format of ['graphml', 'gexf'] as const) {
+            const { content } = exportAnalysis(result, format);
+            expect(content).toContain('&lt;dev&gt; &amp; &quot;friends&quot;');
+            expect(content).not.toContain('<dev>');
+        }
+    });
+});
+
+describe('isExportFormat', () => {
+    it('accepts only the supported formats', () => {
+        expect(isExportFormat('holders-csv')).toBe(true);
+        expect(isExportFormat('gexf')).toBe(true);
+        expect(isExportFormat('xlsx')).toBe(false);
+        expect(isExportFormat(undefined)).toBe(false);
+    });
+});
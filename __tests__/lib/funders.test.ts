@@ -0,0 +1,118 @@
+/**
+ * funders.test.ts
+ * 测试共同资金来源识别：时间窗口、去重、交易所过滤与排序
+ */
+
+import { detectCommonFunders } from '@/app/lib/funders';
+import { createAnalysisResult, createFundingEdge } from '../helpers/analysis';
+import type { TransactionData } from '@/app/lib/analyze';
+
+const HOUR = 3600;
+const T0 = 1700000000;
+const BINANCE = '2ojv9BAiHUrvsm9gxDe7fJSzbNZSJcxZvf8dqmWGHG8S';
+
+/**
+ * 按持有者列表与交易构造识别输入
+ */
+function detect(holders: Record<string, number>, transactions: TransactionData[], maxWindow: number = 72 * HOUR) {
+    const { topHolders } = createAnalysisResult(holders);
+    return detectCommonFunders(topHolders, [{ transactions }], maxWindow);
+}
+
+describe('detectCommonFunders', () => {
+    it('returns nothing for an empty graph or a single funded holder', () => {
+        expect(detect({}, [])).toEqual([]);
+        expect(detect({ a: 0.2 }, [createFundingEdge('funder', 'a', T0), createFundingEdge('funder', 'a', T0 + 60)])).toEqual([]);
+    });
+
+    it('groups holders funded by the same wallet within the window', () => {
+        const funders = detect({ a: 0.2, b: 0.1, c: 0.05 }, [
+            createFundingEdge('funder', 'b', T0 + HOUR),
+            createFundingEdge('funder', 'a', T0),
+            createFundingEdge('funder', 'a', T0 + 2 * HOUR)
+        ]);
+
+        expect(funders).toHaveLength(1);
+        expect(funders[0]).toMatchObject({
+            funder: 'funder',
+            totalAmounts: { SOL: 30 },
+            firstFundedAt: T0,
+            lastFundedAt: T0 + 2 * HOUR,
+            timeSpread: 2 * HOUR
+        });
+        expect(funders[0].totalPct).toBeCloseTo(0.3);
+        expect(funders[0].holders).toEqual([
+            { address: 'a', amounts: { SOL: 20 }, firstFundedAt: T0, lastFundedAt: T0 + 2 * HOUR },
+            { address: 'b', amounts: { SOL: 10 }, firstFundedAt: T0 + HOUR, lastFundedAt: T0 + HOUR }
+        ]);
+    });
+
+    it('includes fundings exactly at the window boundary and drops those beyond it', () => {
+        const holders = { a: 0.2, b: 0.1 };
+
+        expect(detect(holders, [
+            createFundingEdge('funder', 'a', T0),
+            createFundingEdge('funder', 'b', T0 + HOUR)
+        ], HOUR)).toHaveLength(1);
+        expect(detect(holders, [
+            createFundingEdge('funder', 'a', T0),
+            createFundingEdge('funder', 'b', T0 + HOUR + 1)
+        ], HOUR)).toEqual([]);
+    });
+
+    it('keeps only the window that funded the most holders', () => {
+        const funders = detect({ a: 0.2, b: 0.1, c: 0.05, d: 0.05 }, [
+            createFundingEdge('funder', 'a', T0),
+            createFundingEdge('funder', 'b', T0 + 10 * 24 * HOUR),
+            createFundingEdge('funder', 'c', T0 + 10 * 24 * HOUR + HOUR),
+            createFundingEdge('funder', 'd', T0 + 10 * 24 * HOUR + 2 * HOUR)
+        ], 24 * HOUR);
+
+        expect(funders[0].holders.map(holder => holder.address)).toEqual(['b', 'c', 'd']);
+        expect(funders[0].timeSpread).toBe(2 * HOUR);
+    });
+
+    it('ignores the window when it is 0', () => {
+        const funders = detect({ a: 0.2, b: 0.1 }, [
+            createFundingEdge('funder', 'a', T0),
+            createFundingEdge('funder', 'b', T0 + 365 * 24 * HOUR)
+        ], 0);
+
+        expect(funders).toHaveLength(1);
+    });
+
+    it('counts a transfer seen in several holder graphs once', () => {
+        const { topHolders } = createAnalysisResult({ a: 0.2, b: 0.1 });
+        const edges = [createFundingEdge('funder', 'a', T0), createFundingEdge('funder', 'b', T0 + 60)];
+
+        const funders = detectCommonFunders(topHolders, [{ transactions: edges }, { transactions: edges }], HOUR);
+
+        expect(funders[0].totalAmounts).toEqual({ SOL: 20 });
+    });
+
+    it('ignores exchanges, outgoing transfers and non-holder recipients', () => {
+        const outgoing = { ...createFundingEdge('funder', 'b', T0), type: 'out' as const };
+
+        expect(detect({ a: 0.2, b: 0.1 }, [
+            createFundingEdge(BINANCE, 'a', T0),
+            createFundingEdge(BINANCE, 'b', T0),
+            createFundingEdge('funder', 'a', T0),
+            outgoing,
+            createFundingEdge('funder', 'outsider', T0)
+        ])).toEqual([]);
+    });
+
+    it('sorts funders by holder count, then by combined supply', () => {
+        const funders = detect({ a: 0.3, b: 0.2, c: 0.01, d: 0.01, e: 0.01 }, [
+            createFundingEdge('small', 'c', T0),
+            createFundingEdge('small', 'd', T0),
+            createFundingEdge('large', 'a', T0),
+            createFundingEdge('large', 'b', T0),
+            createFundingEdge('wide', 'c', T0),
+            createFundingEdge('wide', 'd', T0),
+            createFundingEdge('wide', 'e', T0)
+        ]);
+
+        expect(funders.map(funder => funder.funder)).toEqual(['wide', 'large', 'small']);
+    });
+});
@@ -0,0 +1,122 @@
+/**
+ * holder-source.test.ts
+ * 测试持有者数据源注册表：按顺序回退、非真实持有者过滤与全部失败时的错误
+ */
+
+import { registerHolderSource, getHolderSource, fetchHoldersWithFallback } from '@/app/lib/holder-source';
+import type { HolderData, HolderSource } from '@/app/lib/holder-source';
+import { ProviderError, ProviderInputError } from '@/app/lib/errors';
+import { TOKEN } from '../helpers/analysis';
+
+const BINANCE = '2ojv9BAiHUrvsm9gxDe7fJSzbNZSJcxZvf8dqmWGHG8S';
+
+/**
+ * 构造持有者
+ */
+function holder(address: string, sns: string | null = null): HolderData {
+    return { holder_address: address, holder_sns: sns, holder_pct_of_supply: '0.1', is_new: false };
+}
+
+/**
+ * 注册返回固定结果的数据源
+ * @param {string} name - 数据源名称
+ * @param {() => Promise<HolderData[]>} fetch - 获取持有者的实现
+ * @returns {jest.Mock} 获取函数，用于检查调用
+ */
+function registerFakeSource(name: string, fetch: () => Promise<HolderData[]>) {
+    const fetchTokenHolders = jest.fn(fetch);
+    const source: HolderSource = {
+        name,
+        capabilities: { sns: name.endsWith('sns'), isNew: false, tags: false },
+        fetchTokenHolders
+    };
+    registerHolderSource(source);
+    return fetchTokenHolders;
+}
+
+const unavailable = () => Promise.reject(new ProviderError('upstream', '/holders', 'data', 'Service unavailable'));
+const noHolders = () => Promise.reject(new ProviderInputError('upstream', '/holders', null, 'Token has no holders'));
+
+describe('fetchHoldersWithFallback', () => {
+    afterEach(() => {
+        delete process.env.HOLDER_SOURCES;
+    });
+
+    it('returns the first source that succeeds and does not try the rest', async () => {
+        const first = registerFakeSource('first-sns', async () => [holder('a', 'a.sol')]);
+        const second = registerFakeSource('second', async () => [holder('b')]);
+
+        const result = await fetchHoldersWithFallback(TOKEN, 20, ['first-sns', 'second']);
+
+        expect(result).toEqual({
+            source: 'first-sns',
+            capabilities: { sns: true, isNew: false, tags: false },
+            holders: [holder('a', 'a.sol')]
+        });
+        expect(first).toHaveBeenCalledWith(TOKEN, 20);
+        expect(second).not.toHaveBeenCalled();
+    });
+
+    it('falls back past failing, unknown and empty sources in order', async () => {
+        const calls: string[] = [];
+        registerFakeSource('down', async () => { calls.push('down'); return unavailable(); });
+        registerFakeSource('empty', async () => { calls.push('empty'); return []; });
+        registerFakeSource('working', async () => { calls.push('working'); return [holder('a')]; });
+
+        const result = await fetchHoldersWithFallback(TOKEN, 20, ['down', 'missing', 'empty', 'working']);
+
+        expect(result.source).toBe('working');
+        expect(calls).toEqual(['down', 'empty', 'working']);
+    });
+
+    it('removes exchanges and pools, and falls back when nothing else is left', async () => {
+        registerFakeSource('exchanges-only', async () => [holder(BINANCE), holder('pool', 'Raydium Pool')]);
+        registerFakeSource('mixed', async () => [holder(BINANCE), holder('a')]);
+
+        const result = await fetchHoldersWithFallback(TOKEN, 20, ['exchanges-only', 'mixed']);
+
+        expect(result.source).toBe('mixed');
+        expect(result.holders).toEqual([holder('a')]);
+    });
+
+    it('uses the order configured in HOLDER_SOURCES', async () => {
+        registerFakeSource('configured-a', async () => [holder('a')]);
+        registerFakeSource('configured-b', async () => [holder('b')]);
+        process.env.HOLDER_SOURCES = ' configured-b , configured-a ';
+
+        expect((await fetchHoldersWithFallback(TOKEN)).source).toBe('configured-b');
+    });
+
+    it('reports every failure, pointing at the first provider error', async () => {
+        registerFakeSource('broken', async () => { throw new Error('socket hang up'); });
+        registerFakeSource('down', unavailable);
+
+        const error = await fetchHoldersWithFallback(TOKEN, 20, ['missing', 'broken', 'down']).catch(e => e);
+
+        expect(error).toBeInstanceOf(ProviderError);
+        expect(error).not.toBeInstanceOf(ProviderInputError);
+        expect(error).toMatchObject({ provider: 'upstream', endpoint: '/holders', field: 'data' });
+        expect(error.message).toBe(
+            'All holder sources failed (missing: not registered; broken: socket hang up; down: Service unavailable)'
+        );
+    });
+
+    it('throws an input error when every source rejects the token', async () => {
+        registerFakeSource('no-holders', noHolders);
+        registerFakeSource('empty', async () => []);
+
+        const error = await fetchHoldersWithFallback(TOKEN, 20, ['no-holders', 'empty']).catch(e => e);
+
+        expect(error).toBeInstanceOf(ProviderInputError);
+        expect(error).toMatchObject({ provider: 'upstream', endpoint: '/holders' });
+    });
+});
+
+describe('registerHolderSource', () => {
+    it('replaces a source registered under the same name', () => {
+        registerFakeSource('replaced', async () => []);
+        const replacement = registerFakeSource('replaced', async () => [holder('a')]);
+
+        expect(getHolderSource('replaced')?.fetchTokenHolders).toBe(replacement);
+    });
+});
@@ -0,0 +1,238 @@
+/**
+ * jobs.test.ts
+ * 测试任务存储（内存、文件、Redis REST）与后台任务的完成、取消和超时
+ */
+
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import type { AddressInfo } from 'net';
+import { analyzeTokenHoldersRelatedAddresses, AnalysisCancelledError } from '@/app/lib/analyze';
+import type { AnalyzeOptions, SerializedAnalysisResult } from '@/app/lib/analyze';
+import {
+    MemoryJobStore,
+    FileJobStore,
+    KvJobStore,
+    submitAnalysisJob,
+    getAnalysisJob,
+    cancelAnalysisJob,
+    isJobFinished
+} from '@/app/lib/jobs';
+import type { AnalysisJob, JobStore } from '@/app/lib/jobs';
+import { createInitialProgress } from '@/app/lib/progress';
+import { DEFAULT_ANALYSIS_PARAMETERS } from '@/app/lib/validation';
+import { TOKEN, createAnalysisResult } from '../helpers/analysis';
+
+// 任务执行时不调用真实的上游数据源
+jest.mock('@/app/lib/analyze', () => ({
+    ...jest.requireActual('@/app/lib/analyze'),
+    analyzeTokenHoldersRelatedAddresses: jest.fn(),
+    serializeAnalysisResult: (result: unknown) => result
+}));
+
+const analyzeMock = analyzeTokenHoldersRelatedAddresses as unknown as
+    jest.Mock<Promise<SerializedAnalysisResult>, [string, unknown, AnalyzeOptions]>;
+
+/**
+ * 构造待执行的任务
+ */
+function createJob(id: string): AnalysisJob {
+    const now = new Date(0).toISOString();
+    return {
+        id,
+        tokenAddress: TOKEN,
+        parameters: DEFAULT_ANALYSIS_PARAMETERS,
+        status: 'pending',
+        progress: createInitialProgress(),
+        createdAt: now,
+        updatedAt: now
+    };
+}
+
+/**
+ * 分析在取消信号触发时以 AnalysisCancelledError 结束
+ */
+function waitForAbort(options: AnalyzeOptions): Promise<never> {
+    return new Promise((_resolve, reject) => {
+        options.signal?.addEventListener('abort', () => reject(new AnalysisCancelledError()));
+    });
+}
+
+/**
+ * 等待任务结束
+ */
+async function waitForJob(id: string): Promise<AnalysisJob> {
+    for (; ;) {
+        const job = await getAnalysisJob(id);
+        if (job && isJobFinished(job)) return job;
+        await new Promise(resolve => setTimeout(resolve, 5));
+    }
+}
+
+/**
+ * 三种存储共用的接口行为
+ */
+function describeJobStore(name: string, createStore: () => JobStore) {
+    describe(name, () => {
+        it('creates, reads and updates jobs', async () => {
+            const store = createStore();
+            await store.create(createJob('job-1'));
+
+            expect(await store.get('job-1')).toMatchObject({ id: 'job-1', status: 'pending' });
+
+            const updated = await store.update('job-1', { status: 'running' });
+            expect(updated).toMatchObject({ id: 'job-1', status: 'running', tokenAddress: TOKEN });
+            expect(updated?.updatedAt).not.toBe(new Date(0).toISOString());
+            expect(await store.get('job-1')).toEqual(updated);
+        });
+
+        it('returns null for unknown jobs', async () => {
+            const store = createStore();
+
+            expect(await store.get('missing')).toBeNull();
+            expect(await store.update('missing', { status: 'running' })).toBeNull();
+        });
+    });
+}
+
+describeJobStore('MemoryJobStore', () => new MemoryJobStore());
+
+describe('FileJobStore', () => {
+    let dir: string;
+
+    beforeAll(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'jobs-'));
+    });
+
+    afterAll(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    describeJobStore('interface', () => new FileJobStore(dir));
+
+    it('keeps jobs readable from another store instance', async () => {
+        await new FileJobStore(dir).create(createJob('job-2'));
+
+        expect(await new FileJobStore(dir).get('job-2')).toMatchObject({ id: 'job-2' });
+    });
+
+    it('does not write outside its directory', async () => {
+        await new FileJobStore(dir).create(createJob('../escaped'));
+
+        expect(await fs.readdir(dir)).toContain('escaped.json');
+        await expect(fs.access(path.join(dir, '..', 'escaped.json'))).rejects.toThrow();
+    });
+});
+
+describe('KvJobStore', () => {
+    let server: http.Server;
+    let url: string;
+    let data: Map<string, string>;
+    let commands: unknown[][];
+    let authorization: string | undefined;
+    // 设置后下一次请求返回该响应
+    let failure: { status: number; body: unknown } | null;
+
+    beforeAll(async () => {
+        // 模拟 Redis REST 接口：请求体为命令数组，响应 { result } 或 { error }
+        server = http.createServer((req, res) => {
+            let raw = '';
+            req.on('data', chunk => { raw += chunk; });
+            req.on('end', () => {
+                const command = JSON.parse(raw) as string[];
+                commands.push(command);
+                authorization = req.headers.authorization;
+
+                if (failure) {
+                    res.writeHead(failure.status, { 'Content-Type': 'application/json' });
+                    res.end(JSON.stringify(failure.body));
+                    failure = null;
+                    return;
+                }
+
+                const [name, key, value] = command;
+                if (name === 'SET') data.set(key, value);
+                res.writeHead(200, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ result: name === 'GET' ? data.get(key) ?? null : 'OK' }));
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(() => {
+        data = new Map();
+        commands = [];
+        failure = null;
+    });
+
+    describeJobStore('interface', () => new KvJobStore(url, 'kv-token'));
+
+    it('stores jobs under a prefixed key with an expiry', async () => {
+        await new KvJobStore(url, 'kv-token', 60).create(createJob('job-3'));
+
+        expect(authorization).toBe('Bearer kv-token');
+        expect(commands[0]).toEqual(['SET', 'job:job-3', expect.any(String), 'EX', 60]);
+        expect(JSON.parse(data.get('job:job-3') ?? '')).toMatchObject({ id: 'job-3' });
+    });
+
+    it('throws on HTTP and Redis errors', async () => {
+        const store = new KvJobStore(url, 'kv-token');
+
+        failure = { status: 401, body: { error: 'unauthorized' } };
+        await expect(store.get('job-4')).rejects.toThrow('Job store GET failed: HTTP 401');
+
+        failure = { status: 200, body: { error: 'WRONGTYPE' } };
+        await expect(store.get('job-4')).rejects.toThrow('Job store GET failed: WRONGTYPE');
+    });
+});
+
+describe('submitAnalysisJob', () => {
+    afterEach(() => {
+        delete process.env.JOB_MAX_DURATION_SECONDS;
+        analyzeMock.mockReset();
+    });
+
+    it('stores the result and the saved snapshot when the analysis completes', async () => {
+        const result = createAnalysisResult({ a: 0.2 });
+        analyzeMock.mockResolvedValue(result);
+
+        const job = await submitAnalysisJob(TOKEN, DEFAULT_ANALYSIS_PARAMETERS);
+        expect(job.status).toBe('pending');
+
+        const finished = await waitForJob(job.id);
+        expect(finished.status).toBe('completed');
+        expect(finished.result).toEqual(result);
+        expect(finished.snapshotId).toEqual(expect.any(String));
+    });
+
+    it('keeps a cancelled job cancelled', async () => {
+        analyzeMock.mockImplementation((_token, _parameters, options) => waitForAbort(options));
+
+        const job = await submitAnalysisJob(TOKEN, DEFAULT_ANALYSIS_PARAMETERS);
+        expect(await cancelAnalysisJob(job.id)).toMatchObject({ status: 'cancelled' });
+
+        const finished = await waitForJob(job.id);
+        expect(finished.status).toBe('cancelled');
+        expect(finished.error).toBeUndefined();
+    });
+
+    it('fails the job when it exceeds the time limit', async () => {
+        process.env.JOB_MAX_DURATION_SECONDS = '0.05';
+        analyzeMock.mockImplementation((_token, _parameters, options) => waitForAbort(options));
+
+        const job = await submitAnalysisJob(TOKEN, DEFAULT_ANALYSIS_PARAMETERS);
+
+        const finished = await waitForJob(job.id);
+        expect(finished).toMatchObject({
+            status: 'failed',
+            errorStatus: 504,
+            error: expect.stringContaining('0.05s time limit')
+        });
+    });
+});
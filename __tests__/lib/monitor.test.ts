@@ -0,0 +1,135 @@
+/**
+ * monitor.test.ts
+ * 测试监控告警规则，以及告警推送失败时的重新推送
+ */
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { analyzeTokenHoldersRelatedAddresses } from '@/app/lib/analyze';
+import type { SerializedAnalysisResult } from '@/app/lib/analyze';
+import { diffSnapshots } from '@/app/lib/snapshots';
+import { evaluateMonitorRules, runMonitor, saveMonitor, deleteMonitor } from '@/app/lib/monitor';
+import { TOKEN, createAnalysisResult, createCluster, createFundingEdge, createSnapshot } from '../helpers/analysis';
+
+// 监控运行时不调用真实的上游数据源
+jest.mock('@/app/lib/analyze', () => ({
+    analyzeTokenHoldersRelatedAddresses: jest.fn(),
+    serializeAnalysisResult: (result: unknown) => result
+}));
+
+const analyzeMock = analyzeTokenHoldersRelatedAddresses as unknown as jest.Mock<Promise<SerializedAnalysisResult>>;
+
+describe('evaluateMonitorRules', () => {
+    it('alerts on clusters above the supply threshold', () => {
+        const snapshot = createSnapshot('s1', createAnalysisResult({ a: 0.2, b: 0.15, c: 0.05 }, {
+            clusters: [createCluster(['a', 'b'], 0.35), createCluster(['c'], 0.05)]
+        }));
+
+        const alerts = evaluateMonitorRules([{ type: 'cluster_supply', threshold: 0.3 }], snapshot, null);
+
+        expect(alerts).toHaveLength(1);
+        expect(alerts[0]).toMatchObject({
+            rule: 'cluster_supply',
+            key: 'cluster_supply:cluster-a-b',
+            addresses: ['a', 'b']
+        });
+    });
+
+    it('alerts on new top holders funded by a watchlist address', () => {
+        const result = createAnalysisResult({ a: 0.2, b: 0.1, c: 0.05 }, {
+            relatedAddresses: {
+                a: { incomingAddresses: ['rug'], outgoingAddresses: [], totalInAmount: 10, totalOutAmount: 0, transactions: [createFundingEdge('rug', 'a')] },
+                b: { incomingAddresses: ['rug'], outgoingAddresses: [], totalInAmount: 10, totalOutAmount: 0, transactions: [createFundingEdge('rug', 'b')] }
+            },
+            watchlists: { rug: ['ruggers'] }
+        });
+        const previous = createSnapshot('s1', createAnalysisResult({ a: 0.2, c: 0.05 }));
+        const snapshot = createSnapshot('s2', result);
+        const rule = { type: 'watchlist_funded_holder' as const, watchlist: 'ruggers', topN: 2 };
+
+        // 首次运行：前 2 名都视为新进入
+        expect(evaluateMonitorRules([rule], snapshot, null).map(alert => alert.key)).toEqual([
+            'watchlist_funded_holder:a:rug',
+            'watchlist_funded_holder:b:rug'
+        ]);
+        // 有历史快照时只检查新进入的持有者
+        expect(evaluateMonitorRules([rule], snapshot, diffSnapshots(previous, snapshot)).map(alert => alert.key)).toEqual([
+            'watchlist_funded_holder:b:rug'
+        ]);
+    });
+
+    it('alerts on large holders that exited the top N', () => {
+        const previous = createSnapshot('s1', createAnalysisResult({ a: 0.2, b: 0.01, c: 0.05 }));
+        const snapshot = createSnapshot('s2', createAnalysisResult({ c: 0.05 }));
+
+        const alerts = evaluateMonitorRules(
+            [{ type: 'holder_exited', minPct: 0.1 }],
+            snapshot,
+            diffSnapshots(previous, snapshot)
+        );
+
+        expect(alerts.map(alert => alert.addresses)).toEqual([['a']]);
+    });
+});
+
+describe('runMonitor', () => {
+    let server: http.Server;
+    let webhookUrl: string;
+    let webhookStatus: number;
+    let received: { alerts: { key: string }[] }[];
+
+    beforeAll(async () => {
+        process.env.WEBHOOK_MAX_RETRIES = '0';
+        server = http.createServer((req, res) => {
+            let raw = '';
+            req.on('data', chunk => { raw += chunk; });
+            req.on('end', () => {
+                received.push(JSON.parse(raw));
+                res.writeHead(webhookStatus);
+                res.end();
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        webhookUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+    });
+
+    afterAll(async () => {
+        delete process.env.WEBHOOK_MAX_RETRIES;
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(async () => {
+        received = [];
+        webhookStatus = 200;
+        analyzeMock.mockResolvedValue(createAnalysisResult({ a: 0.2, b: 0.15 }, {
+            clusters: [createCluster(['a', 'b'], 0.35)]
+        }));
+        await deleteMonitor(TOKEN);
+        await saveMonitor(TOKEN, {
+            rules: [{ type: 'cluster_supply', threshold: 0.3 }],
+            webhooks: [webhookUrl]
+        });
+    });
+
+    it('does not push an alert again while its condition stays true', async () => {
+        const first = await runMonitor(TOKEN);
+        const second = await runMonitor(TOKEN);
+
+        expect(first?.newAlerts).toHaveLength(1);
+        expect(second?.alerts).toHaveLength(1);
+        expect(second?.newAlerts).toHaveLength(0);
+        expect(received).toHaveLength(1);
+    });
+
+    it('pushes the alert again on the next run when every webhook rejected it', async () => {
+        webhookStatus = 400;
+        const first = await runMonitor(TOKEN);
+        webhookStatus = 200;
+        const second = await runMonitor(TOKEN);
+
+        expect(first?.deliveries.map(delivery => delivery.ok)).toEqual([false]);
+        expect(second?.newAlerts.map(alert => alert.key)).toEqual(['cluster_supply:cluster-a-b']);
+        expect(second?.deliveries.map(delivery => delivery.ok)).toEqual([true]);
+        expect(received).toHaveLength(2);
+    });
+});
@@ -0,0 +1,86 @@
+/**
+ * permalink.test.ts
+ * 测试分析结果页面链接：生成与解析的往返、默认值、重复参数与非法参数
+ */
+
+import { buildAnalysisPath, parseAnalysisSearchParams, isSameParameters } from '@/app/lib/permalink';
+import type { SearchParams } from '@/app/lib/permalink';
+import type { AnalysisParameters } from '@/app/lib/analyze';
+import { DEFAULT_ANALYSIS_PARAMETERS } from '@/app/lib/validation';
+import { TOKEN } from '../helpers/analysis';
+
+/**
+ * 将页面路径拆分为代币地址与 Next.js 形式的查询参数
+ */
+function splitPath(analysisPath: string): { token: string; searchParams: SearchParams } {
+    const url = new URL(analysisPath, 'http://localhost');
+    const searchParams: SearchParams = {};
+    url.searchParams.forEach((value, key) => {
+        searchParams[key] = value;
+    });
+    return { token: decodeURIComponent(url.pathname.replace('/analysis/', '')), searchParams };
+}
+
+describe('buildAnalysisPath / parseAnalysisSearchParams', () => {
+    it('round-trips every analysis parameter and the snapshot ID', () => {
+        const parameters: AnalysisParameters = {
+            topN: 50,
+            maxDepth: 3,
+            minAmount: 0.25,
+            direction: 'in',
+            exchangeMode: 'exclude',
+            traceTokenFlow: false
+        };
+
+        const { token, searchParams } = splitPath(buildAnalysisPath(TOKEN, parameters, '1700000000000-0a1b2c3d'));
+
+        expect(token).toBe(TOKEN);
+        expect(parseAnalysisSearchParams(searchParams)).toEqual({
+            ok: true,
+            value: { parameters, snapshotId: '1700000000000-0a1b2c3d' }
+        });
+    });
+
+    it('round-trips the defaults without a snapshot', () => {
+        const analysisPath = buildAnalysisPath(TOKEN, DEFAULT_ANALYSIS_PARAMETERS);
+
+        expect(analysisPath).not.toContain('snapshot=');
+        expect(parseAnalysisSearchParams(splitPath(analysisPath).searchParams)).toEqual({
+            ok: true,
+            value: { parameters: DEFAULT_ANALYSIS_PARAMETERS, snapshotId: null }
+        });
+    });
+});
+
+describe('parseAnalysisSearchParams', () => {
+    it('uses the defaults for missing parameters', () => {
+        expect(parseAnalysisSearchParams({ topN: '10' })).toEqual({
+            ok: true,
+            value: { parameters: { ...DEFAULT_ANALYSIS_PARAMETERS, topN: 10 }, snapshotId: null }
+        });
+    });
+
+    it('uses the first value of a repeated parameter', () => {
+        const validation = parseAnalysisSearchParams({ topN: ['10', '99'], snapshot: ['a', 'b'] });
+
+        expect(validation.ok && validation.value).toMatchObject({ parameters: { topN: 10 }, snapshotId: 'a' });
+    });
+
+    it('rejects empty, non-numeric and out-of-range values', () => {
+        expect(parseAnalysisSearchParams({ topN: '' })).toEqual({ ok: false, error: 'topN must be a number' });
+        expect(parseAnalysisSearchParams({ minAmount: 'lots' })).toEqual({ ok: false, error: 'minAmount must be a number' });
+        expect(parseAnalysisSearchParams({ maxDepth: '9' })).toEqual({ ok: false, error: 'maxDepth must be between 1 and 4' });
+    });
+
+    it('rejects unknown traceTokenFlow and direction values', () => {
+        expect(parseAnalysisSearchParams({ traceTokenFlow: '1' })).toEqual({ ok: false, error: 'traceTokenFlow must be a boolean' });
+        expect(parseAnalysisSearchParams({ direction: 'up' })).toEqual({ ok: false, error: 'direction must be one of in, out, both' });
+    });
+});
+
+describe('isSameParameters', () => {
+    it('compares every analysis parameter', () => {
+        expect(isSameParameters(DEFAULT_ANALYSIS_PARAMETERS, { ...DEFAULT_ANALYSIS_PARAMETERS })).toBe(true);
+        expect(isSameParameters(DEFAULT_ANALYSIS_PARAMETERS, { ...DEFAULT_ANALYSIS_PARAMETERS, traceTokenFlow: false })).toBe(false);
+    });
+});
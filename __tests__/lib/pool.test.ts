@@ -0,0 +1,83 @@
+/**
+ * pool.test.ts
+ * 测试工作池的并发上限与排队顺序
+ */
+
+import { WorkerPool } from '@/app/lib/pool';
+
+/**
+ * 创建可由测试控制完成时机的任务
+ */
+function deferred() {
+    let resolve!: () => void;
+    const promise = new Promise<void>(r => { resolve = r; });
+    return { promise, resolve };
+}
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('WorkerPool', () => {
+    it('rejects an invalid concurrency', () => {
+        expect(() => new WorkerPool(0)).toThrow('Invalid concurrency: 0');
+        expect(() => new WorkerPool(1.5)).toThrow('Invalid concurrency: 1.5');
+    });
+
+    it('never runs more tasks than the concurrency', async () => {
+        const pool = new WorkerPool(2);
+        let active = 0;
+        let peak = 0;
+
+        await Promise.all(Array.from({ length: 10 }, () => pool.run(async () => {
+            active++;
+            peak = Math.max(peak, active);
+            await flush();
+            active--;
+        })));
+
+        expect(peak).toBe(2);
+    });
+
+    it('hands a finished slot to the oldest waiting task before newly submitted ones', async () => {
+        const pool = new WorkerPool(1);
+        const started: string[] = [];
+        let active = 0;
+        let peak = 0;
+        const first = deferred();
+        const track = (name: string, wait?: Promise<void>) => pool.run(async () => {
+            started.push(name);
+            active++;
+            peak = Math.max(peak, active);
+            await (wait ?? flush());
+            active--;
+        });
+
+        const running = track('first', first.promise);
+        const queued = track('queued');
+        await flush();
+        expect(started).toEqual(['first']);
+
+        // 在名额移交给排队任务的同一时刻提交新任务，模拟新任务抢在排队任务恢复执行之前到达
+        const waiting = (pool as unknown as { waiting: Array<() => void> }).waiting;
+        const shift = waiting.shift.bind(waiting);
+        let late: Promise<void> | undefined;
+        waiting.shift = () => {
+            const next = shift();
+            if (next && !late) late = track('late');
+            return next;
+        };
+
+        first.resolve();
+        await running;
+        await Promise.all([queued, late]);
+
+        expect(started).toEqual(['first', 'queued', 'late']);
+        expect(peak).toBe(1);
+    });
+
+    it('releases the slot when a task fails', async () => {
+        const pool = new WorkerPool(1);
+
+        await expect(pool.run(async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+        await expect(pool.run(async () => 'next')).resolves.toBe('next');
+    });
+});
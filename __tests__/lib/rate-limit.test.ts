@@ -0,0 +1,117 @@
+/**
+ * rate-limit.test.ts
+ * 测试令牌桶限流与上游调用重试
+ */
+
+import { TokenBucket, UpstreamHttpError, getHttpErrorInfo, withRateLimit } from '@/app/lib/rate-limit';
+
+describe('TokenBucket', () => {
+    beforeEach(() => {
+        jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('allows a burst up to the capacity, then waits for refills', async () => {
+        const bucket = new TokenBucket(2, 3);
+        let taken = 0;
+        for (let i = 0; i < 5; i++) {
+            void bucket.take().then(() => { taken++; });
+        }
+
+        await jest.advanceTimersByTimeAsync(0);
+        expect(taken).toBe(3);
+
+        // 每秒补充 2 个令牌，每 500ms 放行一个等待中的调用
+        await jest.advanceTimersByTimeAsync(499);
+        expect(taken).toBe(3);
+        await jest.advanceTimersByTimeAsync(1);
+        expect(taken).toBe(4);
+        await jest.advanceTimersByTimeAsync(500);
+        expect(taken).toBe(5);
+    });
+
+    it('grants tokens in the order they were requested', async () => {
+        const bucket = new TokenBucket(1, 1);
+        const order: number[] = [];
+        const pending = [1, 2, 3].map(id => bucket.take().then(() => { order.push(id); }));
+
+        await jest.advanceTimersByTimeAsync(2000);
+        await Promise.all(pending);
+        expect(order).toEqual([1, 2, 3]);
+    });
+
+    it('does not accumulate more tokens than the capacity while idle', async () => {
+        const bucket = new TokenBucket(10, 2);
+        await jest.advanceTimersByTimeAsync(10_000);
+
+        let taken = 0;
+        for (let i = 0; i < 3; i++) {
+            void bucket.take().then(() => { taken++; });
+        }
+        await jest.advanceTimersByTimeAsync(0);
+        expect(taken).toBe(2);
+        await jest.advanceTimersByTimeAsync(100);
+        expect(taken).toBe(3);
+    });
+});
+
+describe('getHttpErrorInfo', () => {
+    it('reads the status and Retry-After from upstream and axios errors', () => {
+        expect(getHttpErrorInfo(new UpstreamHttpError('busy', 429, '3'))).toEqual({ status: 429, retryAfter: '3' });
+        expect(getHttpErrorInfo({ response: { status: 503, headers: { 'retry-after': 1 } } }))
+            .toEqual({ status: 503, retryAfter: '1' });
+        expect(getHttpErrorInfo(new Error('network down'))).toBeNull();
+    });
+});
+
+describe('withRateLimit', () => {
+    beforeAll(() => {
+        process.env.DUNE_RATE_LIMIT = '1000';
+        process.env.DUNE_RATE_BURST = '1000';
+        process.env.DUNE_MAX_RETRIES = '2';
+    });
+
+    afterAll(() => {
+        delete process.env.DUNE_RATE_LIMIT;
+        delete process.env.DUNE_RATE_BURST;
+        delete process.env.DUNE_MAX_RETRIES;
+    });
+
+    beforeEach(() => {
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('retries 429 and 5xx responses, honouring Retry-After', async () => {
+        const fn = jest.fn()
+            .mockRejectedValueOnce(new UpstreamHttpError('rate limited', 429, '0'))
+            .mockRejectedValueOnce(new UpstreamHttpError('unavailable', 503, '0'))
+            .mockResolvedValue('ok');
+
+        await expect(withRateLimit('dune', fn)).resolves.toBe('ok');
+        expect(fn).toHaveBeenCalledTimes(3);
+    });
+
+    it('gives up after the configured number of retries', async () => {
+        const fn = jest.fn().mockRejectedValue(new UpstreamHttpError('unavailable', 502, '0'));
+
+        await expect(withRateLimit('dune', fn)).rejects.toThrow('unavailable');
+        expect(fn).toHaveBeenCalledTimes(3);
+    });
+
+    it('does not retry client errors or non-HTTP failures', async () => {
+        const badRequest = jest.fn().mockRejectedValue(new UpstreamHttpError('bad request', 400));
+        await expect(withRateLimit('dune', badRequest)).rejects.toThrow('bad request');
+        expect(badRequest).toHaveBeenCalledTimes(1);
+
+        const network = jest.fn().mockRejectedValue(new Error('socket hang up'));
+        await expect(withRateLimit('dune', network)).rejects.toThrow('socket hang up');
+        expect(network).toHaveBeenCalledTimes(1);
+    });
+});
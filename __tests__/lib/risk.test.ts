@@ -0,0 +1,148 @@
+/**
+ * risk.test.ts
+ * 测试持有者与代币风险评分：各项信号、等级阈值与分数范围
+ */
+
+import { scoreAnalysis, DEFAULT_RISK_WEIGHTS } from '@/app/lib/risk';
+import type { RiskWeights } from '@/app/lib/risk';
+import type { AnalysisResult, SerializedAnalysisResult } from '@/app/lib/analyze';
+import { createAnalysisResult, createCluster, createFundingEdge } from '../helpers/analysis';
+
+const BINANCE = '2ojv9BAiHUrvsm9gxDe7fJSzbNZSJcxZvf8dqmWGHG8S';
+
+/**
+ * 构造评分输入（关联地址使用 Map）
+ */
+function createResult(
+    holders: Record<string, number>,
+    overrides: Partial<SerializedAnalysisResult> = {}
+): AnalysisResult {
+    const result = createAnalysisResult(holders, overrides);
+    return { ...result, relatedAddresses: new Map(Object.entries(result.relatedAddresses)) };
+}
+
+/**
+ * 构造权重：只有持仓集中度计分，便于验证分数与等级
+ */
+function concentrationOnly(points: number): RiskWeights {
+    return {
+        holder: { isNew: 0, sharedFunder: 0, clusterMember: 0, freshWalletFunded: 0, cexFunded: 0, concentration: points },
+        token: { topHolderConcentration: 0, clusteredSupply: 0, sharedFunderSupply: 0, newWalletSupply: 0 },
+        thresholds: { ...DEFAULT_RISK_WEIGHTS.thresholds, holderConcentration: 0.1 }
+    };
+}
+
+/**
+ * 只有持有者自身的转入交易
+ */
+function fundedBy(address: string, funder: string) {
+    return {
+        incomingAddresses: [funder],
+        outgoingAddresses: [],
+        totalInAmount: 10,
+        totalOutAmount: 0,
+        transactions: [createFundingEdge(funder, address)]
+    };
+}
+
+describe('scoreAnalysis', () => {
+    it('scores an empty result as low risk with no factors', () => {
+        const report = scoreAnalysis(createResult({}));
+
+        expect(report.holders).toEqual({});
+        expect(report.token).toEqual({ score: 0, level: 'low', factors: [] });
+    });
+
+    it('scales holder concentration up to the threshold', () => {
+        const weights = concentrationOnly(20);
+        const report = scoreAnalysis(createResult({ a: 0.05, b: 0.1, c: 0.5 }), weights);
+
+        expect(report.holders.a.score).toBe(10);
+        expect(report.holders.b.score).toBe(20);
+        expect(report.holders.c.score).toBe(20);
+        expect(report.holders.a.factors).toEqual([
+            { signal: 'concentration', points: 10, description: 'Holds 5.00% of supply' }
+        ]);
+    });
+
+    it('assigns levels at the configured boundaries', () => {
+        const { mediumLevel, highLevel } = DEFAULT_RISK_WEIGHTS.thresholds;
+        const levelFor = (points: number) =>
+            scoreAnalysis(createResult({ a: 0.1 }), concentrationOnly(points)).holders.a.level;
+
+        expect(levelFor(mediumLevel - 1)).toBe('low');
+        expect(levelFor(mediumLevel)).toBe('medium');
+        expect(levelFor(highLevel - 1)).toBe('medium');
+        expect(levelFor(highLevel)).toBe('high');
+    });
+
+    it('keeps scores between 0 and 100', () => {
+        expect(scoreAnalysis(createResult({ a: 0.1 }), concentrationOnly(150)).holders.a.score).toBe(100);
+
+        const weights: RiskWeights = {
+            ...concentrationOnly(0),
+            holder: { ...concentrationOnly(0).holder, cexFunded: -10 }
+        };
+        const report = scoreAnalysis(createResult({ a: 0.1 }, { relatedAddresses: { a: fundedBy('a', BINANCE) } }), weights);
+        expect(report.holders.a.score).toBe(0);
+        expect(report.holders.a.factors.map(factor => factor.signal)).toEqual(['cexFunded']);
+    });
+
+    it('counts new wallets only when the holder source reports them', () => {
+        const holders = { a: 0.01 };
+        const withFlag = (isNew: boolean) => createAnalysisResult(holders).topHolders.map(holder => ({ ...holder, is_new: isNew }));
+
+        const unsupported = scoreAnalysis(createResult(holders, { topHolders: withFlag(true) }));
+        expect(unsupported.holders.a.factors.map(factor => factor.signal)).not.toContain('isNew');
+
+        const supported = scoreAnalysis(createResult(holders, {
+            topHolders: withFlag(true),
+            holderSourceCapabilities: { sns: true, isNew: true, tags: true }
+        }));
+        expect(supported.holders.a.factors.map(factor => factor.signal)).toContain('isNew');
+        expect(supported.token.factors.map(factor => factor.signal)).toContain('newWalletSupply');
+    });
+
+    it('distinguishes exchange funding from fresh wallet funding', () => {
+        const report = scoreAnalysis(createResult({ a: 0.01, b: 0.01 }, {
+            relatedAddresses: { a: fundedBy('a', BINANCE), b: fundedBy('b', 'fresh') }
+        }));
+
+        expect(report.holders.a.factors.map(factor => factor.signal)).toContain('cexFunded');
+        expect(report.holders.b.factors.map(factor => factor.signal)).toContain('freshWalletFunded');
+    });
+
+    it('adds cluster and shared funder signals to holders and the token', () => {
+        const report = scoreAnalysis(createResult({ a: 0.15, b: 0.1, c: 0.01 }, {
+            clusters: [createCluster(['a', 'b'], 0.25)],
+            commonFunders: [{
+                funder: 'funder',
+                holders: [
+                    { address: 'a', amounts: { SOL: 10 }, firstFundedAt: 0, lastFundedAt: 0 },
+                    { address: 'b', amounts: { SOL: 10 }, firstFundedAt: 0, lastFundedAt: 0 }
+                ],
+                totalAmounts: { SOL: 20 },
+                firstFundedAt: 0,
+                lastFundedAt: 0,
+                timeSpread: 0,
+                totalPct: 0.25
+            }]
+        }));
+
+        const signals = (address: string) => report.holders[address].factors.map(factor => factor.signal);
+        expect(signals('a')).toEqual(expect.arrayContaining(['sharedFunder', 'clusterMember']));
+        expect(signals('c')).not.toContain('clusterMember');
+
+        // 群组与共同资金来源各控制 25%，超过 20% 的阈值得满分
+        const tokenPoints = Object.fromEntries(report.token.factors.map(factor => [factor.signal, factor.points]));
+        expect(tokenPoints.clusteredSupply).toBe(DEFAULT_RISK_WEIGHTS.token.clusteredSupply);
+        expect(tokenPoints.sharedFunderSupply).toBe(DEFAULT_RISK_WEIGHTS.token.sharedFunderSupply);
+    });
+
+    it('orders factors by their absolute contribution', () => {
+        const report = scoreAnalysis(createResult({ a: 0.01 }, { relatedAddresses: { a: fundedBy('a', BINANCE) } }));
+
+        const points = report.holders.a.factors.map(factor => Math.abs(factor.points));
+        expect(points).toEqual([...points].sort((x, y) => y - x));
+    });
+});
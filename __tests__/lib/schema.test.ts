@@ -0,0 +1,98 @@
+/**
+ * schema.test.ts
+ * 测试上游数据结构校验及其错误信息
+ */
+
+import { ProviderError } from '@/app/lib/errors';
+import { expectArrayOf, expectObject } from '@/app/lib/schema';
+import type { ObjectSchema } from '@/app/lib/schema';
+
+const ctx = { provider: 'solscan', endpoint: '/token/holders' };
+
+/**
+ * 执行校验并返回抛出的错误
+ */
+function catchError(fn: () => unknown): ProviderError {
+    try {
+        fn();
+    } catch (error) {
+        expect(error).toBeInstanceOf(ProviderError);
+        return error as ProviderError;
+    }
+    throw new Error('Expected a ProviderError to be thrown');
+}
+
+describe('expectObject', () => {
+    const schema: ObjectSchema = {
+        owner: 'string',
+        amount: 'numeric',
+        decimals: 'number',
+        tags: { type: 'string[]', optional: true },
+        label: { type: 'string', nullable: true }
+    };
+
+    it('returns the value when every declared field matches', () => {
+        const value = { owner: 'abc', amount: '1500.5', decimals: 6, label: null, extra: true };
+        expect(expectObject(value, schema, ctx)).toBe(value);
+    });
+
+    it('accepts numbers and numeric strings but rejects blank or non-finite strings', () => {
+        expect(() => expectObject({ owner: 'a', amount: 10, decimals: 6, label: 'x' }, schema, ctx)).not.toThrow();
+        expect(() => expectObject({ owner: 'a', amount: ' ', decimals: 6, label: 'x' }, schema, ctx)).toThrow(ProviderError);
+        expect(() => expectObject({ owner: 'a', amount: 'Infinity', decimals: 6, label: 'x' }, schema, ctx)).toThrow(ProviderError);
+        expect(() => expectObject({ owner: 'a', amount: '1', decimals: NaN, label: 'x' }, schema, ctx)).toThrow(ProviderError);
+    });
+
+    it('allows optional fields to be missing but not null', () => {
+        expect(() => expectObject({ owner: 'a', amount: 1, decimals: 6, label: 'x' }, schema, ctx)).not.toThrow();
+
+        const error = catchError(() => expectObject({ owner: 'a', amount: 1, decimals: 6, label: 'x', tags: null }, schema, ctx));
+        expect(error.field).toBe('tags');
+    });
+
+    it('allows nullable fields to be null but not missing', () => {
+        const error = catchError(() => expectObject({ owner: 'a', amount: 1, decimals: 6 }, schema, ctx));
+        expect(error.message).toBe('solscan /token/holders: expected label to be string, got undefined');
+    });
+
+    it('reports the provider, endpoint and nested field path', () => {
+        const error = catchError(() => expectObject({ owner: 42 }, schema, ctx, 'data.items'));
+
+        expect(error.toDetails()).toEqual({ provider: 'solscan', endpoint: '/token/holders', field: 'data.items.owner' });
+        expect(error.message).toBe('solscan /token/holders: expected data.items.owner to be string, got number');
+    });
+
+    it('rejects values that are not plain objects', () => {
+        expect(catchError(() => expectObject(null, schema, ctx)).message)
+            .toBe('solscan /token/holders: expected response to be an object, got null');
+
+        const error = catchError(() => expectObject([], schema, ctx, 'data'));
+        expect(error.field).toBe('data');
+        expect(error.message).toBe('solscan /token/holders: expected data to be an object, got array');
+    });
+});
+
+describe('expectArrayOf', () => {
+    const itemSchema: ObjectSchema = { address: 'string', amount_percentage: 'number' };
+
+    it('validates every item and returns the array', () => {
+        const value = [{ address: 'a', amount_percentage: 1.5 }, { address: 'b', amount_percentage: 0 }];
+        expect(expectArrayOf(value, itemSchema, ctx, 'data')).toEqual(value);
+        expect(expectArrayOf([], itemSchema, ctx, 'data')).toEqual([]);
+    });
+
+    it('points at the index of the first invalid item', () => {
+        const value = [{ address: 'a', amount_percentage: 1 }, { address: 'b', amount_percentage: '2' }];
+        const error = catchError(() => expectArrayOf(value, itemSchema, ctx, 'data'));
+
+        expect(error.field).toBe('data[1].amount_percentage');
+        expect(error.message).toBe('solscan /token/holders: expected data[1].amount_percentage to be number, got string');
+    });
+
+    it('rejects values that are not arrays', () => {
+        const error = catchError(() => expectArrayOf({ items: [] }, itemSchema, ctx, 'data'));
+
+        expect(error.field).toBe('data');
+        expect(error.message).toBe('solscan /token/holders: expected data to be array, got object');
+    });
+});
@@ -0,0 +1,171 @@
+/**
+ * snapshots.test.ts
+ * 测试快照存储（内存、文件），以及快照对比：持有者进出、持仓变化、新增资金转入、群组变化与参数差异
+ */
+
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { diffSnapshots, MemorySnapshotStore, FileSnapshotStore } from '@/app/lib/snapshots';
+import type { SnapshotStore } from '@/app/lib/snapshots';
+import { DEFAULT_ANALYSIS_PARAMETERS } from '@/app/lib/validation';
+import { TOKEN, createAnalysisResult, createCluster, createFundingEdge, createSnapshot } from '../helpers/analysis';
+import type { TransactionData } from '@/app/lib/analyze';
+
+/**
+ * 构造只包含资金转入交易的关联地址
+ */
+function funded(transactions: TransactionData[]) {
+    return {
+        incomingAddresses: transactions.map(tx => tx.from),
+        outgoingAddresses: [],
+        totalInAmount: transactions.reduce((sum, tx) => sum + tx.amount, 0),
+        totalOutAmount: 0,
+        transactions
+    };
+}
+
+/**
+ * 两种存储共用的接口行为
+ */
+function describeSnapshotStore(name: string, createStore: () => SnapshotStore) {
+    describe(name, () => {
+        it('saves snapshots per token and lists only their summaries', async () => {
+            const store = createStore();
+            const snapshot = createSnapshot('1700000000000-0a1b2c3d', createAnalysisResult({ a: 0.2 }));
+            await store.save(snapshot);
+            await store.save({ ...snapshot, id: '1700000000001-0a1b2c3d', tokenAddress: 'other-token' });
+
+            const summaries = await store.list(TOKEN);
+            expect(summaries).toHaveLength(1);
+            expect(summaries[0]).toMatchObject({ id: snapshot.id, tokenAddress: TOKEN });
+            expect(summaries[0]).not.toHaveProperty('result');
+            expect(await store.get(TOKEN, snapshot.id)).toEqual(snapshot);
+        });
+
+        it('returns nothing for unknown tokens and snapshots', async () => {
+            const store = createStore();
+
+            expect(await store.list(TOKEN)).toEqual([]);
+            expect(await store.get(TOKEN, 'missing')).toBeNull();
+        });
+    });
+}
+
+describeSnapshotStore('MemorySnapshotStore', () => new MemorySnapshotStore());
+
+describe('FileSnapshotStore', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'snapshots-'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    describeSnapshotStore('interface', () => new FileSnapshotStore(dir));
+
+    it('stores a result file and a summary file per snapshot in the token directory', async () => {
+        const snapshot = createSnapshot('1700000000000-0a1b2c3d', createAnalysisResult({ a: 0.2 }));
+        await new FileSnapshotStore(dir).save(snapshot);
+
+        expect((await fs.readdir(path.join(dir, TOKEN))).sort()).toEqual([
+            '1700000000000-0a1b2c3d.json',
+            '1700000000000-0a1b2c3d.summary.json'
+        ]);
+        expect(await new FileSnapshotStore(dir).get(TOKEN, snapshot.id)).toEqual(snapshot);
+    });
+});
+
+describe('diffSnapshots', () => {
+    it('lists holders that entered or exited the top holders', () => {
+        const from = createSnapshot('s1', createAnalysisResult({ a: 0.2, b: 0.1 }));
+        const to = createSnapshot('s2', createAnalysisResult({ a: 0.2, c: 0.05 }));
+
+        const diff = diffSnapshots(from, to);
+
+        expect(diff.entered).toEqual([{ address: 'c', pct: 0.05 }]);
+        expect(diff.exited).toEqual([{ address: 'b', pct: 0.1 }]);
+        expect(diff.from.id).toBe('s1');
+        expect(diff.to.id).toBe('s2');
+        expect(diff.from).not.toHaveProperty('result');
+    });
+
+    it('sorts holding changes by magnitude and skips unchanged holders', () => {
+        const from = createSnapshot('s1', createAnalysisResult({ a: 0.2, b: 0.1, c: 0.05 }));
+        const to = createSnapshot('s2', createAnalysisResult({ a: 0.19, b: 0.15, c: 0.05 }));
+
+        const diff = diffSnapshots(from, to);
+
+        expect(diff.pctChanges.map(change => change.address)).toEqual(['b', 'a']);
+        expect(diff.pctChanges[0]).toMatchObject({ previousPct: 0.1, currentPct: 0.15 });
+        expect(diff.pctChanges[0].change).toBeCloseTo(0.05);
+        expect(diff.pctChanges[1].change).toBeCloseTo(-0.01);
+    });
+
+    it('returns only funding edges that are new, newest first', () => {
+        const known = createFundingEdge('funder', 'a', 1700000000);
+        const from = createSnapshot('s1', createAnalysisResult({ a: 0.2 }, {
+            relatedAddresses: { a: funded([known]) }
+        }));
+        const to = createSnapshot('s2', createAnalysisResult({ a: 0.2, b: 0.1 }, {
+            relatedAddresses: {
+                a: funded([known, createFundingEdge('funder', 'a', 1700000100)]),
+                b: funded([createFundingEdge('other', 'b', 1700000200)])
+            }
+        }));
+
+        const diff = diffSnapshots(from, to);
+
+        expect(diff.newFundingEdges.map(tx => `${tx.from}->${tx.to}@${tx.timestamp}`)).toEqual([
+            'other->b@1700000200',
+            'funder->a@1700000100'
+        ]);
+    });
+
+    it('matches clusters by member overlap', () => {
+        const from = createSnapshot('s1', createAnalysisResult({ a: 0.1, b: 0.1, c: 0.1, x: 0.1, y: 0.1 }, {
+            clusters: [createCluster(['a', 'b'], 0.2), createCluster(['x', 'y'], 0.2)]
+        }));
+        const to = createSnapshot('s2', createAnalysisResult({ a: 0.1, b: 0.1, c: 0.1, m: 0.1, n: 0.1 }, {
+            clusters: [createCluster(['a', 'b', 'c'], 0.3), createCluster(['m', 'n'], 0.2)]
+        }));
+
+        const diff = diffSnapshots(from, to);
+
+        expect(diff.clusterChanges).toEqual([
+            expect.objectContaining({ status: 'grown', previousId: 'cluster-a-b', added: ['c'], removed: [] }),
+            expect.objectContaining({ status: 'new', previousId: null, added: ['m', 'n'], currentPct: 0.2 }),
+            expect.objectContaining({ status: 'dissolved', currentId: null, removed: ['x', 'y'], previousPct: 0.2 })
+        ]);
+    });
+
+    it('reports no changes for identical snapshots', () => {
+        const result = createAnalysisResult({ a: 0.2, b: 0.1 }, { clusters: [createCluster(['a', 'b'], 0.3)] });
+
+        const diff = diffSnapshots(createSnapshot('s1', result), createSnapshot('s2', result));
+
+        expect(diff).toMatchObject({
+            entered: [],
+            exited: [],
+            pctChanges: [],
+            newFundingEdges: [],
+            clusterChanges: [],
+            parameterMismatches: []
+        });
+    });
+
+    it('lists analysis parameters that differ between the snapshots', () => {
+        const from = createSnapshot('s1', createAnalysisResult({ a: 0.2 }));
+        const to = createSnapshot('s2', createAnalysisResult({ a: 0.2 }, {
+            parameters: { ...DEFAULT_ANALYSIS_PARAMETERS, topN: 50, minAmount: 1 }
+        }));
+
+        expect(diffSnapshots(from, to).parameterMismatches).toEqual([
+            { parameter: 'topN', from: 20, to: 50 },
+            { parameter: 'minAmount', from: 5, to: 1 }
+        ]);
+    });
+});
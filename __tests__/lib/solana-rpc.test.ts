@@ -0,0 +1,153 @@
+/**
+ * solana-rpc.test.ts
+ * 通过本地 JSON-RPC 服务测试 RPC 持有者数据源
+ */
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { createSolanaRpcHolderSource } from '@/app/lib/solana-rpc';
+import { ProviderError, ProviderInputError } from '@/app/lib/errors';
+
+type RpcHandler = (method: string, params: unknown[]) => { status?: number; body: unknown };
+
+const MINT = 'So11111111111111111111111111111111111111112';
+
+const tokenAmount = (amount: string) => ({ amount, decimals: 6, uiAmount: Number(amount) / 1e6, uiAmountString: '' });
+
+const parsedAccount = (owner: string) => ({
+    data: {
+        program: 'spl-token',
+        parsed: { type: 'account', info: { mint: MINT, owner, tokenAmount: tokenAmount('0') } }
+    }
+});
+
+// 三个代币账户，其中两个属于同一所有者
+const DEFAULT_RESULTS: Record<string, unknown> = {
+    getTokenLargestAccounts: {
+        context: { slot: 1 },
+        value: [
+            { address: 'account-1', ...tokenAmount('500') },
+            { address: 'account-2', ...tokenAmount('300') },
+            { address: 'account-3', ...tokenAmount('200') },
+            { address: 'account-4', ...tokenAmount('0') }
+        ]
+    },
+    getTokenSupply: { context: { slot: 1 }, value: tokenAmount('1000') },
+    getMultipleAccounts: {
+        context: { slot: 1 },
+        value: [parsedAccount('owner-a'), parsedAccount('owner-b'), parsedAccount('owner-a')]
+    }
+};
+
+const defaultHandler: RpcHandler = method => ({
+    body: { jsonrpc: '2.0', id: 1, result: DEFAULT_RESULTS[method] }
+});
+
+describe('Solana RPC holder source', () => {
+    let server: http.Server;
+    let rpcUrl: string;
+    let handler: RpcHandler;
+    // 收到的请求：方法名与第一个参数，用例之间可能有上一个用例未完成的请求，按参数区分
+    let calls: { method: string; target: unknown }[];
+
+    beforeAll(async () => {
+        // 令牌桶在首次调用时按环境变量创建，放宽限流避免用例等待令牌
+        process.env.RPC_RATE_LIMIT = '1000';
+        process.env.RPC_RATE_BURST = '1000';
+
+        server = http.createServer((req, res) => {
+            let raw = '';
+            req.on('data', chunk => { raw += chunk; });
+            req.on('end', () => {
+                const { method, params } = JSON.parse(raw);
+                calls.push({ method, target: params[0] });
+                const { status = 200, body } = handler(method, params);
+                res.writeHead(status, { 'Content-Type': 'application/json', 'Retry-After': '0' });
+                res.end(JSON.stringify(body));
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        rpcUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(() => {
+        handler = defaultHandler;
+        calls = [];
+    });
+
+    it('merges token accounts by owner and computes the share of supply', async () => {
+        const holders = await createSolanaRpcHolderSource(rpcUrl).fetchTokenHolders(MINT);
+
+        expect(holders).toEqual([
+            { holder_address: 'owner-a', holder_sns: null, holder_pct_of_supply: '0.7', is_new: false },
+            { holder_address: 'owner-b', holder_sns: null, holder_pct_of_supply: '0.3', is_new: false }
+        ]);
+    });
+
+    it('applies the limit after merging', async () => {
+        const holders = await createSolanaRpcHolderSource(rpcUrl).fetchTokenHolders(MINT, 1);
+
+        expect(holders.map(holder => holder.holder_address)).toEqual(['owner-a']);
+    });
+
+    it('skips accounts whose owner cannot be resolved', async () => {
+        handler = method => method === 'getMultipleAccounts'
+            ? {
+                body: {
+                    jsonrpc: '2.0',
+                    id: 1,
+                    result: { context: { slot: 1 }, value: [parsedAccount('owner-a'), null, { data: ['', 'base64'] }] }
+                }
+            }
+            : defaultHandler(method, []);
+
+        const holders = await createSolanaRpcHolderSource(rpcUrl).fetchTokenHolders(MINT);
+
+        expect(holders.map(holder => holder.holder_address)).toEqual(['owner-a']);
+    });
+
+    it('rejects a payload with an unexpected shape, naming the field', async () => {
+        handler = method => method === 'getTokenLargestAccounts'
+            ? { body: { jsonrpc: '2.0', id: 1, result: { context: { slot: 1 }, value: [{ address: 'account-1' }] } } }
+            : defaultHandler(method, []);
+
+        const error = await createSolanaRpcHolderSource(rpcUrl).fetchTokenHolders(MINT).catch(err => err);
+
+        expect(error).toBeInstanceOf(ProviderError);
+        expect(error.toDetails()).toEqual({
+            provider: 'rpc',
+            endpoint: 'getTokenLargestAccounts',
+            field: 'result.value[0].amount'
+        });
+    });
+
+    it('maps an invalid params error to ProviderInputError', async () => {
+        handler = () => ({
+            body: { jsonrpc: '2.0', id: 1, error: { code: -32602, message: 'Invalid param: not a Token mint' } }
+        });
+
+        await expect(createSolanaRpcHolderSource(rpcUrl).fetchTokenHolders(MINT))
+            .rejects.toBeInstanceOf(ProviderInputError);
+    });
+
+    it('retries HTTP 5xx responses', async () => {
+        const mint = 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB';
+        let failures = 1;
+        handler = (method, params) => {
+            if (method === 'getTokenSupply' && params[0] === mint && failures > 0) {
+                failures--;
+                return { status: 503, body: {} };
+            }
+            return defaultHandler(method, []);
+        };
+
+        const holders = await createSolanaRpcHolderSource(rpcUrl).fetchTokenHolders(mint);
+
+        expect(holders).toHaveLength(2);
+        expect(calls.filter(call => call.method === 'getTokenSupply' && call.target === mint)).toHaveLength(2);
+    });
+});
@@ -0,0 +1,143 @@
+/**
+ * solscan.test.ts
+ * 通过本地 Solscan 服务测试被分析代币的转账追踪与交易所处理方式
+ */
+
+import { createTransfer, startSolscanStub } from '../helpers/solscan';
+import { TOKEN } from '../helpers/analysis';
+
+type SolscanStub = Awaited<ReturnType<typeof startSolscanStub>>;
+
+// 按地址与方向返回的转账记录
+type TransferFixtures = Record<string, { in?: unknown[]; out?: unknown[] }>;
+
+const BINANCE = '2ojv9BAiHUrvsm9gxDe7fJSzbNZSJcxZvf8dqmWGHG8S';
+const BINANCE_HOT_WALLET = '5tzFkiKscXHK5ZXCGbXZxdw7gTjjD1mBwuoFbhUvuAi9';
+
+let stub: SolscanStub;
+
+beforeAll(async () => {
+    stub = await startSolscanStub();
+});
+
+afterAll(async () => {
+    await stub.close();
+});
+
+beforeEach(() => {
+    stub.requests.length = 0;
+});
+
+/**
+ * 按地址与方向返回转账记录，未列出的查询返回空结果
+ */
+function serveTransfers(fixtures: TransferFixtures) {
+    stub.setHandler(query => {
+        const flow = query.get('flow') as 'in' | 'out';
+        return { body: { success: true, data: fixtures[query.get('address') ?? '']?.[flow] ?? [] } };
+    });
+}
+
+/**
+ * 将交易图展开为 from->to:amount 形式，便于比较
+ */
+function edgesOf(graph: Map<string, { to: string; amount: number }[]>) {
+    return [...graph].flatMap(([from, edges]) => edges.map(edge => `${from}->${edge.to}:${edge.amount}`));
+}
+
+describe('getTokenFlows', () => {
+    it('queries token transfers in both directions for every holder', async () => {
+        serveTransfers({});
+
+        await stub.solscan.getTokenFlows(['a', 'b'], TOKEN);
+
+        expect(stub.requests.map(query => `${query.get('address')} ${query.get('flow')}`).sort())
+            .toEqual(['a in', 'a out', 'b in', 'b out']);
+        for (const query of stub.requests) {
+            expect(query.get('token')).toBe(TOKEN);
+            expect(query.get('activity_type[]')).toBe('ACTIVITY_SPL_TRANSFER');
+            expect(query.get('amount[]')).toBe('0');
+        }
+    });
+
+    it('merges transfers into token edges, once per transfer', async () => {
+        const shared = { ...createTransfer('a', 'b', 500), token_decimals: 2 };
+        serveTransfers({
+            a: { out: [shared, createTransfer('a', 'a', 1)] },
+            b: { in: [shared], out: [createTransfer('b', 'c', 7, 1700000100)] }
+        });
+
+        const { graph, failures } = await stub.solscan.getTokenFlows(['a', 'b'], TOKEN);
+
+        expect(edgesOf(graph).sort()).toEqual(['a->b:5', 'b->c:7']);
+        expect(graph.get('a')?.[0]).toMatchObject({ type: 'token', asset: 'TOKEN', timestamp: 1700000000 });
+        expect(failures.size).toBe(0);
+    });
+
+    it('records failed lookups per holder and keeps the other holders', async () => {
+        stub.setHandler(query => query.get('address') === 'a'
+            ? { status: 400, body: { success: false } }
+            : { body: { success: true, data: [createTransfer('b', 'c', 7)] } });
+
+        const { graph, failures } = await stub.solscan.getTokenFlows(['a', 'b'], TOKEN);
+
+        expect(edgesOf(graph)).toEqual(['b->c:7']);
+        expect([...failures.keys()]).toEqual(['a']);
+        expect(failures.get('a')).toEqual({
+            reason: expect.stringMatching(/^Token (in|out) transfers failed: Solscan rejected the request for a/),
+            failedLookups: 2
+        });
+    });
+
+    it('records holders skipped once the call budget is exhausted', async () => {
+        serveTransfers({});
+        const options = { ...stub.solscan.getDefaultTraversalOptions(), callBudget: 2, concurrency: 1 };
+
+        const { failures } = await stub.solscan.getTokenFlows(['a', 'b'], TOKEN, stub.solscan.createSolscanStats(), options);
+
+        expect(stub.requests).toHaveLength(2);
+        expect(Object.fromEntries(failures)).toEqual({
+            b: { reason: 'API call budget exhausted before token flow tracing', failedLookups: 0 }
+        });
+    });
+});
+
+describe('exchange handling', () => {
+    // 持有者 a 从币安充值地址收到代币，b 转入另一个币安地址
+    const fixtures: TransferFixtures = {
+        a: { in: [createTransfer(BINANCE, 'a', 10)], out: [createTransfer('a', 'b', 5)] },
+        b: { out: [createTransfer('b', BINANCE_HOT_WALLET, 3)] }
+    };
+
+    /**
+     * 按指定的交易所处理方式追踪代币转账
+     */
+    async function traceWith(exchangeMode: 'exclude' | 'collapse' | 'keep') {
+        serveTransfers(fixtures);
+        const stats = stub.solscan.createSolscanStats();
+        const options = { ...stub.solscan.getDefaultTraversalOptions(), exchangeMode };
+        const { graph } = await stub.solscan.getTokenFlows(['a', 'b'], TOKEN, stats, options);
+        return { edges: edgesOf(graph).sort(), stats };
+    }
+
+    it('removes exchange transfers in exclude mode and counts them', async () => {
+        const { edges, stats } = await traceWith('exclude');
+
+        expect(edges).toEqual(['a->b:5']);
+        expect(stats).toMatchObject({ exchangeEdgesRemoved: 2, exchangeEdgesCollapsed: 0 });
+    });
+
+    it('merges addresses of the same exchange into one node in collapse mode', async () => {
+        const { edges, stats } = await traceWith('collapse');
+
+        expect(edges).toEqual(['a->b:5', 'b->exchange:Binance:3', 'exchange:Binance->a:10']);
+        expect(stats).toMatchObject({ exchangeEdgesRemoved: 0, exchangeEdgesCollapsed: 2 });
+    });
+
+    it('keeps exchange addresses unchanged in keep mode', async () => {
+        const { edges, stats } = await traceWith('keep');
+
+        expect(edges).toEqual([`${BINANCE}->a:10`, 'a->b:5', `b->${BINANCE_HOT_WALLET}:3`].sort());
+        expect(stats).toMatchObject({ exchangeEdgesRemoved: 0, exchangeEdgesCollapsed: 0 });
+    });
+});
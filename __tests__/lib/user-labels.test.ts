@@ -0,0 +1,108 @@
+/**
+ * user-labels.test.ts
+ * 测试自定义标签与观察列表的增删改查（内存与文件存储），以及分析结果的标注收集
+ */
+
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+
+type UserLabelsModule = typeof import('@/app/lib/user-labels');
+
+/**
+ * 按存储配置重新加载模块，存储在加载时根据环境变量创建
+ */
+async function loadUserLabels(env: Record<string, string>): Promise<UserLabelsModule> {
+    Object.assign(process.env, env);
+    jest.resetModules();
+    return import('@/app/lib/user-labels');
+}
+
+/**
+ * 两种存储共用的行为
+ */
+function describeUserLabels(name: string, getEnv: () => Record<string, string>) {
+    describe(name, () => {
+        let labels: UserLabelsModule;
+
+        beforeEach(async () => {
+            labels = await loadUserLabels(getEnv());
+        });
+
+        it('creates, updates and deletes labels', async () => {
+            const created = await labels.setUserLabel('wallet-b', 'Dev wallet', 'Deployer');
+            expect(created).toMatchObject({ address: 'wallet-b', label: 'Dev wallet', note: 'Deployer' });
+            expect(await labels.getUserLabel('wallet-b')).toEqual(created);
+
+            const updated = await labels.setUserLabel('wallet-b', 'Rugger');
+            expect(updated).not.toHaveProperty('note');
+            expect(updated.createdAt).toBe(created.createdAt);
+
+            await labels.setUserLabel('wallet-a', 'KOL');
+            expect((await labels.listUserLabels()).map(label => label.address)).toEqual(['wallet-a', 'wallet-b']);
+
+            expect(await labels.deleteUserLabel('wallet-b')).toBe(true);
+            expect(await labels.deleteUserLabel('wallet-b')).toBe(false);
+            expect(await labels.getUserLabel('wallet-b')).toBeNull();
+        });
+
+        it('creates, updates and deletes watchlists', async () => {
+            const created = await labels.createWatchlist('Snipers', ['a', 'b', 'a']);
+            expect(created.addresses).toEqual(['a', 'b']);
+
+            const renamed = await labels.updateWatchlist(created.id, { name: 'Bundlers' });
+            expect(renamed).toMatchObject({ id: created.id, name: 'Bundlers', addresses: ['a', 'b'] });
+
+            const moved = await labels.updateWatchlist(created.id, { addresses: ['c', 'c'] });
+            expect(moved).toMatchObject({ name: 'Bundlers', addresses: ['c'] });
+            expect(await labels.getWatchlist(created.id)).toEqual(moved);
+
+            await labels.createWatchlist('Alpha', []);
+            expect((await labels.listWatchlists()).map(watchlist => watchlist.name)).toEqual(['Alpha', 'Bundlers']);
+
+            expect(await labels.deleteWatchlist(created.id)).toBe(true);
+            expect(await labels.updateWatchlist(created.id, { name: 'Gone' })).toBeNull();
+            expect(await labels.getWatchlist(created.id)).toBeNull();
+        });
+
+        it('collects labels and watchlists for the given addresses only', async () => {
+            await labels.setUserLabel('holder', 'Dev wallet');
+            await labels.setUserLabel('outsider', 'KOL');
+            await labels.createWatchlist('Snipers', ['holder', 'funder']);
+            await labels.createWatchlist('Bundlers', ['funder']);
+
+            const annotations = await labels.collectUserAnnotations(['holder', 'funder', 'unknown']);
+
+            expect(Object.keys(annotations.labels)).toEqual(['holder']);
+            expect(annotations.labels.holder.label).toBe('Dev wallet');
+            expect(annotations.watchlists).toEqual({
+                holder: ['Snipers'],
+                funder: ['Bundlers', 'Snipers']
+            });
+        });
+    });
+}
+
+describeUserLabels('memory store', () => ({ LABEL_STORE: 'memory' }));
+
+describe('file store', () => {
+    let root: string;
+
+    beforeEach(async () => {
+        root = await fs.mkdtemp(path.join(os.tmpdir(), 'labels-'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(root, { recursive: true, force: true });
+    });
+
+    describeUserLabels('interface', () => ({ LABEL_STORE: 'file', LABEL_STORE_DIR: root }));
+
+    it('keeps labels after the module is reloaded', async () => {
+        const env = { LABEL_STORE: 'file', LABEL_STORE_DIR: root };
+        await (await loadUserLabels(env)).setUserLabel('wallet', 'Dev wallet');
+
+        expect(await (await loadUserLabels(env)).getUserLabel('wallet')).toMatchObject({ label: 'Dev wallet' });
+        expect(await fs.readdir(path.join(root, 'labels'))).toEqual(['wallet.json']);
+    });
+});
@@ -0,0 +1,121 @@
+/**
+ * validation.test.ts
+ * 测试分析参数校验：默认值、取值范围、旧参数兼容与查询参数转换
+ */
+
+import {
+    isValidSolanaAddress,
+    validateAnalysisParameters,
+    validateRelationQuery,
+    DEFAULT_ANALYSIS_PARAMETERS,
+    PARAMETER_LIMITS
+} from '@/app/lib/validation';
+import { TOKEN } from '../helpers/analysis';
+
+/**
+ * 返回校验失败的错误信息，校验通过时为 null
+ */
+function errorOf(input: unknown): string | null {
+    const validation = validateAnalysisParameters(input);
+    return validation.ok ? null : validation.error;
+}
+
+describe('isValidSolanaAddress', () => {
+    it('accepts base58 addresses of 32 to 44 characters', () => {
+        expect(isValidSolanaAddress(TOKEN)).toBe(true);
+        expect(isValidSolanaAddress('1'.repeat(32))).toBe(true);
+    });
+
+    it('rejects other lengths, non-base58 characters and path segments', () => {
+        expect(isValidSolanaAddress('')).toBe(false);
+        expect(isValidSolanaAddress('1'.repeat(31))).toBe(false);
+        expect(isValidSolanaAddress('1'.repeat(45))).toBe(false);
+        expect(isValidSolanaAddress(`${TOKEN.slice(0, -1)}0`)).toBe(false);
+        expect(isValidSolanaAddress(`${TOKEN.slice(0, -1)}O`)).toBe(false);
+        expect(isValidSolanaAddress(`../${TOKEN}`)).toBe(false);
+    });
+});
+
+describe('validateAnalysisParameters', () => {
+    it('uses the defaults when parameters are missing', () => {
+        expect(validateAnalysisParameters(undefined)).toEqual({ ok: true, value: DEFAULT_ANALYSIS_PARAMETERS });
+        expect(validateAnalysisParameters(null)).toEqual({ ok: true, value: DEFAULT_ANALYSIS_PARAMETERS });
+        expect(validateAnalysisParameters({ topN: 50 })).toEqual({
+            ok: true,
+            value: { ...DEFAULT_ANALYSIS_PARAMETERS, topN: 50 }
+        });
+    });
+
+    it('drops unknown fields', () => {
+        const validation = validateAnalysisParameters({ topN: 10, callBudget: 1_000_000 });
+
+        expect(validation.ok && validation.value).not.toHaveProperty('callBudget');
+    });
+
+    it('rejects parameters that are not an object', () => {
+        expect(errorOf([])).toBe('parameters must be an object');
+        expect(errorOf('topN=10')).toBe('parameters must be an object');
+    });
+
+    it('accepts values at the limits and rejects values beyond them', () => {
+        const { topN, maxDepth, minAmount } = PARAMETER_LIMITS;
+
+        expect(errorOf({ topN: topN.min, maxDepth: maxDepth.max, minAmount: minAmount.min })).toBeNull();
+        expect(errorOf({ topN: topN.max + 1 })).toBe(`topN must be between ${topN.min} and ${topN.max}`);
+        expect(errorOf({ maxDepth: maxDepth.min - 1 })).toBe(`maxDepth must be between ${maxDepth.min} and ${maxDepth.max}`);
+        expect(errorOf({ minAmount: -1 })).toBe(`minAmount must be between ${minAmount.min} and ${minAmount.max}`);
+    });
+
+    it('rejects non-numeric and fractional counts', () => {
+        expect(errorOf({ topN: '20' })).toBe('topN must be a number');
+        expect(errorOf({ topN: NaN })).toBe('topN must be a number');
+        expect(errorOf({ maxDepth: 1.5 })).toBe('maxDepth must be an integer');
+        expect(errorOf({ minAmount: 0.5 })).toBeNull();
+    });
+
+    it('rejects unknown directions, exchange modes and non-boolean flags', () => {
+        expect(errorOf({ direction: 'sideways' })).toBe('direction must be one of in, out, both');
+        expect(errorOf({ exchangeMode: 'drop' })).toBe('exchangeMode must be one of exclude, collapse, keep');
+        expect(errorOf({ traceTokenFlow: 'yes' })).toBe('traceTokenFlow must be a boolean');
+    });
+
+    it('maps the legacy excludeExchanges flag unless exchangeMode is given', () => {
+        const modeOf = (input: object) => {
+            const validation = validateAnalysisParameters(input);
+            return validation.ok ? validation.value.exchangeMode : null;
+        };
+
+        expect(modeOf({ excludeExchanges: true })).toBe('exclude');
+        expect(modeOf({ excludeExchanges: false })).toBe('keep');
+        expect(modeOf({ excludeExchanges: true, exchangeMode: 'collapse' })).toBe('collapse');
+    });
+});
+
+describe('validateRelationQuery', () => {
+    it('uses the defaults for missing query parameters', () => {
+        expect(validateRelationQuery(new URLSearchParams())).toEqual({
+            ok: true,
+            value: {
+                minAmount: DEFAULT_ANALYSIS_PARAMETERS.minAmount,
+                direction: DEFAULT_ANALYSIS_PARAMETERS.direction,
+                exchangeMode: DEFAULT_ANALYSIS_PARAMETERS.exchangeMode
+            }
+        });
+    });
+
+    it('converts query strings before validating them', () => {
+        expect(validateRelationQuery(new URLSearchParams('minAmount=0.5&direction=in&exchangeMode=keep'))).toEqual({
+            ok: true,
+            value: { minAmount: 0.5, direction: 'in', exchangeMode: 'keep' }
+        });
+    });
+
+    it('rejects empty and non-numeric amounts and unknown modes', () => {
+        expect(validateRelationQuery(new URLSearchParams('minAmount='))).toEqual({ ok: false, error: 'minAmount must be a number' });
+        expect(validateRelationQuery(new URLSearchParams('minAmount=abc'))).toEqual({ ok: false, error: 'minAmount must be a number' });
+        expect(validateRelationQuery(new URLSearchParams('direction=both&exchangeMode=hide'))).toEqual({
+            ok: false,
+            error: 'exchangeMode must be one of exclude, collapse, keep'
+        });
+    });
+});
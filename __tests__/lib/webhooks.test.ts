@@ -0,0 +1,89 @@
+/**
+ * webhooks.test.ts
+ * 通过本地接收服务测试 Webhook 推送与重试
+ */
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { deliverWebhook } from '@/app/lib/webhooks';
+
+describe('deliverWebhook', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    // 按顺序返回的状态码，用完后返回 200
+    let statuses: number[];
+    let bodies: unknown[];
+    let retryAfter: string;
+
+    beforeAll(async () => {
+        process.env.WEBHOOK_MAX_RETRIES = '2';
+        server = http.createServer((req, res) => {
+            let raw = '';
+            req.on('data', chunk => { raw += chunk; });
+            req.on('end', () => {
+                bodies.push(JSON.parse(raw));
+                res.writeHead(statuses.shift() ?? 200, { 'Retry-After': retryAfter });
+                res.end();
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        delete process.env.WEBHOOK_MAX_RETRIES;
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(() => {
+        statuses = [];
+        bodies = [];
+        retryAfter = '0';
+    });
+
+    it('posts the payload as JSON', async () => {
+        const delivery = await deliverWebhook(`${baseUrl}/hook`, { event: 'test' });
+
+        expect(delivery).toEqual({ url: `${baseUrl}/hook`, ok: true, status: 200, attempts: 1 });
+        expect(bodies).toEqual([{ event: 'test' }]);
+    });
+
+    it('retries HTTP 429 and 5xx responses', async () => {
+        statuses = [503, 429];
+
+        const delivery = await deliverWebhook(`${baseUrl}/hook`, { event: 'test' });
+
+        expect(delivery).toMatchObject({ ok: true, status: 200, attempts: 3 });
+        expect(bodies).toHaveLength(3);
+    });
+
+    it('accepts Retry-After as an HTTP date', async () => {
+        // 已过去的日期应立即重试，而不是按退避等待 1 秒
+        statuses = [503];
+        retryAfter = new Date(Date.now() - 60_000).toUTCString();
+        const startedAt = Date.now();
+
+        const delivery = await deliverWebhook(`${baseUrl}/hook`, { event: 'test' });
+
+        expect(delivery).toMatchObject({ ok: true, attempts: 2 });
+        expect(Date.now() - startedAt).toBeLessThan(900);
+    });
+
+    it('gives up after the configured number of retries', async () => {
+        statuses = [500, 500, 500, 500];
+
+        const delivery = await deliverWebhook(`${baseUrl}/hook`, { event: 'test' });
+
+        expect(delivery).toMatchObject({ ok: false, status: 500, attempts: 3, error: 'HTTP 500' });
+        expect(bodies).toHaveLength(3);
+    });
+
+    it('does not retry other 4xx responses', async () => {
+        statuses = [404];
+
+        const delivery = await deliverWebhook(`${baseUrl}/hook`, { event: 'test' });
+
+        expect(delivery).toMatchObject({ ok: false, status: 404, attempts: 1 });
+        expect(bodies).toHaveLength(1);
+    });
+});
@@ -0,0 +1,16 @@
+/**
+ * setup.ts
+ * 主要功能：测试环境变量
+ *
+ * 在加载被测模块之前设置：Solscan 客户端缺少密钥时会退出进程，
+ * 各存储使用内存实现，避免读取本地 .env 配置或写入 .data 目录
+ */
+
+process.env.SOLSCAN_API_KEY = 'test-key';
+process.env.SOLSCAN_API_URL = 'http://127.0.0.1:9/account/transfer';
+process.env.SOLSCAN_CACHE = 'none';
+process.env.JOB_STORE = 'memory';
+process.env.SNAPSHOT_STORE = 'memory';
+process.env.MONITOR_STORE = 'memory';
+process.env.LABEL_STORE = 'memory';
+process.env.MONITOR_TICK_SECONDS = '0';
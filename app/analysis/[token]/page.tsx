@@ -0,0 +1,72 @@
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import AnalysisView from '@/app/components/AnalysisView';
+import { findLatestSnapshot, getSnapshot } from '@/app/lib/snapshots';
+import { isValidSolanaAddress } from '@/app/lib/validation';
+import { buildAnalysisPath, isSameParameters, parseAnalysisSearchParams } from '@/app/lib/permalink';
+import type { SearchParams } from '@/app/lib/permalink';
+
+interface PageProps {
+  params: Promise<{ token: string }>;
+  searchParams: Promise<SearchParams>;
+}
+
+// 链接无效时的提示
+function InvalidLink({ message }: { message: string }) {
+  return (
+    <div className="bg-white shadow sm:rounded-lg">
+      <div className="px-4 py-5 sm:p-6 space-y-4">
+        <p className="text-sm text-red-700">{message}</p>
+        <Link href="/" className="text-sm text-blue-600 hover:underline">
+          Start a new analysis
+        </Link>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * 分析结果页面
+ *
+ * - 指定 snapshot 时展示该快照
+ * - 未指定时展示相同参数的最新快照，并跳转到带快照 ID 的固定链接
+ * - 没有可用快照时在浏览器端发起分析
+ */
+export default async function AnalysisPage({ params, searchParams }: PageProps) {
+  const { token } = await params;
+  const tokenAddress = decodeURIComponent(token);
+
+  if (!isValidSolanaAddress(tokenAddress)) {
+    return <InvalidLink message={`Invalid token address: ${tokenAddress}`} />;
+  }
+
+  const parsed = parseAnalysisSearchParams(await searchParams);
+  if (!parsed.ok) {
+    return <InvalidLink message={`Invalid analysis parameters: ${parsed.error}`} />;
+  }
+
+  const { parameters, snapshotId } = parsed.value;
+  const snapshot = snapshotId
+    ? await getSnapshot(tokenAddress, snapshotId)
+    : await findLatestSnapshot(tokenAddress, parameters);
+
+  if (snapshotId && !snapshot) {
+    return <InvalidLink message={`Snapshot not found: ${snapshotId}`} />;
+  }
+
+  // 链接中的参数以快照实际使用的参数为准
+  if (snapshot && (snapshot.id !== snapshotId || !isSameParameters(snapshot.parameters, parameters))) {
+    redirect(buildAnalysisPath(tokenAddress, snapshot.parameters, snapshot.id));
+  }
+
+  return (
+    <AnalysisView
+      key={snapshot?.id ?? 'pending'}
+      tokenAddress={tokenAddress}
+      parameters={parameters}
+      result={snapshot?.result ?? null}
+      snapshotId={snapshot?.id ?? null}
+      analyzedAt={snapshot?.createdAt ?? null}
+    />
+  );
+}
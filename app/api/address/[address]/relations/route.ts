@@ -0,0 +1,72 @@
+/**
+ * Address Relations API Route
+ *
+ * 主要功能：
+ * 1. 查询任意地址一跳的转入/转出交易（不受分析深度限制）
+ * 2. 复用分析使用的 Solscan 查询、缓存与交易所处理方式
+ * 3. 用于在关系图中按需展开节点
+ *
+ * @route GET /api/address/[address]/relations?minAmount=&direction=&exchangeMode=
+ */
+
+import { NextResponse } from 'next/server';
+import { getAddressRelations } from '@/app/lib/analyze';
+import { isValidSolanaAddress, validateRelationQuery } from '@/app/lib/validation';
+import { toAnalysisError } from '@/app/lib/errors';
+
+/**
+ * 路由参数
+ */
+interface RouteContext {
+    params: Promise<{ address: string }>;
+}
+
+/**
+ * 错误响应接口
+ */
+interface ErrorResponse {
+    error: string;
+    details?: unknown;
+}
+
+/**
+ * GET 请求处理函数
+ *
+ * @returns 关联交易、转入/转出地址与地址标签
+ *
+ * @example
+ * GET /api/address/5Q54.../relations?minAmount=5&direction=both&exchangeMode=collapse
+ * Response: { "address": "5Q54...", "incomingAddresses": [...], "outgoingAddresses": [...], "transactions": [...], "labels": {...} }
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+    const { address } = await params;
+    if (!isValidSolanaAddress(address)) {
+        return NextResponse.json<ErrorResponse>(
+            { error: 'Invalid address format', details: address },
+            { status: 400 }
+        );
+    }
+
+    const validation = validateRelationQuery(new URL(request.url).searchParams);
+    if (!validation.ok) {
+        return NextResponse.json<ErrorResponse>(
+            { error: 'Invalid relation parameters', details: validation.error },
+            { status: 400 }
+        );
+    }
+
+    try {
+        const relations = await getAddressRelations(address, validation.value);
+        return NextResponse.json(relations);
+    } catch (error) {
+        // 数据源问题返回 502，输入问题返回 400
+        const analysisError = toAnalysisError(error);
+        return NextResponse.json<ErrorResponse>(
+            {
+                error: analysisError.statusCode === 500 ? 'Failed to fetch address relations' : analysisError.message,
+                details: analysisError.cause ?? analysisError.message
+            },
+            { status: analysisError.statusCode }
+        );
+    }
+}
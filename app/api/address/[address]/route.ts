@@ -0,0 +1,108 @@
+/**
+ * Address Detail API Route
+ *
+ * 主要功能：
+ * 1. 返回地址详情：转入/转出总额、按时间排序的交易时间线、对手方标签与区块浏览器链接
+ * 2. 指定 token 时从该代币的分析快照中汇总（snapshot 未指定时使用最新快照）
+ * 3. 未指定 token 时实时查询地址一跳的转账
+ *
+ * @route GET /api/address/[address]?token=&snapshot=
+ * @route GET /api/address/[address]?minAmount=&direction=&exchangeMode=
+ */
+
+import { NextResponse } from 'next/server';
+import { getAddressRelations } from '@/app/lib/analyze';
+import { buildAddressDetail } from '@/app/lib/address-detail';
+import { getSnapshot, listSnapshots } from '@/app/lib/snapshots';
+import { isValidSolanaAddress, validateRelationQuery } from '@/app/lib/validation';
+import { toAnalysisError } from '@/app/lib/errors';
+
+/**
+ * 路由参数
+ */
+interface RouteContext {
+    params: Promise<{ address: string }>;
+}
+
+/**
+ * 错误响应接口
+ */
+interface ErrorResponse {
+    error: string;
+    details?: unknown;
+}
+
+/**
+ * GET 请求处理函数
+ *
+ * @returns 地址详情
+ *
+ * @example
+ * GET /api/address/5Q54...?token=9PR7...&snapshot=1718000000000-ab12cd34
+ * Response: { "address": "5Q54...", "holder": { "pctOfSupply": 0.03 }, "totalInAmount": 120, "timeline": [...] }
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+    const { address } = await params;
+    if (!isValidSolanaAddress(address)) {
+        return NextResponse.json<ErrorResponse>(
+            { error: 'Invalid address format', details: address },
+            { status: 400 }
+        );
+    }
+
+    const searchParams = new URL(request.url).searchParams;
+    const token = searchParams.get('token');
+
+    // 1. 从分析快照中汇总
+    if (token) {
+        if (!isValidSolanaAddress(token)) {
+            return NextResponse.json<ErrorResponse>(
+                { error: 'Invalid token address format', details: token },
+                { status: 400 }
+            );
+        }
+
+        const snapshotId = searchParams.get('snapshot') ?? (await listSnapshots(token))[0]?.id;
+        const snapshot = snapshotId ? await getSnapshot(token, snapshotId) : null;
+        if (!snapshot) {
+            return NextResponse.json<ErrorResponse>(
+                { error: 'Snapshot not found', details: { token, snapshot: snapshotId ?? null } },
+                { status: 404 }
+            );
+        }
+        return NextResponse.json({
+            ...buildAddressDetail(address, snapshot.result),
+            snapshotId: snapshot.id
+        });
+    }
+
+    // 2. 实时查询一跳转账
+    const validation = validateRelationQuery(searchParams);
+    if (!validation.ok) {
+        return NextResponse.json<ErrorResponse>(
+            { error: 'Invalid relation parameters', details: validation.error },
+            { status: 400 }
+        );
+    }
+
+    try {
+        const relations = await getAddressRelations(address, validation.value);
+        return NextResponse.json(buildAddressDetail(address, {
+            topHolders: [],
+            relatedAddresses: { [address]: relations },
+            labels: relations.labels,
+            userLabels: relations.userLabels,
+            watchlists: relations.watchlists
+        }));
+    } catch (error) {
+        // 数据源问题返回 502，输入问题返回 400
+        const analysisError = toAnalysisError(error);
+        return NextResponse.json<ErrorResponse>(
+            {
+                error: analysisError.statusCode === 500 ? 'Failed to fetch address detail' : analysisError.message,
+                details: analysisError.cause ?? analysisError.message
+            },
+            { status: analysisError.statusCode }
+        );
+    }
+}
@@ -0,0 +1,75 @@
+/**
+ * Analysis Job API Route
+ *
+ * 主要功能：
+ * 1. 查询后台分析任务的状态、进度与结果
+ * 2. 取消正在执行的分析任务
+ *
+ * @route GET /api/analyze/[jobId]
+ * @route DELETE /api/analyze/[jobId]
+ */
+
+import { NextResponse } from 'next/server';
+import { getAnalysisJob, cancelAnalysisJob } from '@/app/lib/jobs';
+
+/**
+ * 路由参数
+ */
+interface RouteContext {
+    params: Promise<{ jobId: string }>;
+}
+
+/**
+ * 错误响应接口
+ */
+interface ErrorResponse {
+    error: string;
+    details?: unknown;
+}
+
+/**
+ * GET 请求处理函数
+ *
+ * @returns 任务状态、进度，任务完成时包含分析结果；任务失败时 HTTP 状态码为失败原因对应的状态码
+ *
+ * @example
+ * GET /api/analyze/6f1c...
+ * Response: { "id": "...", "status": "running", "progress": { ... } }
+ */
+export async function GET(_request: Request, { params }: RouteContext) {
+    const { jobId } = await params;
+    const job = await getAnalysisJob(jobId);
+
+    if (!job) {
+        return NextResponse.json<ErrorResponse>(
+            { error: 'Job not found', details: jobId },
+            { status: 404 }
+        );
+    }
+
+    // 失败的任务：数据源问题返回 502，输入问题返回 400
+    if (job.status === 'failed') {
+        return NextResponse.json(job, { status: job.errorStatus ?? 500 });
+    }
+
+    return NextResponse.json(job);
+}
+
+/**
+ * DELETE 请求处理函数
+ *
+ * @returns 取消后的任务状态；已结束的任务原样返回
+ */
+export async function DELETE(_request: Request, { params }: RouteContext) {
+    const { jobId } = await params;
+    const job = await cancelAnalysisJob(jobId);
+
+    if (!job) {
+        return NextResponse.json<ErrorResponse>(
+            { error: 'Job not found', details: jobId },
+            { status: 404 }
+        );
+    }
+
+    return NextResponse.json({ id: job.id, status: job.status });
+}
@@ -3,34 +3,36 @@
  * 
  * 主要功能：
  * 1. 接收代币地址
- * 2. 分析持有者关系
- * 3. 返回分析结果
+ * 2. 提交后台分析任务
+ * 3. 返回任务 ID，客户端通过 GET /api/analyze/[jobId] 轮询结果
+ * 4. 指定 retryFailed 时只重新查询该快照中失败的持有者，其余结果沿用快照
+ * 5. 任务通过 after() 在响应发送后继续执行，受函数 maxDuration 限制
  * 
  * @route POST /api/analyze
  */
 
-import { NextResponse } from 'next/server';
-import { analyzeTokenHoldersRelatedAddresses } from '@/app/lib/analyze';
+import { NextResponse, unstable_after as after } from 'next/server';
+import { submitAnalysisJob } from '@/app/lib/jobs';
+import { getFailedHolders } from '@/app/lib/analyze';
+import { getSnapshot } from '@/app/lib/snapshots';
+import { isValidSolanaAddress, validateAnalysisParameters } from '@/app/lib/validation';
+import { AnalysisError, ProviderError, toAnalysisError } from '@/app/lib/errors';
 
 /**
- * 自定义分析错误类
- * 用于处理分析过程中的特定错误情况
+ * 请求参数接口
  */
-class AnalysisError extends Error {
-    constructor(
-        message: string,
-        public statusCode: number = 500
-    ) {
-        super(message);
-        this.name = 'AnalysisError';
-    }
+interface AnalyzeRequest {
+    address: string;       // 代币合约地址
+    parameters?: unknown;  // 分析参数：topN、maxDepth、minAmount、direction、exchangeMode、traceTokenFlow
+    retryFailed?: unknown; // 快照 ID：只重试该快照中失败的持有者，沿用快照的参数
 }
 
 /**
- * 请求参数接口
+ * 任务提交响应接口
  */
-interface AnalyzeRequest {
-    address: string;  // 代币合约地址
+interface SubmitResponse {
+    jobId: string;
+    status: string;
 }
 
 /**
@@ -45,18 +47,29 @@ interface ErrorResponse {
  * POST 请求处理函数
  * 
  * @param request 包含代币地址的请求对象
- * @returns 分析结果或错误信息
+ * @returns 任务 ID（202 Accepted）或错误信息
  * 
- * @throws AnalysisError 当分析过程出错时
+ * @throws AnalysisError 当任务提交出错时
  * 
  * @example
  * POST /api/analyze
- * Body: { "address": "9PR7nCP9DpcUotnDPVLUBUZKu5WAYkwrCUx9wDnSpump" }
+ * Body: {
+ *   "address": "9PR7nCP9DpcUotnDPVLUBUZKu5WAYkwrCUx9wDnSpump",
+ *   "parameters": { "topN": 20, "maxDepth": 2, "minAmount": 5, "direction": "both", "exchangeMode": "collapse" }
+ * }
+ * Response: { "jobId": "...", "status": "pending" }
+ *
+ * @example
+ * POST /api/analyze
+ * Body: { "address": "9PR7...", "retryFailed": "1718000000000-ab12cd34" }
+ * Response: { "jobId": "...", "status": "pending" }
  */
 export async function POST(request: Request) {
     try {
         // 1. 验证请求数据
-        const { address } = await request.json() as AnalyzeRequest;
+        const { address, parameters, retryFailed } = await request.json().catch(() => {
+            throw new AnalysisError('Invalid JSON body', 400);
+        }) as AnalyzeRequest;
 
         // 2. 参数验证
         if (!address) {
@@ -70,7 +83,7 @@ export async function POST(request: Request) {
         }
 
         // 3. 地址格式验证（可选：根据具体链的地址格式添加验证）
-        if (!/^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(address)) {
+        if (!isValidSolanaAddress(address)) {
             return NextResponse.json<ErrorResponse>(
                 {
                     error: 'Invalid token address format',
@@ -80,33 +93,74 @@ export async function POST(request: Request) {
             );
         }
 
-        // 4. 执行分析
-        console.log(`Starting analysis for token: ${address}`);
-        const result = await analyzeTokenHoldersRelatedAddresses(address);
+        // 4. 只重试快照中失败的持有者
+        if (retryFailed !== undefined) {
+            if (typeof retryFailed !== 'string' || !retryFailed) {
+                return NextResponse.json<ErrorResponse>(
+                    { error: 'Invalid retryFailed', details: 'Expected a snapshot ID' },
+                    { status: 400 }
+                );
+            }
+
+            const snapshot = await getSnapshot(address, retryFailed);
+            if (!snapshot) {
+                return NextResponse.json<ErrorResponse>(
+                    { error: 'Snapshot not found', details: { token: address, snapshot: retryFailed } },
+                    { status: 404 }
+                );
+            }
+            // 较早保存的快照没有持有者查询状态
+            if (!snapshot.result.holderStatus || getFailedHolders(snapshot.result).length === 0) {
+                return NextResponse.json<ErrorResponse>(
+                    { error: 'No failed holders to retry', details: retryFailed },
+                    { status: 400 }
+                );
+            }
 
-        // 5. 序列化结果
-        // 注意：Map 对象需要转换为普通对象才能序列化
-        const serializedResult = {
-            ...result,
-            relatedAddresses: Object.fromEntries(result.relatedAddresses)
-        };
+            const job = await submitAnalysisJob(address, snapshot.result.parameters, {
+                snapshotId: snapshot.id,
+                result: snapshot.result
+            }, after);
+            return NextResponse.json<SubmitResponse>(
+                { jobId: job.id, status: job.status },
+                { status: 202 }
+            );
+        }
 
-        // 6. 返回结果
-        console.log(`Analysis completed for token: ${address}`);
-        return NextResponse.json(serializedResult);
+        // 5. 分析参数验证
+        const validated = validateAnalysisParameters(parameters);
+        if (!validated.ok) {
+            return NextResponse.json<ErrorResponse>(
+                {
+                    error: 'Invalid analysis parameters',
+                    details: validated.error
+                },
+                { status: 400 }
+            );
+        }
+
+        // 6. 提交后台任务
+        const job = await submitAnalysisJob(address, validated.value, undefined, after);
+
+        // 7. 返回任务 ID
+        return NextResponse.json<SubmitResponse>(
+            { jobId: job.id, status: job.status },
+            { status: 202 }
+        );
 
     } catch (error) {
-        // 7. 错误处理
+        // 8. 错误处理
         console.error('Analysis error:', error);
 
-        // 处理已知的分析错误
-        if (error instanceof AnalysisError) {
+        // 处理已知的分析错误与数据源错误
+        if (error instanceof AnalysisError || error instanceof ProviderError) {
+            const analysisError = toAnalysisError(error);
             return NextResponse.json<ErrorResponse>(
                 {
-                    error: error.message,
-                    details: error.cause
+                    error: analysisError.message,
+                    details: analysisError.cause
                 },
-                { status: error.statusCode }
+                { status: analysisError.statusCode }
             );
         }
 
@@ -0,0 +1,121 @@
+/**
+ * User Label API Route
+ *
+ * 主要功能：
+ * 1. 查询单个地址的自定义标签
+ * 2. 更新地址的自定义标签
+ * 3. 删除地址的自定义标签
+ *
+ * @route GET /api/labels/[address]
+ * @route PUT /api/labels/[address]
+ * @route DELETE /api/labels/[address]
+ */
+
+import { NextResponse } from 'next/server';
+import { getUserLabel, setUserLabel, deleteUserLabel } from '@/app/lib/user-labels';
+import { isValidSolanaAddress, validateUserLabelInput } from '@/app/lib/validation';
+
+/**
+ * 路由参数
+ */
+interface RouteContext {
+    params: Promise<{ address: string }>;
+}
+
+/**
+ * 错误响应接口
+ */
+interface ErrorResponse {
+    error: string;
+    details?: unknown;
+}
+
+/**
+ * GET 请求处理函数
+ *
+ * @returns 地址的自定义标签
+ */
+export async function GET(_request: Request, { params }: RouteContext) {
+    const { address } = await params;
+    if (!isValidSolanaAddress(address)) {
+        return NextResponse.json<ErrorResponse>(
+            { error: 'Invalid Solana address', details: address },
+            { status: 400 }
+        );
+    }
+    const label = await getUserLabel(address);
+
+    if (!label) {
+        return NextResponse.json<ErrorResponse>(
+            { error: 'Label not found', details: address },
+            { status: 404 }
+        );
+    }
+
+    return NextResponse.json(label);
+}
+
+/**
+ * PUT 请求处理函数，地址没有标签时创建
+ *
+ * @returns 保存后的标签
+ *
+ * @example
+ * PUT /api/labels/7xKX...
+ * Body: { "label": "KOL", "note": "Calls on X" }
+ */
+export async function PUT(request: Request, { params }: RouteContext) {
+    const { address } = await params;
+    if (!isValidSolanaAddress(address)) {
+        return NextResponse.json<ErrorResponse>(
+            { error: 'Invalid Solana address', details: address },
+            { status: 400 }
+        );
+    }
+
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json<ErrorResponse>(
+            { error: 'Invalid JSON body' },
+            { status: 400 }
+        );
+    }
+
+    const validation = validateUserLabelInput(body);
+    if (!validation.ok) {
+        return NextResponse.json<ErrorResponse>(
+            { error: 'Invalid label', details: validation.error },
+            { status: 400 }
+        );
+    }
+
+    const label = await setUserLabel(address, validation.value.label, validation.value.note);
+    return NextResponse.json(label);
+}
+
+/**
+ * DELETE 请求处理函数
+ *
+ * @returns 被删除的地址
+ */
+export async function DELETE(_request: Request, { params }: RouteContext) {
+    const { address } = await params;
+    if (!isValidSolanaAddress(address)) {
+        return NextResponse.json<ErrorResponse>(
+            { error: 'Invalid Solana address', details: address },
+            { status: 400 }
+        );
+    }
+    const deleted = await deleteUserLabel(address);
+
+    if (!deleted) {
+        return NextResponse.json<ErrorResponse>(
+            { error: 'Label not found', details: address },
+            { status: 404 }
+        );
+    }
+
+    return NextResponse.json({ address, deleted: true });
+}
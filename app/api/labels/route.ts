@@ -0,0 +1,76 @@
+/**
+ * User Labels API Route
+ *
+ * 主要功能：
+ * 1. 列出所有自定义地址标签
+ * 2. 为地址创建或更新自定义标签
+ *
+ * @route GET /api/labels
+ * @route POST /api/labels
+ */
+
+import { NextResponse } from 'next/server';
+import { listUserLabels, setUserLabel } from '@/app/lib/user-labels';
+import { isValidSolanaAddress, validateUserLabelInput } from '@/app/lib/validation';
+
+/**
+ * 错误响应接口
+ */
+interface ErrorResponse {
+    error: string;
+    details?: unknown;
+}
+
+/**
+ * GET 请求处理函数
+ *
+ * @returns 所有自定义标签
+ *
+ * @example
+ * GET /api/labels
+ * Response: { "labels": [{ "address": "...", "label": "Dev wallet", "note": "..." }] }
+ */
+export async function GET() {
+    const labels = await listUserLabels();
+    return NextResponse.json({ labels });
+}
+
+/**
+ * POST 请求处理函数，地址已有标签时覆盖
+ *
+ * @returns 保存后的标签
+ *
+ * @example
+ * POST /api/labels
+ * Body: { "address": "...", "label": "Rugger", "note": "Rugged $XYZ in March" }
+ */
+export async function POST(request: Request) {
+    let body: { address?: unknown };
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json<ErrorResponse>(
+            { error: 'Invalid JSON body' },
+            { status: 400 }
+        );
+    }
+
+    const address = body?.address;
+    if (typeof address !== 'string' || !isValidSolanaAddress(address)) {
+        return NextResponse.json<ErrorResponse>(
+            { error: 'Invalid Solana address', details: address },
+            { status: 400 }
+        );
+    }
+
+    const validation = validateUserLabelInput(body);
+    if (!validation.ok) {
+        return NextResponse.json<ErrorResponse>(
+            { error: 'Invalid label', details: validation.error },
+            { status: 400 }
+        );
+    }
+
+    const label = await setUserLabel(address, validation.value.label, validation.value.note);
+    return NextResponse.json(label);
+}
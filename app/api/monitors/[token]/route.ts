@@ -0,0 +1,109 @@
+/**
+ * Monitor API Route
+ *
+ * 主要功能：
+ * 1. 查询代币的监控配置与最近一次运行状态
+ * 2. 更新监控配置
+ * 3. 停止监控代币
+ *
+ * @route GET /api/monitors/[token]
+ * @route PUT /api/monitors/[token]
+ * @route DELETE /api/monitors/[token]
+ */
+
+import { NextResponse } from 'next/server';
+import { getMonitor, saveMonitor, deleteMonitor } from '@/app/lib/monitor';
+import { validateMonitorInput } from '@/app/lib/validation';
+
+/**
+ * 路由参数
+ */
+interface RouteContext {
+    params: Promise<{ token: string }>;
+}
+
+/**
+ * 错误响应接口
+ */
+interface ErrorResponse {
+    error: string;
+    details?: unknown;
+}
+
+/**
+ * GET 请求处理函数
+ *
+ * @returns 监控配置
+ */
+export async function GET(_request: Request, { params }: RouteContext) {
+    const { token } = await params;
+    const monitor = await getMonitor(token);
+
+    if (!monitor) {
+        return NextResponse.json<ErrorResponse>(
+            { error: 'Monitor not found', details: token },
+            { status: 404 }
+        );
+    }
+
+    return NextResponse.json(monitor);
+}
+
+/**
+ * PUT 请求处理函数，只更新请求体中提供的字段
+ *
+ * @returns 更新后的监控配置
+ *
+ * @example
+ * PUT /api/monitors/9PR7...
+ * Body: { "enabled": false }
+ */
+export async function PUT(request: Request, { params }: RouteContext) {
+    const { token } = await params;
+    if (!await getMonitor(token)) {
+        return NextResponse.json<ErrorResponse>(
+            { error: 'Monitor not found', details: token },
+            { status: 404 }
+        );
+    }
+
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json<ErrorResponse>(
+            { error: 'Invalid JSON body' },
+            { status: 400 }
+        );
+    }
+
+    const validation = validateMonitorInput(body);
+    if (!validation.ok) {
+        return NextResponse.json<ErrorResponse>(
+            { error: 'Invalid monitor configuration', details: validation.error },
+            { status: 400 }
+        );
+    }
+
+    const monitor = await saveMonitor(token, validation.value);
+    return NextResponse.json(monitor);
+}
+
+/**
+ * DELETE 请求处理函数
+ *
+ * @returns 停止监控的代币地址
+ */
+export async function DELETE(_request: Request, { params }: RouteContext) {
+    const { token } = await params;
+    const deleted = await deleteMonitor(token);
+
+    if (!deleted) {
+        return NextResponse.json<ErrorResponse>(
+            { error: 'Monitor not found', details: token },
+            { status: 404 }
+        );
+    }
+
+    return NextResponse.json({ tokenAddress: token, deleted: true });
+}
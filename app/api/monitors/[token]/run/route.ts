@@ -0,0 +1,68 @@
+/**
+ * Monitor Run API Route
+ *
+ * 主要功能：
+ * 1. 立即运行一次监控（不等待调度间隔），用于验证规则与 Webhook 配置
+ * 2. 等待分析完成后返回告警与推送结果
+ *
+ * @route POST /api/monitors/[token]/run
+ */
+
+import { NextResponse } from 'next/server';
+import { runMonitor, MonitorBusyError } from '@/app/lib/monitor';
+import { toAnalysisError } from '@/app/lib/errors';
+
+/**
+ * 路由参数
+ */
+interface RouteContext {
+    params: Promise<{ token: string }>;
+}
+
+/**
+ * 错误响应接口
+ */
+interface ErrorResponse {
+    error: string;
+    details?: unknown;
+}
+
+/**
+ * POST 请求处理函数
+ *
+ * @returns 运行结果：快照 ID、全部告警、新告警与 Webhook 推送结果
+ *
+ * @example
+ * POST /api/monitors/9PR7.../run
+ * Response: { "snapshotId": "...", "alerts": [...], "newAlerts": [...], "deliveries": [{ "url": "...", "ok": true }] }
+ */
+export async function POST(_request: Request, { params }: RouteContext) {
+    const { token } = await params;
+
+    try {
+        const run = await runMonitor(token);
+        if (!run) {
+            return NextResponse.json<ErrorResponse>(
+                { error: 'Monitor not found', details: token },
+                { status: 404 }
+            );
+        }
+        return NextResponse.json(run);
+    } catch (error) {
+        if (error instanceof MonitorBusyError) {
+            return NextResponse.json<ErrorResponse>(
+                { error: 'Monitor is already running', details: token },
+                { status: 409 }
+            );
+        }
+        // 数据源错误返回 502（上游问题）或 400（输入问题）
+        const analysisError = toAnalysisError(error);
+        return NextResponse.json<ErrorResponse>(
+            {
+                error: analysisError.statusCode === 500 ? 'Monitor run failed' : analysisError.message,
+                details: analysisError.cause ?? analysisError.message
+            },
+            { status: analysisError.statusCode }
+        );
+    }
+}
@@ -0,0 +1,82 @@
+/**
+ * Monitors API Route
+ *
+ * 主要功能：
+ * 1. 列出所有监控中的代币
+ * 2. 开始监控代币（代币已在监控中时更新配置）
+ *
+ * @route GET /api/monitors
+ * @route POST /api/monitors
+ */
+
+import { NextResponse } from 'next/server';
+import { listMonitors, saveMonitor } from '@/app/lib/monitor';
+import { isValidSolanaAddress, validateMonitorInput } from '@/app/lib/validation';
+
+/**
+ * 错误响应接口
+ */
+interface ErrorResponse {
+    error: string;
+    details?: unknown;
+}
+
+/**
+ * GET 请求处理函数
+ *
+ * @returns 所有监控配置与最近一次运行状态
+ */
+export async function GET() {
+    const monitors = await listMonitors();
+    return NextResponse.json({ monitors });
+}
+
+/**
+ * POST 请求处理函数
+ *
+ * @returns 保存后的监控配置
+ *
+ * @example
+ * POST /api/monitors
+ * Body: {
+ *   "tokenAddress": "9PR7nCP9DpcUotnDPVLUBUZKu5WAYkwrCUx9wDnSpump",
+ *   "intervalMinutes": 30,
+ *   "parameters": { "topN": 20 },
+ *   "rules": [
+ *     { "type": "cluster_supply", "threshold": 0.2 },
+ *     { "type": "watchlist_funded_holder", "watchlist": "Known ruggers", "topN": 10 },
+ *     { "type": "holder_exited", "minPct": 0.01 }
+ *   ],
+ *   "webhooks": ["http://localhost:4000/alerts"]
+ * }
+ */
+export async function POST(request: Request) {
+    let body: { tokenAddress?: unknown };
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json<ErrorResponse>(
+            { error: 'Invalid JSON body' },
+            { status: 400 }
+        );
+    }
+
+    const tokenAddress = body?.tokenAddress;
+    if (typeof tokenAddress !== 'string' || !isValidSolanaAddress(tokenAddress)) {
+        return NextResponse.json<ErrorResponse>(
+            { error: 'Invalid token address format', details: tokenAddress },
+            { status: 400 }
+        );
+    }
+
+    const validation = validateMonitorInput(body);
+    if (!validation.ok) {
+        return NextResponse.json<ErrorResponse>(
+            { error: 'Invalid monitor configuration', details: validation.error },
+            { status: 400 }
+        );
+    }
+
+    const monitor = await saveMonitor(tokenAddress, validation.value);
+    return NextResponse.json(monitor);
+}
@@ -0,0 +1,81 @@
+/**
+ * Snapshot Export API Route
+ *
+ * 主要功能：
+ * 1. 将分析快照导出为文件下载
+ * 2. 支持持有者 CSV、交易 CSV、完整 JSON，以及 GraphML / GEXF 关系图
+ * 3. 下载文件名由存储的快照生成，不直接使用 URL 中的参数
+ *
+ * @route GET /api/snapshots/[token]/[snapshotId]/export?format=holders-csv|transactions-csv|json|graphml|gexf
+ */
+
+import { NextResponse } from 'next/server';
+import { getSnapshot, isValidSnapshotId } from '@/app/lib/snapshots';
+import { EXPORT_FORMATS, exportAnalysis, isExportFormat } from '@/app/lib/export';
+import { isValidSolanaAddress } from '@/app/lib/validation';
+
+/**
+ * 路由参数
+ */
+interface RouteContext {
+    params: Promise<{ token: string; snapshotId: string }>;
+}
+
+/**
+ * 错误响应接口
+ */
+interface ErrorResponse {
+    error: string;
+    details?: unknown;
+}
+
+/**
+ * GET 请求处理函数
+ *
+ * @returns 导出文件（Content-Disposition: attachment）
+ *
+ * @example
+ * GET /api/snapshots/9PR7.../1718000000000-ab12cd34/export?format=gexf
+ * Response: 9PR7...-1718000000000-ab12cd34-graph.gexf
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+    const { token, snapshotId } = await params;
+    const format = new URL(request.url).searchParams.get('format') ?? 'json';
+
+    if (!isValidSolanaAddress(token)) {
+        return NextResponse.json<ErrorResponse>(
+            { error: 'Invalid token address format', details: token },
+            { status: 400 }
+        );
+    }
+
+    if (!isValidSnapshotId(snapshotId)) {
+        return NextResponse.json<ErrorResponse>(
+            { error: 'Invalid snapshot ID format', details: snapshotId },
+            { status: 400 }
+        );
+    }
+
+    if (!isExportFormat(format)) {
+        return NextResponse.json<ErrorResponse>(
+            { error: 'Invalid export format', details: { format, supported: EXPORT_FORMATS } },
+            { status: 400 }
+        );
+    }
+
+    const snapshot = await getSnapshot(token, snapshotId);
+    if (!snapshot) {
+        return NextResponse.json<ErrorResponse>(
+            { error: 'Snapshot not found', details: snapshotId },
+            { status: 404 }
+        );
+    }
+
+    const file = exportAnalysis(snapshot.result, format);
+    return new Response(file.content, {
+        headers: {
+            'Content-Type': file.contentType,
+            'Content-Disposition': `attachment; filename="${snapshot.tokenAddress}-${snapshot.id}-${file.name}"`
+        }
+    });
+}
@@ -0,0 +1,53 @@
+/**
+ * Snapshot API Route
+ *
+ * 主要功能：
+ * 1. 查询单个分析快照，包含完整分析结果
+ *
+ * @route GET /api/snapshots/[token]/[snapshotId]
+ */
+
+import { NextResponse } from 'next/server';
+import { getSnapshot } from '@/app/lib/snapshots';
+import { isValidSolanaAddress } from '@/app/lib/validation';
+
+/**
+ * 路由参数
+ */
+interface RouteContext {
+    params: Promise<{ token: string; snapshotId: string }>;
+}
+
+/**
+ * 错误响应接口
+ */
+interface ErrorResponse {
+    error: string;
+    details?: unknown;
+}
+
+/**
+ * GET 请求处理函数
+ *
+ * @returns 快照摘要与完整分析结果
+ */
+export async function GET(_request: Request, { params }: RouteContext) {
+    const { token, snapshotId } = await params;
+    if (!isValidSolanaAddress(token)) {
+        return NextResponse.json<ErrorResponse>(
+            { error: 'Invalid token address format', details: token },
+            { status: 400 }
+        );
+    }
+
+    const snapshot = await getSnapshot(token, snapshotId);
+
+    if (!snapshot) {
+        return NextResponse.json<ErrorResponse>(
+            { error: 'Snapshot not found', details: snapshotId },
+            { status: 404 }
+        );
+    }
+
+    return NextResponse.json(snapshot);
+}
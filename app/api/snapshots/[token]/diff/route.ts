@@ -0,0 +1,76 @@
+/**
+ * Snapshot Diff API Route
+ *
+ * 主要功能：
+ * 1. 对比同一代币的两个分析快照
+ * 2. 未指定 to 时使用最新快照，未指定 from 时使用 to 之前的一个快照
+ * 3. 两个快照的分析参数不一致时，在 parameterMismatches 中列出不一致的参数
+ *
+ * @route GET /api/snapshots/[token]/diff?from=[snapshotId]&to=[snapshotId]
+ */
+
+import { NextResponse } from 'next/server';
+import { listSnapshots, getSnapshot, diffSnapshots } from '@/app/lib/snapshots';
+import { isValidSolanaAddress } from '@/app/lib/validation';
+
+/**
+ * 路由参数
+ */
+interface RouteContext {
+    params: Promise<{ token: string }>;
+}
+
+/**
+ * 错误响应接口
+ */
+interface ErrorResponse {
+    error: string;
+    details?: unknown;
+}
+
+/**
+ * GET 请求处理函数
+ *
+ * @returns 快照对比结果
+ *
+ * @example
+ * GET /api/snapshots/9PR7.../diff?from=1718000000000-1a2b3c4d
+ * Response: { "entered": [...], "exited": [...], "pctChanges": [...], "newFundingEdges": [...], "clusterChanges": [...], "parameterMismatches": [{ "parameter": "topN", "from": 20, "to": 50 }] }
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+    const { token } = await params;
+    if (!isValidSolanaAddress(token)) {
+        return NextResponse.json<ErrorResponse>(
+            { error: 'Invalid token address format', details: token },
+            { status: 400 }
+        );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const snapshots = await listSnapshots(token);
+
+    // 快照列表最新的在前
+    const toId = searchParams.get('to') ?? snapshots[0]?.id;
+    const toIndex = snapshots.findIndex(snapshot => snapshot.id === toId);
+    const fromId = searchParams.get('from') ?? snapshots[toIndex + 1]?.id;
+
+    if (!toId || toIndex === -1 || !fromId) {
+        return NextResponse.json<ErrorResponse>(
+            {
+                error: 'Not enough snapshots to compare',
+                details: { token, from: fromId ?? null, to: toId ?? null }
+            },
+            { status: 404 }
+        );
+    }
+
+    const [from, to] = await Promise.all([getSnapshot(token, fromId), getSnapshot(token, toId)]);
+    if (!from || !to) {
+        return NextResponse.json<ErrorResponse>(
+            { error: 'Snapshot not found', details: !from ? fromId : toId },
+            { status: 404 }
+        );
+    }
+
+    return NextResponse.json(diffSnapshots(from, to));
+}
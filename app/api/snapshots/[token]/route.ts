@@ -0,0 +1,49 @@
+/**
+ * Snapshots API Route
+ *
+ * 主要功能：
+ * 1. 列出代币的历史分析快照
+ *
+ * @route GET /api/snapshots/[token]
+ */
+
+import { NextResponse } from 'next/server';
+import { listSnapshots } from '@/app/lib/snapshots';
+import { isValidSolanaAddress } from '@/app/lib/validation';
+
+/**
+ * 路由参数
+ */
+interface RouteContext {
+    params: Promise<{ token: string }>;
+}
+
+/**
+ * 错误响应接口
+ */
+interface ErrorResponse {
+    error: string;
+    details?: unknown;
+}
+
+/**
+ * GET 请求处理函数
+ *
+ * @returns 快照摘要列表，最新的在前
+ *
+ * @example
+ * GET /api/snapshots/9PR7nCP9DpcUotnDPVLUBUZKu5WAYkwrCUx9wDnSpump
+ * Response: { "snapshots": [{ "id": "...", "createdAt": "...", "totalHolders": 20, "riskScore": 45 }] }
+ */
+export async function GET(_request: Request, { params }: RouteContext) {
+    const { token } = await params;
+    if (!isValidSolanaAddress(token)) {
+        return NextResponse.json<ErrorResponse>(
+            { error: 'Invalid token address format', details: token },
+            { status: 400 }
+        );
+    }
+
+    const snapshots = await listSnapshots(token);
+    return NextResponse.json({ snapshots });
+}
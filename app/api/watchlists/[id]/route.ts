@@ -0,0 +1,110 @@
+/**
+ * Watchlist API Route
+ *
+ * 主要功能：
+ * 1. 查询观察列表
+ * 2. 更新观察列表名称或地址
+ * 3. 删除观察列表
+ *
+ * @route GET /api/watchlists/[id]
+ * @route PUT /api/watchlists/[id]
+ * @route DELETE /api/watchlists/[id]
+ */
+
+import { NextResponse } from 'next/server';
+import { getWatchlist, updateWatchlist, deleteWatchlist } from '@/app/lib/user-labels';
+import { validateWatchlistInput } from '@/app/lib/validation';
+
+/**
+ * 路由参数
+ */
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * 错误响应接口
+ */
+interface ErrorResponse {
+    error: string;
+    details?: unknown;
+}
+
+/**
+ * GET 请求处理函数
+ *
+ * @returns 观察列表
+ */
+export async function GET(_request: Request, { params }: RouteContext) {
+    const { id } = await params;
+    const watchlist = await getWatchlist(id);
+
+    if (!watchlist) {
+        return NextResponse.json<ErrorResponse>(
+            { error: 'Watchlist not found', details: id },
+            { status: 404 }
+        );
+    }
+
+    return NextResponse.json(watchlist);
+}
+
+/**
+ * PUT 请求处理函数，只更新请求体中提供的字段
+ *
+ * @returns 更新后的观察列表
+ *
+ * @example
+ * PUT /api/watchlists/6f1c...
+ * Body: { "addresses": ["...", "..."] }
+ */
+export async function PUT(request: Request, { params }: RouteContext) {
+    const { id } = await params;
+
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json<ErrorResponse>(
+            { error: 'Invalid JSON body' },
+            { status: 400 }
+        );
+    }
+
+    const validation = validateWatchlistInput(body, true);
+    if (!validation.ok) {
+        return NextResponse.json<ErrorResponse>(
+            { error: 'Invalid watchlist', details: validation.error },
+            { status: 400 }
+        );
+    }
+
+    const watchlist = await updateWatchlist(id, validation.value);
+    if (!watchlist) {
+        return NextResponse.json<ErrorResponse>(
+            { error: 'Watchlist not found', details: id },
+            { status: 404 }
+        );
+    }
+
+    return NextResponse.json(watchlist);
+}
+
+/**
+ * DELETE 请求处理函数
+ *
+ * @returns 被删除的观察列表 ID
+ */
+export async function DELETE(_request: Request, { params }: RouteContext) {
+    const { id } = await params;
+    const deleted = await deleteWatchlist(id);
+
+    if (!deleted) {
+        return NextResponse.json<ErrorResponse>(
+            { error: 'Watchlist not found', details: id },
+            { status: 404 }
+        );
+    }
+
+    return NextResponse.json({ id, deleted: true });
+}
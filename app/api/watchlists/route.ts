@@ -0,0 +1,69 @@
+/**
+ * Watchlists API Route
+ *
+ * 主要功能：
+ * 1. 列出所有观察列表
+ * 2. 创建观察列表
+ *
+ * @route GET /api/watchlists
+ * @route POST /api/watchlists
+ */
+
+import { NextResponse } from 'next/server';
+import { listWatchlists, createWatchlist } from '@/app/lib/user-labels';
+import { validateWatchlistInput } from '@/app/lib/validation';
+
+/**
+ * 错误响应接口
+ */
+interface ErrorResponse {
+    error: string;
+    details?: unknown;
+}
+
+/**
+ * GET 请求处理函数
+ *
+ * @returns 所有观察列表
+ *
+ * @example
+ * GET /api/watchlists
+ * Response: { "watchlists": [{ "id": "...", "name": "Known ruggers", "addresses": ["..."] }] }
+ */
+export async function GET() {
+    const watchlists = await listWatchlists();
+    return NextResponse.json({ watchlists });
+}
+
+/**
+ * POST 请求处理函数
+ *
+ * @returns 新建的观察列表（201 Created）
+ *
+ * @example
+ * POST /api/watchlists
+ * Body: { "name": "Known ruggers", "addresses": ["..."] }
+ */
+export async function POST(request: Request) {
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json<ErrorResponse>(
+            { error: 'Invalid JSON body' },
+            { status: 400 }
+        );
+    }
+
+    const validation = validateWatchlistInput(body, false);
+    if (!validation.ok) {
+        return NextResponse.json<ErrorResponse>(
+            { error: 'Invalid watchlist', details: validation.error },
+            { status: 400 }
+        );
+    }
+
+    const { name = '', addresses = [] } = validation.value;
+    const watchlist = await createWatchlist(name, addresses);
+    return NextResponse.json(watchlist, { status: 201 });
+}
@@ -0,0 +1,256 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { ENTITY_CATEGORY_NAMES, isExchangeNodeId } from '../lib/entities';
+import { buildAddressDetail } from '../lib/address-detail';
+import type { AddressDetail, AnalysisResult, TimelineEntry } from '@/types';
+
+interface Props {
+    address: string | null;
+    data: AnalysisResult;
+    onClose: () => void;
+}
+
+// 时间线方向对应的文字与颜色
+const DIRECTION_STYLES: Record<TimelineEntry['direction'], { label: string; className: string }> = {
+    in: { label: 'IN', className: 'text-green-600' },
+    out: { label: 'OUT', className: 'text-red-600' },
+    indirect: { label: 'HOP', className: 'text-gray-500' }
+};
+
+// 格式化金额
+const formatAmount = (amount: number) =>
+    amount.toLocaleString(undefined, { maximumFractionDigits: 4 });
+
+export default function AddressDrawer({ address, data, onClose }: Props) {
+    const [liveDetail, setLiveDetail] = useState<AddressDetail | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // 切换地址时清除实时查询结果
+    useEffect(() => {
+        setLiveDetail(null);
+        setError(null);
+    }, [address]);
+
+    // 按 Esc 关闭
+    useEffect(() => {
+        if (!address) return;
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.key === 'Escape') onClose();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [address, onClose]);
+
+    const analysisDetail = useMemo(
+        () => address ? buildAddressDetail(address, data) : null,
+        [address, data]
+    );
+
+    if (!address || !analysisDetail) return null;
+
+    const detail = liveDetail ?? analysisDetail;
+
+    // 获取地址显示名称：自定义标签 > 实体名称 > 缩略地址
+    const getName = (addr: string) =>
+        detail.userLabels[addr]?.label
+        ?? detail.labels[addr]?.name
+        ?? `${addr.substring(0, 4)}...${addr.substring(addr.length - 4)}`;
+
+    // 实时查询地址一跳的转账（超出分析深度的地址在分析结果中没有交易记录）
+    const handleLoadLive = async () => {
+        try {
+            setLoading(true);
+            setError(null);
+            const query = new URLSearchParams({
+                minAmount: String(data.parameters.minAmount),
+                direction: data.parameters.direction,
+                exchangeMode: data.parameters.exchangeMode
+            });
+            const response = await fetch(`/api/address/${address}?${query.toString()}`);
+            const body = await response.json();
+            if (!response.ok) throw new Error(body.error || 'Failed to load transfers');
+            setLiveDetail(body as AddressDetail);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to load transfers');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const entity = detail.labels[address];
+    const userLabel = detail.userLabels[address];
+    const watchlists = detail.watchlists[address];
+
+    return (
+        <div className="fixed inset-0 z-40 flex justify-end">
+            <div className="absolute inset-0 bg-black/30" onClick={onClose} />
+            <aside className="relative w-full max-w-xl h-full overflow-y-auto bg-white shadow-xl p-6 space-y-6 text-sm">
+                <div className="flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                        <h3 className="text-lg font-medium text-gray-900">{getName(address)}</h3>
+                        <p className="font-mono text-xs text-gray-500 break-all">{address}</p>
+                        <div className="mt-2 flex flex-wrap gap-1">
+                            {entity && (
+                                <span className="px-1 rounded bg-gray-100 text-xs text-gray-600">
+                                    {entity.name} ({ENTITY_CATEGORY_NAMES[entity.category]})
+                                </span>
+                            )}
+                            {userLabel && (
+                                <span className="px-1 rounded bg-blue-100 text-xs text-blue-700" title={userLabel.note}>
+                                    {userLabel.label}
+                                </span>
+                            )}
+                            {watchlists && (
+                                <span className="px-1 rounded bg-yellow-200 text-xs text-yellow-800">
+                                    ★ {watchlists.join(', ')}
+                                </span>
+                            )}
+                        </div>
+                    </div>
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        className="px-2 py-1 border rounded text-gray-700 hover:bg-gray-100"
+                    >
+                        Close
+                    </button>
+                </div>
+
+                {/* 持仓与转入/转出总额 */}
+                <div className="grid grid-cols-3 gap-4">
+                    <div>
+                        <div className="text-xs text-gray-500">Holdings</div>
+                        <div className="text-gray-900">
+                            {detail.holder ? `${(detail.holder.pctOfSupply * 100).toFixed(2)}%` : '-'}
+                        </div>
+                    </div>
+                    <div>
+                        <div className="text-xs text-gray-500">Total in</div>
+                        <div className="text-green-600">{formatAmount(detail.totalInAmount)}</div>
+                    </div>
+                    <div>
+                        <div className="text-xs text-gray-500">Total out</div>
+                        <div className="text-red-600">{formatAmount(detail.totalOutAmount)}</div>
+                    </div>
+                </div>
+                {detail.assetTotals.length > 0 && (
+                    <table className="w-full text-xs">
+                        <thead>
+                            <tr className="text-left text-gray-500">
+                                <th className="py-1">Asset</th>
+                                <th className="py-1">In</th>
+                                <th className="py-1">Out</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {detail.assetTotals.map(total => (
+                                <tr key={total.asset}>
+                                    <td className="py-1 text-gray-700">{total.asset}</td>
+                                    <td className="py-1 text-green-600">{formatAmount(total.in)}</td>
+                                    <td className="py-1 text-red-600">{formatAmount(total.out)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+
+                {/* 区块浏览器链接 */}
+                {detail.explorerLinks.length > 0 && (
+                    <div className="flex flex-wrap gap-3">
+                        {detail.explorerLinks.map(link => (
+                            <a
+                                key={link.name}
+                                href={link.url}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-blue-600 hover:underline"
+                            >
+                                {link.name}
+                            </a>
+                        ))}
+                    </div>
+                )}
+
+                {/* 交易时间线 */}
+                <div>
+                    <div className="flex items-center justify-between">
+                        <h4 className="font-medium text-gray-900">
+                            Timeline ({detail.timeline.length})
+                            {liveDetail && <span className="ml-1 text-xs font-normal text-gray-500">live</span>}
+                        </h4>
+                        {!liveDetail && !isExchangeNodeId(address) && (
+                            <button
+                                type="button"
+                                onClick={handleLoadLive}
+                                disabled={loading}
+                                className="text-xs text-blue-600 hover:underline disabled:opacity-50"
+                            >
+                                {loading ? 'Loading...' : 'Load live transfers'}
+                            </button>
+                        )}
+                    </div>
+                    {error && <p className="mt-2 text-red-600">{error}</p>}
+                    {detail.timeline.length === 0 ? (
+                        <p className="mt-2 text-gray-500">No transfers recorded for this address.</p>
+                    ) : (
+                        <ol className="mt-2 space-y-2">
+                            {detail.timeline.map(entry => {
+                                const style = DIRECTION_STYLES[entry.direction];
+                                const counterparty = entry.counterparty;
+                                const counterpartyEntity = counterparty ? detail.labels[counterparty] : undefined;
+                                return (
+                                    <li
+                                        key={`${entry.from}-${entry.to}-${entry.timestamp}-${entry.amount}-${entry.asset}-${entry.type}`}
+                                        className="flex items-baseline gap-3 border-b border-gray-100 pb-2"
+                                    >
+                                        <span className="w-32 shrink-0 text-xs text-gray-500">
+                                            {new Date(entry.timestamp * 1000).toLocaleString()}
+                                        </span>
+                                        <span className={`w-10 shrink-0 text-xs font-medium ${style.className}`}>{style.label}</span>
+                                        <span className="w-28 shrink-0 text-gray-900">
+                                            {formatAmount(entry.amount)} <span className="text-xs text-gray-500">{entry.asset}</span>
+                                        </span>
+                                        <span className="min-w-0 truncate text-gray-700">
+                                            {counterparty ? (
+                                                <>
+                                                    {entry.direction === 'in' ? 'from ' : 'to '}
+                                                    {isExchangeNodeId(counterparty) ? (
+                                                        <span title={counterparty}>{getName(counterparty)}</span>
+                                                    ) : (
+                                                        <a
+                                                            href={`https://solscan.io/address/${counterparty}`}
+                                                            target="_blank"
+                                                            rel="noopener noreferrer"
+                                                            className="hover:text-blue-600"
+                                                            title={counterparty}
+                                                        >
+                                                            {getName(counterparty)}
+                                                        </a>
+                                                    )}
+                                                    {counterpartyEntity && (
+                                                        <span className="ml-1 text-xs text-gray-500">
+                                                            {ENTITY_CATEGORY_NAMES[counterpartyEntity.category]}
+                                                        </span>
+                                                    )}
+                                                </>
+                                            ) : (
+                                                <span title={`${entry.from} → ${entry.to}`}>
+                                                    {getName(entry.from)} → {getName(entry.to)}
+                                                </span>
+                                            )}
+                                            {entry.type === 'token' && (
+                                                <span className="ml-1 text-xs text-purple-600">token</span>
+                                            )}
+                                        </span>
+                                    </li>
+                                );
+                            })}
+                        </ol>
+                    )}
+                </div>
+            </aside>
+        </div>
+    );
+}
@@ -1,35 +1,124 @@
 'use client';
 
 import { useState } from 'react';
+import { DEFAULT_ANALYSIS_PARAMETERS, PARAMETER_LIMITS } from '../lib/validation';
+import type { AnalysisParameters, ExchangeMode, FlowDirection } from '@/types';
 
 interface Props {
-    onSubmit: (address: string) => Promise<void>;
+    onSubmit: (address: string, parameters: AnalysisParameters) => Promise<void>;
 }
 
 export default function AddressInput({ onSubmit }: Props) {
     const [address, setAddress] = useState('');
+    const [showAdvanced, setShowAdvanced] = useState(false);
+    const [parameters, setParameters] = useState<AnalysisParameters>(DEFAULT_ANALYSIS_PARAMETERS);
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         if (!address.trim()) return;
-        await onSubmit(address);
+        await onSubmit(address, parameters);
+    };
+
+    // 更新单个参数
+    const updateParameter = <K extends keyof AnalysisParameters>(key: K, value: AnalysisParameters[K]) => {
+        setParameters(prev => ({ ...prev, [key]: value }));
     };
 
     return (
-        <form onSubmit={handleSubmit} className="flex gap-4 items-center">
-            <input
-                type="text"
-                value={address}
-                onChange={(e) => setAddress(e.target.value)}
-                placeholder="Enter token address"
-                className="flex-1 p-2 border rounded"
-            />
-            <button
-                type="submit"
-                className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
-            >
-                Analyze
-            </button>
+        <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="flex gap-4 items-center">
+                <input
+                    type="text"
+                    value={address}
+                    onChange={(e) => setAddress(e.target.value)}
+                    placeholder="Enter token address"
+                    className="flex-1 p-2 border rounded"
+                />
+                <button
+                    type="button"
+                    onClick={() => setShowAdvanced(!showAdvanced)}
+                    className="px-4 py-2 border rounded text-gray-700 hover:bg-gray-100"
+                >
+                    Advanced
+                </button>
+                <button
+                    type="submit"
+                    className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
+                >
+                    Analyze
+                </button>
+            </div>
+
+            {/* 高级参数 */}
+            {showAdvanced && (
+                <div className="grid grid-cols-2 md:grid-cols-6 gap-4 p-4 bg-gray-50 rounded text-sm">
+                    <label className="flex flex-col gap-1">
+                        <span className="text-gray-600">Top N holders</span>
+                        <input
+                            type="number"
+                            min={PARAMETER_LIMITS.topN.min}
+                            max={PARAMETER_LIMITS.topN.max}
+                            value={parameters.topN}
+                            onChange={(e) => updateParameter('topN', Number(e.target.value))}
+                            className="p-2 border rounded"
+                        />
+                    </label>
+                    <label className="flex flex-col gap-1">
+                        <span className="text-gray-600">Max depth</span>
+                        <input
+                            type="number"
+                            min={PARAMETER_LIMITS.maxDepth.min}
+                            max={PARAMETER_LIMITS.maxDepth.max}
+                            value={parameters.maxDepth}
+                            onChange={(e) => updateParameter('maxDepth', Number(e.target.value))}
+                            className="p-2 border rounded"
+                        />
+                    </label>
+                    <label className="flex flex-col gap-1">
+                        <span className="text-gray-600">Min amount (SOL)</span>
+                        <input
+                            type="number"
+                            min={PARAMETER_LIMITS.minAmount.min}
+                            step="any"
+                            value={parameters.minAmount}
+                            onChange={(e) => updateParameter('minAmount', Number(e.target.value))}
+                            className="p-2 border rounded"
+                        />
+                    </label>
+                    <label className="flex flex-col gap-1">
+                        <span className="text-gray-600">Direction</span>
+                        <select
+                            value={parameters.direction}
+                            onChange={(e) => updateParameter('direction', e.target.value as FlowDirection)}
+                            className="p-2 border rounded"
+                        >
+                            <option value="both">In &amp; out</option>
+                            <option value="in">Incoming only</option>
+                            <option value="out">Outgoing only</option>
+                        </select>
+                    </label>
+                    <label className="flex flex-col gap-1">
+                        <span className="text-gray-600">Exchanges</span>
+                        <select
+                            value={parameters.exchangeMode}
+                            onChange={(e) => updateParameter('exchangeMode', e.target.value as ExchangeMode)}
+                            className="p-2 border rounded"
+                        >
+                            <option value="collapse">Collapse per exchange</option>
+                            <option value="exclude">Exclude</option>
+                            <option value="keep">Keep addresses</option>
+                        </select>
+                    </label>
+                    <label className="flex items-center gap-2 mt-6">
+                        <input
+                            type="checkbox"
+                            checked={parameters.traceTokenFlow}
+                            onChange={(e) => updateParameter('traceTokenFlow', e.target.checked)}
+                        />
+                        <span className="text-gray-600">Trace token transfers</span>
+                    </label>
+                </div>
+            )}
         </form>
     );
-}
\ No newline at end of file
+}
@@ -0,0 +1,294 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import HoldersTable from './HoldersTable';
+import Graph from './Graph';
+import LoadingOverlay from './LoadingOverlay';
+import CommonFundersPanel from './CommonFundersPanel';
+import HistoryPanel from './HistoryPanel';
+import ExportButtons from './ExportButtons';
+import AddressDrawer from './AddressDrawer';
+import { createInitialProgress } from '../lib/progress';
+import { buildAnalysisPath } from '../lib/permalink';
+import type {
+    AnalysisJob,
+    AnalysisParameters,
+    AnalysisProgress,
+    AnalysisResult,
+    AnalysisSnapshot,
+    SnapshotDiff
+} from '@/types';
+
+// 任务状态轮询间隔
+const POLL_INTERVAL = 2000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+interface Props {
+    tokenAddress: string;
+    parameters: AnalysisParameters;
+    result: AnalysisResult | null;
+    snapshotId: string | null;
+    analyzedAt: string | null;
+}
+
+export default function AnalysisView({ tokenAddress, parameters, result, snapshotId, analyzedAt }: Props) {
+    const router = useRouter();
+    const [loading, setLoading] = useState(false);
+    const [progress, setProgress] = useState<AnalysisProgress | null>(null);
+    const [data, setData] = useState<AnalysisResult | null>(result);
+    const [error, setError] = useState<string | null>(null);
+    const [jobId, setJobId] = useState<string | null>(null);
+    const [currentSnapshotId, setCurrentSnapshotId] = useState<string | null>(snapshotId);
+    const [diff, setDiff] = useState<SnapshotDiff | null>(null);
+    const [selectedAddress, setSelectedAddress] = useState<string | null>(null);
+    const autoStarted = useRef(false);
+
+    // retryFailed: 快照 ID，只重新查询该快照中失败的持有者
+    const runAnalysis = useCallback(async (retryFailed?: string) => {
+        try {
+            setLoading(true);
+            setError(null);
+            setProgress(createInitialProgress());
+
+            // 1. 提交分析任务
+            const response = await fetch('/api/analyze', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify(retryFailed
+                    ? { address: tokenAddress, retryFailed }
+                    : { address: tokenAddress, parameters }),
+            });
+
+            const submitted = await response.json();
+
+            if (!response.ok) {
+                throw new Error(submitted.error || 'Analysis failed');
+            }
+
+            setJobId(submitted.jobId);
+
+            // 2. 轮询任务状态直到结束
+            let job: AnalysisJob;
+            while (true) {
+                await sleep(POLL_INTERVAL);
+
+                const pollResponse = await fetch(`/api/analyze/${submitted.jobId}`);
+                const polled = await pollResponse.json();
+
+                if (!pollResponse.ok) {
+                    throw new Error(polled.error || 'Analysis failed');
+                }
+
+                job = polled as AnalysisJob;
+                setProgress(job.progress);
+
+                if (job.status !== 'pending' && job.status !== 'running') break;
+            }
+
+            if (job.status === 'cancelled') {
+                throw new Error('Analysis cancelled');
+            }
+            if (job.status === 'failed' || !job.result) {
+                throw new Error(job.error || 'Analysis failed');
+            }
+
+            setData(job.result);
+            setCurrentSnapshotId(job.snapshotId ?? null);
+            setDiff(null);
+
+            // 3. 跳转到新快照的链接，快照保存失败时只在当前页面展示结果
+            if (job.snapshotId) {
+                router.replace(buildAnalysisPath(tokenAddress, parameters, job.snapshotId));
+            }
+        } catch (err) {
+            console.error('Analysis failed:', err);
+            setError(err instanceof Error ? err.message : 'Analysis failed');
+        } finally {
+            setLoading(false);
+            setProgress(null);
+            setJobId(null);
+        }
+    }, [tokenAddress, parameters, router]);
+
+    // 没有已保存的结果时自动开始分析
+    useEffect(() => {
+        if (result || autoStarted.current) return;
+        autoStarted.current = true;
+        runAnalysis();
+    }, [result, runAnalysis]);
+
+    const handleCancel = async () => {
+        if (!jobId) return;
+        await fetch(`/api/analyze/${jobId}`, { method: 'DELETE' });
+    };
+
+    // 关联查询失败的持有者数（较早保存的快照没有该统计）
+    const failedHolders = data?.summary.completeness?.failed ?? 0;
+
+    // 查看历史快照
+    const handleSelectSnapshot = (snapshot: AnalysisSnapshot) => {
+        router.push(buildAnalysisPath(tokenAddress, snapshot.parameters, snapshot.id));
+    };
+
+    return (
+        <div className="space-y-6">
+            {/* 代币与分析参数 */}
+            <div className="bg-white shadow sm:rounded-lg">
+                <div className="px-4 py-5 sm:p-6 flex flex-wrap items-center justify-between gap-4">
+                    <div>
+                        <h2 className="text-lg font-medium text-gray-900 font-mono break-all">{tokenAddress}</h2>
+                        <p className="mt-1 text-xs text-gray-500">
+                            Top {parameters.topN}
+                            {' · '}Depth {parameters.maxDepth}
+                            {' · '}Min {parameters.minAmount} SOL
+                            {' · '}Direction: {parameters.direction}
+                            {' · '}Exchanges: {parameters.exchangeMode}
+                            {' · '}Token flow: {parameters.traceTokenFlow ? 'on' : 'off'}
+                            {analyzedAt && ` · Analyzed ${new Date(analyzedAt).toLocaleString()}`}
+                        </p>
+                    </div>
+                    <div className="flex gap-2">
+                        <Link
+                            href="/"
+                            className="px-4 py-2 border rounded text-gray-700 hover:bg-gray-100"
+                        >
+                            New analysis
+                        </Link>
+                        {failedHolders > 0 && currentSnapshotId && (
+                            <button
+                                type="button"
+                                onClick={() => runAnalysis(currentSnapshotId)}
+                                disabled={loading}
+                                className="px-4 py-2 border border-red-300 rounded text-red-700 hover:bg-red-50 disabled:opacity-50"
+                            >
+                                Retry failed ({failedHolders})
+                            </button>
+                        )}
+                        <button
+                            type="button"
+                            onClick={() => runAnalysis()}
+                            disabled={loading}
+                            className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+                        >
+                            Re-run
+                        </button>
+                    </div>
+                </div>
+            </div>
+
+            {/* 错误提示 */}
+            {error && (
+                <div className="bg-red-50 border-l-4 border-red-400 p-4">
+                    <div className="flex">
+                        <div className="flex-shrink-0">
+                            <svg
+                                className="h-5 w-5 text-red-400"
+                                viewBox="0 0 20 20"
+                                fill="currentColor"
+                            >
+                                <path
+                                    fillRule="evenodd"
+                                    d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z"
+                                    clipRule="evenodd"
+                                />
+                            </svg>
+                        </div>
+                        <div className="ml-3">
+                            <p className="text-sm text-red-700">{error}</p>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {/* 加载状态 */}
+            {loading && <LoadingOverlay progress={progress} onCancel={jobId ? handleCancel : undefined} />}
+
+            {/* 分析结果 */}
+            {data && (
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                    <div className="bg-white shadow sm:rounded-lg">
+                        <div className="px-4 py-5 sm:p-6">
+                            <div className="flex items-center justify-between">
+                                <h3 className="text-lg font-medium text-gray-900">
+                                    Top Holders
+                                </h3>
+                                <span className="text-xs text-gray-500">
+                                    Source: {data.holderSource}
+                                    {' · '}API calls: {data.summary.apiCallCount}
+                                    {' · '}Cache: {data.summary.cacheHits} hit / {data.summary.cacheMisses} miss
+                                    {data.summary.budgetExhausted && ' · Call budget exhausted'}
+                                    {data.summary.completeness && data.summary.completeness.ratio < 1 && (
+                                        ` · ${data.summary.completeness.complete}/${data.summary.totalHolders} holders complete`
+                                    )}
+                                </span>
+                            </div>
+                            <div className="mt-1 text-xs text-gray-500">
+                                <span>
+                                    {data.summary.exchangeEdgesRemoved > 0 && `${data.summary.exchangeEdgesRemoved} exchange edges removed · `}
+                                    {data.summary.exchangeEdgesCollapsed > 0 && `${data.summary.exchangeEdgesCollapsed} exchange edges collapsed · `}
+                                    {data.parameters.traceTokenFlow && `${data.summary.totalTokenTransfers} token transfers`}
+                                </span>
+                            </div>
+                            <div className="mt-4">
+                                <HoldersTable data={data} diff={diff} onSelectAddress={setSelectedAddress} />
+                            </div>
+                        </div>
+                    </div>
+                    <div className="bg-white shadow sm:rounded-lg">
+                        <div className="px-4 py-5 sm:p-6">
+                            <h3 className="text-lg font-medium text-gray-900">
+                                Relationship Graph
+                            </h3>
+                            <div className="mt-4 h-[600px]">
+                                <Graph data={data} onSelectNode={setSelectedAddress} />
+                            </div>
+                        </div>
+                    </div>
+                    <div className="bg-white shadow sm:rounded-lg lg:col-span-2">
+                        <div className="px-4 py-5 sm:p-6">
+                            <h3 className="text-lg font-medium text-gray-900">
+                                Common Funders
+                            </h3>
+                            <div className="mt-4">
+                                <CommonFundersPanel data={data} />
+                            </div>
+                        </div>
+                    </div>
+                    <div className="bg-white shadow sm:rounded-lg lg:col-span-2">
+                        <div className="px-4 py-5 sm:p-6">
+                            <div className="flex flex-wrap items-center justify-between gap-2">
+                                <h3 className="text-lg font-medium text-gray-900">
+                                    History
+                                </h3>
+                                <ExportButtons tokenAddress={tokenAddress} snapshotId={currentSnapshotId} />
+                            </div>
+                            <div className="mt-4">
+                                <HistoryPanel
+                                    tokenAddress={tokenAddress}
+                                    snapshotId={currentSnapshotId}
+                                    diff={diff}
+                                    onSelect={handleSelectSnapshot}
+                                    onDiff={setDiff}
+                                />
+                            </div>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {/* 地址详情 */}
+            {data && (
+                <AddressDrawer
+                    address={selectedAddress}
+                    data={data}
+                    onClose={() => setSelectedAddress(null)}
+                />
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,84 @@
+'use client';
+
+import { AnalysisResult } from '@/types';
+
+interface Props {
+    data: AnalysisResult;
+}
+
+export default function CommonFundersPanel({ data }: Props) {
+    const funders = data.commonFunders ?? [];
+
+    // 获取缩略地址
+    const getShortAddress = (address: string) => {
+        return address ? `${address.substring(0, 4)}...${address.substring(address.length - 4)}` : '-';
+    };
+
+    // 格式化时间跨度
+    const formatSpread = (seconds: number) => {
+        if (seconds < 60) return `${seconds}s`;
+        if (seconds < 3600) return `${Math.round(seconds / 60)}m`;
+        if (seconds < 86400) return `${(seconds / 3600).toFixed(1)}h`;
+        return `${(seconds / 86400).toFixed(1)}d`;
+    };
+
+    // 格式化按资产统计的金额
+    const formatAmounts = (amounts: { [asset: string]: number }) => {
+        return Object.entries(amounts)
+            .map(([asset, amount]) => `${amount.toFixed(2)} ${asset}`)
+            .join(' + ');
+    };
+
+    if (funders.length === 0) {
+        return (
+            <p className="text-sm text-gray-500">
+                No wallet funded more than one top holder.
+            </p>
+        );
+    }
+
+    return (
+        <div className="space-y-4">
+            {funders.map(funder => (
+                <div key={funder.funder} className="border border-gray-200 rounded-lg p-4">
+                    <div className="flex items-center justify-between">
+                        <a
+                            href={`https://solscan.io/address/${funder.funder}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-sm font-medium text-gray-900 hover:text-blue-600"
+                            title={funder.funder}
+                        >
+                            {getShortAddress(funder.funder)}
+                        </a>
+                        <span className="text-xs text-gray-500">
+                            {funder.holders.length} holders
+                            {' · '}{formatAmounts(funder.totalAmounts)}
+                            {' · '}within {formatSpread(funder.timeSpread)}
+                            {' · '}{(funder.totalPct * 100).toFixed(2)}% of supply
+                        </span>
+                    </div>
+                    <ul className="mt-2 space-y-1">
+                        {funder.holders.map(holder => (
+                            <li key={holder.address} className="flex justify-between text-xs text-gray-700">
+                                <a
+                                    href={`https://solscan.io/address/${holder.address}`}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="hover:text-blue-600"
+                                    title={holder.address}
+                                >
+                                    {getShortAddress(holder.address)}
+                                </a>
+                                <span>
+                                    {formatAmounts(holder.amounts)}
+                                    {' · '}{new Date(holder.firstFundedAt * 1000).toLocaleString()}
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            ))}
+        </div>
+    );
+}
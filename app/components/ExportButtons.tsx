@@ -0,0 +1,40 @@
+'use client';
+
+interface Props {
+    tokenAddress: string;
+    snapshotId: string | null;
+}
+
+// 导出格式与按钮文字
+const EXPORTS: { format: string; label: string }[] = [
+    { format: 'holders-csv', label: 'Holders CSV' },
+    { format: 'transactions-csv', label: 'Transactions CSV' },
+    { format: 'json', label: 'JSON' },
+    { format: 'graphml', label: 'GraphML' },
+    { format: 'gexf', label: 'GEXF' }
+];
+
+export default function ExportButtons({ tokenAddress, snapshotId }: Props) {
+    // 导出基于已保存的快照，快照保存失败时无法导出
+    if (!snapshotId) {
+        return <span className="text-xs text-gray-400">Export unavailable (snapshot not saved)</span>;
+    }
+
+    const baseUrl = `/api/snapshots/${encodeURIComponent(tokenAddress)}/${encodeURIComponent(snapshotId)}/export`;
+
+    return (
+        <div className="flex flex-wrap items-center gap-2">
+            <span className="text-xs text-gray-500">Export:</span>
+            {EXPORTS.map(({ format, label }) => (
+                <a
+                    key={format}
+                    href={`${baseUrl}?format=${format}`}
+                    download
+                    className="px-2 py-1 text-xs border border-gray-300 rounded text-gray-700 hover:bg-gray-100"
+                >
+                    {label}
+                </a>
+            ))}
+        </div>
+    );
+}
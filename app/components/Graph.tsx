@@ -1,11 +1,14 @@
 'use client';
 
-import { useEffect, useRef } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import * as d3 from 'd3';
-import { AnalysisResult } from '@/types';
+import { AddressRelations, AnalysisResult, EntityLabel, RelationStatusKind } from '@/types';
+import { ENTITY_CATEGORY_NAMES, isExchangeNodeId } from '../lib/entities';
+import { buildAnalysisGraph, getEdgeKey, GraphNode, GraphSource } from '../lib/graph';
 
 interface Props {
     data: AnalysisResult;
+    onSelectNode?: (address: string) => void;
 }
 
 interface Node extends d3.SimulationNodeDatum {
@@ -13,13 +16,21 @@ interface Node extends d3.SimulationNodeDatum {
     label: string;
     type: 'holder' | 'related';
     value: number;
+    entity?: EntityLabel;
+    userLabel?: GraphNode['userLabel'];
+    watchlists?: string[];
+    expanded?: boolean;
+    loading?: boolean;
+    expandError?: string;
 }
 
 interface Link {
-    source: string;
-    target: string;
+    key: string;
+    source: string | Node;
+    target: string | Node;
     value: number;
-    type: 'in' | 'out';
+    type: 'in' | 'out' | 'token';
+    asset: string;
 }
 
 interface GraphData {
@@ -27,127 +38,90 @@ interface GraphData {
     links: Link[];
 }
 
+// 观察列表中地址的节点描边颜色
+const WATCHLIST_STROKE = '#f59e0b';
+
+// 持有者节点颜色：关联查询完整、不完整（部分查询失败或预算耗尽）、失败
+const HOLDER_STATUS_FILLS: Record<RelationStatusKind, string> = {
+    complete: '#90EE90',
+    partial: '#F7DC6F',
+    failed: '#F1948A'
+};
+
+// 连接线颜色：SOL 转入、SOL 转出、被分析代币转账
+const LINK_COLORS: Record<Link['type'], string> = {
+    in: '#28a745',
+    out: '#dc3545',
+    token: '#6f42c1'
+};
+
+// 转义用户输入，避免注入提示框 HTML
+const escapeHtml = (text: string) =>
+    text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
 interface Group {
+    id: string;
     nodes: Node[];
     totalHolding: number;
 }
 
-export default function Graph({ data }: Props) {
-    const svgRef = useRef<SVGSVGElement>(null);
+// 按需展开时新增的节点与连接线
+interface Expansion {
+    nodeIds: string[];
+    linkKeys: string[];
+}
 
-    // 转换数据为D3可用格式
-    const transformDataForD3 = (analysisData: AnalysisResult): GraphData => {
-        const nodes = new Map<string, Node>();
-        const links: Link[] = [];
-
-        // 添加持有者节点
-        analysisData.topHolders.forEach(holder => {
-            nodes.set(holder.holder_address, {
-                id: holder.holder_address,
-                label: holder.holder_address.substring(0, 4),
-                type: 'holder',
-                value: 20
-            });
-        });
+// 连接线端点的地址（力导向图初始化后端点会被替换为节点对象）
+const endpointId = (endpoint: string | Node) =>
+    typeof endpoint === 'string' ? endpoint : endpoint.id;
 
-        // 处理关联地址和交易
-        Object.entries(analysisData.relatedAddresses).forEach(([holderAddress, holderData]) => {
-            if (holderData.transactions.length === 0) return;
-
-            // 添加关联地址节点
-            const addresses = new Set([
-                ...holderData.incomingAddresses,
-                ...holderData.outgoingAddresses
-            ]);
-
-            addresses.forEach(addr => {
-                if (!nodes.has(addr)) {
-                    nodes.set(addr, {
-                        id: addr,
-                        label: addr.substring(0, 4),
-                        type: 'related',
-                        value: 10
-                    });
-                }
-            });
+export default function Graph({ data, onSelectNode }: Props) {
+    const svgRef = useRef<SVGSVGElement>(null);
+    // 最近一次展开失败的节点与原因
+    const [expandError, setExpandError] = useState<{ address: string; message: string } | null>(null);
 
-            // 添加交易连接
-            holderData.transactions.forEach(tx => {
-                links.push({
-                    source: tx.from,
-                    target: tx.to,
-                    value: tx.amount,
-                    type: tx.type
-                });
-            });
-        });
+    // 保存最新的回调，避免回调变化时重建图形、丢失布局
+    const onSelectNodeRef = useRef(onSelectNode);
+    useEffect(() => {
+        onSelectNodeRef.current = onSelectNode;
+    }, [onSelectNode]);
+
+    // 转换数据为D3可用格式（节点与边与 GraphML / GEXF 导出一致）
+    const transformDataForD3 = (analysisData: GraphSource): GraphData => {
+        const { nodes, edges } = buildAnalysisGraph(analysisData);
 
         return {
-            nodes: Array.from(nodes.values()),
-            links
+            nodes: nodes.map(node => ({
+                id: node.id,
+                label: node.label,
+                type: node.type,
+                value: node.type === 'holder' ? 20 : 10,
+                entity: node.entity,
+                userLabel: node.userLabel,
+                watchlists: node.watchlists
+            })),
+            links: edges.map(edge => ({
+                key: getEdgeKey(edge),
+                source: edge.source,
+                target: edge.target,
+                value: edge.amount,
+                type: edge.type,
+                asset: edge.asset
+            }))
         };
     };
 
-    // 找出相互关联的持有者群组
-    const findHolderGroups = (graphData: GraphData): Group[] => {
-        const groups: Group[] = [];
-        const visited = new Set<string>();
-
-        // 构建邻接表
-        const adjacencyList = new Map<string, Set<string>>();
-        graphData.links.forEach(link => {
-            if (!adjacencyList.has(link.source)) {
-                adjacencyList.set(link.source, new Set());
-            }
-            if (!adjacencyList.has(link.target)) {
-                adjacencyList.set(link.target, new Set());
-            }
-            adjacencyList.get(link.source)!.add(link.target);
-            adjacencyList.get(link.target)!.add(link.source);
-        });
-
-        // DFS 查找连通分量
-        const dfs = (nodeId: string, group: Set<string>) => {
-            visited.add(nodeId);
-            group.add(nodeId);
-
-            const neighbors = adjacencyList.get(nodeId) || new Set();
-            neighbors.forEach(neighbor => {
-                if (!visited.has(neighbor)) {
-                    dfs(neighbor, group);
-                }
-            });
-        };
-
-        // 遍历所有持有者节点
-        const holderNodes = graphData.nodes.filter(node => node.type === 'holder');
-        holderNodes.forEach(holder => {
-            if (!visited.has(holder.id)) {
-                const group = new Set<string>();
-                dfs(holder.id, group);
-
-                // 只保留持有者节点
-                const holdersInGroup = Array.from(group)
-                    .map(id => graphData.nodes.find(n => n.id === id))
-                    .filter(node => node && node.type === 'holder') as Node[];
-
-                // 如果群组中的持有者数量大于等于2，则添加到结果中
-                if (holdersInGroup.length >= 2) {
-                    // 计算群组总持仓比例
-                    const totalHolding = holdersInGroup.reduce((sum, node) => {
-                        const holder = data.topHolders.find(h => h.holder_address === node.id);
-                        return sum + (holder ? parseFloat(holder.holder_pct_of_supply) : 0);
-                    }, 0);
-
-                    groups.push({
-                        nodes: holdersInGroup,
-                        totalHolding
-                    });
-                }
-            }
-        });
-
-        return groups;
+    // 将分析结果中的持有者群组映射到图中的节点
+    const buildGroups = (graphData: GraphData, analysisData: AnalysisResult): Group[] => {
+        const nodeMap = new Map(graphData.nodes.map(node => [node.id, node]));
+
+        return (analysisData.clusters ?? []).map(cluster => ({
+            id: cluster.id,
+            nodes: [...cluster.holders, ...cluster.connectors]
+                .map(id => nodeMap.get(id))
+                .filter((node): node is Node => node !== undefined),
+            totalHolding: cluster.totalPct
+        }));
     };
 
     useEffect(() => {
@@ -175,13 +149,23 @@ export default function Graph({ data }: Props) {
 
         // 转换数据
         const graphData = transformDataForD3(data);
-        const groups = findHolderGroups(graphData);  // 提前计算群组
+        const groups = buildGroups(graphData, data);  // 提前计算群组
+
+        // 当前图中的节点与连接线，展开/收起节点时增量更新
+        let nodes = graphData.nodes;
+        let links = graphData.links;
+        const nodeById = new Map(nodes.map(n => [n.id, n]));
+        const linkKeys = new Set(links.map(l => l.key));
+        const baseNodeIds = new Set(nodeById.keys());
+        const expansions = new Map<string, Expansion>();
+        let disposed = false;
 
         // 创建力导向图
-        const simulation = d3.forceSimulation<Node>(graphData.nodes)
-            .force('link', d3.forceLink<Node, Link>(graphData.links)
-                .id(d => d.id)
-                .distance(50))  // 增加连接距离
+        const linkForce = d3.forceLink<Node, Link>(links)
+            .id(d => d.id)
+            .distance(50);  // 增加连接距离
+        const simulation = d3.forceSimulation<Node>(nodes)
+            .force('link', linkForce)
             .force('charge', d3.forceManyBody()
                 .strength(-150)  // 增加排斥力
                 .distanceMin(20) // 增加最小距离
@@ -199,41 +183,223 @@ export default function Graph({ data }: Props) {
             .alphaDecay(0.02)  // 保持默认衰减率
             .velocityDecay(0.4); // 增加速度衰减，使运动更平滑
 
-        // 创建连接线
-        const link = g.append('g')
-            .selectAll('line')
-            .data(graphData.links)
-            .join('line')
-            .attr('class', 'link')
-            .attr('stroke', d => d.type === 'in' ? '#28a745' : '#dc3545')
-            .attr('stroke-width', d => Math.log(d.value + 1) / 2)
-            .attr('stroke-opacity', 0.6);
-
-        // 创建节点组
-        const node = g.append('g')
-            .selectAll('g')
-            .data(graphData.nodes)
-            .join('g')
-            .call(d3.drag<SVGGElement, Node>()
-                .on('start', dragstarted)
-                .on('drag', dragged)
-                .on('end', dragended) as any);
-
-        // 添加节点圆圈
-        node.append('circle')
-            .attr('r', d => d.value)
-            .attr('fill', d => d.type === 'holder' ? '#90EE90' : '#ADD8E6');
-
-        // 添加节点文本
-        node.append('text')
-            .text(d => d.label)
-            .attr('x', 12)
-            .attr('y', 4)
-            .attr('font-size', '8px');
+        // 连接线与节点容器
+        const linkLayer = g.append('g');
+        const nodeLayer = g.append('g');
+        let link = linkLayer.selectAll<SVGLineElement, Link>('line');
+        let node = nodeLayer.selectAll<SVGGElement, Node>('g');
+
+        const drag = d3.drag<SVGGElement, Node>()
+            .on('start', dragstarted)
+            .on('drag', dragged)
+            .on('end', dragended);
 
         // 创建一个群组容器
         const groupContainer = g.append('g').attr('class', 'groups');
 
+        // 提示框
+        const tooltip = d3.select('body')
+            .append('div')
+            .attr('class', 'tooltip')
+            .style('position', 'absolute')
+            .style('visibility', 'hidden')
+            .style('background-color', 'rgba(0, 0, 0, 0.8)')
+            .style('color', 'white')
+            .style('padding', '8px')
+            .style('border-radius', '4px')
+            .style('font-size', '12px');
+
+        // 关联地址可以展开一跳邻居；合并后的交易所节点不是真实地址，不能展开
+        const isExpandable = (d: Node) => d.type === 'related' && !isExchangeNodeId(d.id);
+
+        // 按当前节点与连接线更新图形，已有节点保持位置不变
+        const render = () => {
+            link = linkLayer.selectAll<SVGLineElement, Link>('line')
+                .data(links, d => d.key)
+                .join(enter => {
+                    const line = enter.append('line')
+                        .attr('class', 'link')
+                        .attr('stroke', d => LINK_COLORS[d.type])
+                        .attr('stroke-width', d => d.type === 'token' ? 1.5 : Math.log(d.value + 1) / 2)
+                        .attr('stroke-dasharray', d => d.type === 'token' ? '4,2' : null);
+
+                    // 连接线悬停显示转账金额与资产
+                    line.append('title')
+                        .text(d => `${d.value.toFixed(2)} ${d.asset}`)
+                        .attr('stroke-opacity', 0.6);
+                    return line;
+                });
+
+            node = nodeLayer.selectAll<SVGGElement, Node>('g')
+                .data(nodes, d => d.id)
+                .join(enter => {
+                    const group = enter.append('g').call(drag);
+
+                    // 添加节点圆圈
+                    group.append('circle')
+                        .attr('r', d => d.value)
+                        .attr('stroke', d => d.watchlists ? WATCHLIST_STROKE : d.entity ? '#6c757d' : null)
+                        .attr('stroke-width', d => d.watchlists ? 4 : d.entity ? 2 : 0);
+
+                    // 添加节点文本
+                    group.append('text')
+                        .text(d => d.label)
+                        .attr('x', 12)
+                        .attr('y', 4)
+                        .attr('font-size', '8px');
+                    return group;
+                });
+
+            // 关联数据不完整的持有者与已展开的节点使用不同颜色
+            node.select('circle')
+                .attr('fill', d => d.type === 'holder'
+                    ? HOLDER_STATUS_FILLS[data.holderStatus?.[d.id]?.status ?? 'complete']
+                    : d.expanded ? '#5DADE2' : '#ADD8E6')
+                .attr('opacity', d => d.loading ? 0.5 : 1)
+                .style('cursor', 'pointer');
+
+            node
+                .on('mouseover', (event, d) => {
+                    const nodeGroup = groups.find(g => g.nodes.some(n => n.id === d.id));
+                    let tooltipContent = `Address: ${d.id}<br/>Type: ${d.type}`;
+                    if (d.entity) {
+                        tooltipContent += `<br/>Label: ${d.entity.name} (${ENTITY_CATEGORY_NAMES[d.entity.category]})`;
+                    }
+                    if (d.userLabel) {
+                        tooltipContent += `<br/>My label: ${escapeHtml(d.userLabel.label)}${d.userLabel.note ? ` - ${escapeHtml(d.userLabel.note)}` : ''}`;
+                    }
+                    if (d.watchlists) {
+                        tooltipContent += `<br/>Watchlists: ${escapeHtml(d.watchlists.join(', '))}`;
+                    }
+                    const status = d.type === 'holder' ? data.holderStatus?.[d.id] : undefined;
+                    if (status && status.status !== 'complete') {
+                        tooltipContent += `<br/>Data: ${status.status} (${status.callsAttempted} calls)`;
+                        if (status.reason) {
+                            tooltipContent += ` - ${escapeHtml(status.reason)}`;
+                        }
+                    }
+                    if (nodeGroup) {
+                        tooltipContent += `<br/>Group Holding: ${(nodeGroup.totalHolding * 100).toFixed(2)}%`;
+                    }
+                    if (isExpandable(d)) {
+                        if (d.expandError && !d.loading) {
+                            tooltipContent += `<br/>Expand failed: ${escapeHtml(d.expandError)}`;
+                        }
+                        tooltipContent += `<br/><i>${d.loading ? 'Loading neighbours...' : d.expanded ? 'Click to collapse' : d.expandError ? 'Click to retry' : 'Click to expand neighbours'}</i>`;
+                    }
+
+                    tooltip
+                        .style('visibility', 'visible')
+                        .html(tooltipContent)
+                        .style('left', (event.pageX + 10) + 'px')
+                        .style('top', (event.pageY - 10) + 'px');
+                })
+                .on('mouseout', () => {
+                    tooltip.style('visibility', 'hidden');
+                })
+                .on('click', (_event, d) => {
+                    onSelectNodeRef.current?.(d.id);
+                    if (!isExpandable(d) || d.loading) return;
+                    if (d.expanded) {
+                        collapseNode(d);
+                    } else {
+                        expandNode(d);
+                    }
+                });
+
+            simulation.nodes(nodes);
+            linkForce.links(links);
+        };
+
+        // 查询节点的一跳邻居并合并到图中，新节点从被展开的节点附近出现
+        const expandNode = async (d: Node) => {
+            d.loading = true;
+            d.expandError = undefined;
+            setExpandError(null);
+            render();
+
+            try {
+                const query = new URLSearchParams({
+                    minAmount: String(data.parameters.minAmount),
+                    direction: data.parameters.direction,
+                    exchangeMode: data.parameters.exchangeMode
+                });
+                const response = await fetch(`/api/address/${d.id}/relations?${query.toString()}`);
+                const body = await response.json();
+                if (!response.ok) throw new Error(body.error || 'Failed to fetch relations');
+                if (disposed) return;
+
+                const relations = body as AddressRelations;
+                const neighbours = transformDataForD3({
+                    topHolders: [],
+                    relatedAddresses: { [d.id]: relations },
+                    labels: relations.labels,
+                    userLabels: relations.userLabels,
+                    watchlists: relations.watchlists
+                });
+
+                const expansion: Expansion = { nodeIds: [], linkKeys: [] };
+                neighbours.nodes.forEach(n => {
+                    if (nodeById.has(n.id)) return;
+                    n.x = (d.x ?? width / 2) + (Math.random() - 0.5) * 40;
+                    n.y = (d.y ?? height / 2) + (Math.random() - 0.5) * 40;
+                    nodes.push(n);
+                    nodeById.set(n.id, n);
+                    expansion.nodeIds.push(n.id);
+                });
+                neighbours.links.forEach(l => {
+                    if (linkKeys.has(l.key)) return;
+                    links.push(l);
+                    linkKeys.add(l.key);
+                    expansion.linkKeys.push(l.key);
+                });
+
+                expansions.set(d.id, expansion);
+                d.expanded = true;
+            } catch (err) {
+                console.error(`Failed to expand ${d.id}:`, err);
+                if (disposed) return;
+                d.expandError = err instanceof Error ? err.message : String(err);
+                setExpandError({ address: d.id, message: d.expandError });
+            } finally {
+                d.loading = false;
+            }
+
+            if (disposed) return;
+            render();
+            simulation.alpha(0.3).restart();
+        };
+
+        // 移除展开时新增的连接线，以及不再与其他节点相连的新增节点
+        const collapseNode = (d: Node) => {
+            const expansion = expansions.get(d.id);
+            if (!expansion) return;
+            expansions.delete(d.id);
+            d.expanded = false;
+
+            // 先收起由该节点展开出来的节点
+            expansion.nodeIds.forEach(id => {
+                const child = nodeById.get(id);
+                if (child?.expanded) collapseNode(child);
+            });
+
+            const removedLinks = new Set(expansion.linkKeys);
+            links = links.filter(l => !removedLinks.has(l.key));
+            removedLinks.forEach(key => linkKeys.delete(key));
+
+            const linked = new Set(links.flatMap(l => [endpointId(l.source), endpointId(l.target)]));
+            nodes = nodes.filter(n => {
+                if (baseNodeIds.has(n.id) || linked.has(n.id)) return true;
+                nodeById.delete(n.id);
+                return false;
+            });
+
+            render();
+            simulation.alpha(0.3).restart();
+        };
+
+        render();
+
         // 更新力导向图
         simulation.on('tick', () => {
             // 更新节点和连接线位置
@@ -244,16 +410,18 @@ export default function Graph({ data }: Props) {
             });
 
             link
-                .attr('x1', d => Math.max(20, Math.min(width - 20, (d.source as unknown as Node).x!)))
-                .attr('y1', d => Math.max(20, Math.min(height - 20, (d.source as unknown as Node).y!)))
-                .attr('x2', d => Math.max(20, Math.min(width - 20, (d.target as unknown as Node).x!)))
-                .attr('y2', d => Math.max(20, Math.min(height - 20, (d.target as unknown as Node).y!)));
+                .attr('x1', d => Math.max(20, Math.min(width - 20, (d.source as Node).x!)))
+                .attr('y1', d => Math.max(20, Math.min(height - 20, (d.source as Node).y!)))
+                .attr('x2', d => Math.max(20, Math.min(width - 20, (d.target as Node).x!)))
+                .attr('y2', d => Math.max(20, Math.min(height - 20, (d.target as Node).y!)));
 
             // 更新群组标记位置
             groupContainer.selectAll('*').remove();  // 清除旧的群组标记
 
             groups.forEach((group, index) => {
                 const groupNodes = group.nodes;
+                if (groupNodes.length === 0) return;
+
                 const nodePositions = groupNodes.map(n => ({
                     x: n.x || 0,
                     y: n.y || 0
@@ -291,39 +459,10 @@ export default function Graph({ data }: Props) {
                     .attr('text-anchor', 'middle')
                     .attr('fill', '#FF0000')
                     .attr('font-size', '12px')
-                    .text(`Cabel ${index + 1}: ${(group.totalHolding * 100).toFixed(2)}%`);
+                    .text(`Cabal ${index + 1}: ${(group.totalHolding * 100).toFixed(2)}%`);
             });
         });
 
-        // 更新提示框内容
-        const tooltip = d3.select('body')
-            .append('div')
-            .attr('class', 'tooltip')
-            .style('position', 'absolute')
-            .style('visibility', 'hidden')
-            .style('background-color', 'rgba(0, 0, 0, 0.8)')
-            .style('color', 'white')
-            .style('padding', '8px')
-            .style('border-radius', '4px')
-            .style('font-size', '12px');
-
-        node
-            .on('mouseover', (event, d) => {
-                const nodeGroup = groups.find(g => g.nodes.some(n => n.id === d.id));
-                const tooltipContent = nodeGroup
-                    ? `Address: ${d.id}<br/>Type: ${d.type}<br/>Group Holding: ${(nodeGroup.totalHolding * 100).toFixed(2)}%`
-                    : `Address: ${d.id}<br/>Type: ${d.type}`;
-
-                tooltip
-                    .style('visibility', 'visible')
-                    .html(tooltipContent)
-                    .style('left', (event.pageX + 10) + 'px')
-                    .style('top', (event.pageY - 10) + 'px');
-            })
-            .on('mouseout', () => {
-                tooltip.style('visibility', 'hidden');
-            });
-
         // 添加拖拽功能
         function dragstarted(event: d3.D3DragEvent<SVGGElement, Node, Node>) {
             if (!event.active) simulation.alphaTarget(0.3).restart();
@@ -344,13 +483,30 @@ export default function Graph({ data }: Props) {
 
         // 清理函数
         return () => {
+            disposed = true;
             simulation.stop();
             tooltip.remove();
+            setExpandError(null);
         };
     }, [data]);
 
     return (
-        <div className="w-full h-full min-h-[600px] bg-gray-50 rounded-lg p-4">
+        <div className="relative w-full h-full min-h-[600px] bg-gray-50 rounded-lg p-4">
+            {expandError && (
+                <div className="absolute top-4 left-4 right-4 flex items-start justify-between gap-2 px-3 py-2 rounded border border-red-300 bg-red-50 text-sm text-red-700">
+                    <span className="break-all">
+                        Failed to expand {expandError.address}: {expandError.message}. Click the node to retry.
+                    </span>
+                    <button
+                        type="button"
+                        onClick={() => setExpandError(null)}
+                        className="text-red-700 hover:text-red-900"
+                        aria-label="Dismiss"
+                    >
+                        ×
+                    </button>
+                </div>
+            )}
             <svg
                 ref={svgRef}
                 className="w-full h-full"
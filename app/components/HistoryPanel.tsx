@@ -0,0 +1,194 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { lookupEntity } from '../lib/entities';
+import type { AnalysisSnapshot, ClusterChangeStatus, SnapshotDiff, SnapshotSummary } from '@/types';
+
+// 群组变化类型对应的文字颜色
+const CLUSTER_STATUS_COLORS: Record<ClusterChangeStatus, string> = {
+    new: 'text-red-600',
+    grown: 'text-red-600',
+    shrunk: 'text-green-600',
+    changed: 'text-yellow-600',
+    dissolved: 'text-green-600'
+};
+
+interface Props {
+    tokenAddress: string;
+    snapshotId: string | null;
+    diff: SnapshotDiff | null;
+    onSelect: (snapshot: AnalysisSnapshot) => void;
+    onDiff: (diff: SnapshotDiff | null) => void;
+}
+
+export default function HistoryPanel({ tokenAddress, snapshotId, diff, onSelect, onDiff }: Props) {
+    const [snapshots, setSnapshots] = useState<SnapshotSummary[]>([]);
+    const [compareId, setCompareId] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    // 获取缩略地址，已知实体显示名称
+    const getShortAddress = (address: string) => {
+        return lookupEntity(address)?.name ?? `${address.substring(0, 4)}...${address.substring(address.length - 4)}`;
+    };
+
+    // 代币或当前快照变化时重新加载快照列表
+    useEffect(() => {
+        setCompareId('');
+        fetch(`/api/snapshots/${tokenAddress}`)
+            .then(response => response.json())
+            .then(body => setSnapshots(body.snapshots ?? []))
+            .catch(() => setError('Failed to load snapshots'));
+    }, [tokenAddress, snapshotId]);
+
+    const handleView = async (id: string) => {
+        try {
+            setError(null);
+            const response = await fetch(`/api/snapshots/${tokenAddress}/${id}`);
+            const body = await response.json();
+            if (!response.ok) throw new Error(body.error || 'Failed to load snapshot');
+            onDiff(null);
+            onSelect(body as AnalysisSnapshot);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to load snapshot');
+        }
+    };
+
+    const handleCompare = async (fromId: string) => {
+        setCompareId(fromId);
+        if (!fromId || !snapshotId) {
+            onDiff(null);
+            return;
+        }
+        try {
+            setError(null);
+            const response = await fetch(`/api/snapshots/${tokenAddress}/diff?from=${fromId}&to=${snapshotId}`);
+            const body = await response.json();
+            if (!response.ok) throw new Error(body.error || 'Failed to compare snapshots');
+            onDiff(body as SnapshotDiff);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to compare snapshots');
+        }
+    };
+
+    if (snapshots.length === 0) {
+        return <p className="text-sm text-gray-500">No saved snapshots for this token yet.</p>;
+    }
+
+    return (
+        <div className="space-y-4 text-sm">
+            {error && <p className="text-red-600">{error}</p>}
+
+            {/* 快照列表 */}
+            <ul className="divide-y divide-gray-200">
+                {snapshots.map(snapshot => (
+                    <li key={snapshot.id} className="flex items-center justify-between py-2">
+                        <span className={snapshot.id === snapshotId ? 'font-medium text-gray-900' : 'text-gray-700'}>
+                            {new Date(snapshot.createdAt).toLocaleString()}
+                            <span className="ml-2 text-xs text-gray-500">
+                                Top {snapshot.parameters.topN}
+                                {' · '}Depth {snapshot.parameters.maxDepth}
+                                {' · '}Risk {snapshot.riskScore} ({snapshot.riskLevel})
+                            </span>
+                        </span>
+                        {snapshot.id === snapshotId ? (
+                            <span className="text-xs text-gray-500">Viewing</span>
+                        ) : (
+                            <button
+                                type="button"
+                                onClick={() => handleView(snapshot.id)}
+                                className="text-xs text-blue-600 hover:underline"
+                            >
+                                View
+                            </button>
+                        )}
+                    </li>
+                ))}
+            </ul>
+
+            {/* 对比选择 */}
+            {snapshotId && snapshots.length > 1 && (
+                <label className="flex items-center gap-2">
+                    <span className="text-gray-600">Compare with</span>
+                    <select
+                        value={compareId}
+                        onChange={(e) => handleCompare(e.target.value)}
+                        className="p-2 border rounded"
+                    >
+                        <option value="">-</option>
+                        {snapshots
+                            .filter(snapshot => snapshot.id !== snapshotId)
+                            .map(snapshot => (
+                                <option key={snapshot.id} value={snapshot.id}>
+                                    {new Date(snapshot.createdAt).toLocaleString()}
+                                </option>
+                            ))}
+                    </select>
+                </label>
+            )}
+
+            {/* 对比结果：持有者变化显示在持有者表格中 */}
+            {diff && (
+                <div className="space-y-3">
+                    <p className="text-xs text-gray-500">
+                        {diff.entered.length} entered
+                        {' · '}{diff.exited.length} exited
+                        {' · '}{diff.pctChanges.length} holdings changed
+                        {' · '}risk {diff.from.riskScore} → {diff.to.riskScore}
+                    </p>
+                    {diff.parameterMismatches.length > 0 && (
+                        <p className="text-xs text-yellow-700">
+                            Parameters differ:{' '}
+                            {diff.parameterMismatches
+                                .map(mismatch => `${mismatch.parameter} ${String(mismatch.from)} → ${String(mismatch.to)}`)
+                                .join(', ')}
+                            . Changes may come from the parameters rather than the token.
+                        </p>
+                    )}
+
+                    <div>
+                        <h4 className="font-medium text-gray-900">Cluster changes</h4>
+                        {diff.clusterChanges.length === 0 ? (
+                            <p className="text-gray-500">No cluster changes.</p>
+                        ) : (
+                            <ul className="mt-1 space-y-1 text-xs">
+                                {diff.clusterChanges.map(change => (
+                                    <li key={`${change.previousId}-${change.currentId}`} className="flex justify-between">
+                                        <span className={CLUSTER_STATUS_COLORS[change.status]}>
+                                            {change.status} ({change.holders.length} holders)
+                                            {change.added.length > 0 && ` +${change.added.map(getShortAddress).join(', ')}`}
+                                            {change.removed.length > 0 && ` -${change.removed.map(getShortAddress).join(', ')}`}
+                                        </span>
+                                        <span className="text-gray-600">
+                                            {(change.previousPct * 100).toFixed(2)}% → {(change.currentPct * 100).toFixed(2)}%
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+
+                    <div>
+                        <h4 className="font-medium text-gray-900">New funding transfers</h4>
+                        {diff.newFundingEdges.length === 0 ? (
+                            <p className="text-gray-500">No new funding transfers.</p>
+                        ) : (
+                            <ul className="mt-1 space-y-1 text-xs text-gray-700">
+                                {diff.newFundingEdges.map(tx => (
+                                    <li key={`${tx.from}-${tx.to}-${tx.timestamp}-${tx.amount}-${tx.asset}`} className="flex justify-between">
+                                        <span title={`${tx.from} → ${tx.to}`}>
+                                            {getShortAddress(tx.from)} → {getShortAddress(tx.to)}
+                                        </span>
+                                        <span>
+                                            {tx.amount} {tx.asset}
+                                            {' · '}{tx.time}
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,105 +1,292 @@
 'use client';
 
-import { AnalysisResult } from '@/types';
+import { AnalysisResult, HolderData, RelationStatusKind, RiskLevel, SnapshotDiff, Transaction } from '@/types';
+import { ENTITY_CATEGORY_NAMES, isExchangeNodeId } from '../lib/entities';
+
+// 风险等级对应的文字颜色
+const RISK_LEVEL_COLORS: Record<RiskLevel, string> = {
+    low: 'text-green-600',
+    medium: 'text-yellow-600',
+    high: 'text-red-600'
+};
+
+// 关联查询不完整或失败的持有者标记
+const STATUS_BADGES: Record<Exclude<RelationStatusKind, 'complete'>, { label: string; className: string }> = {
+    partial: { label: 'Partial', className: 'bg-yellow-100 text-yellow-800' },
+    failed: { label: 'Failed', className: 'bg-red-100 text-red-700' }
+};
 
 interface Props {
     data: AnalysisResult;
+    diff?: SnapshotDiff | null;
+    onSelectAddress?: (address: string) => void;
 }
 
-export default function HoldersTable({ data }: Props) {
+export default function HoldersTable({ data, diff, onSelectAddress }: Props) {
+    // 持有者所属群组序号，与图中的 Cabal 标签一致
+    const clusterIndex = new Map<string, number>();
+    (data.clusters ?? []).forEach((cluster, index) => {
+        cluster.holders.forEach(address => clusterIndex.set(address, index));
+    });
+
     // 获取缩略地址
     const getShortAddress = (address: string) => {
         return address ? `${address.substring(0, 4)}` : '-';
     };
 
-    // 获取最后一次资金来源地址
-    const getLastFundingSource = (holderAddress: string, relatedData: any) => {
+    // 获取最后一次资金来源交易
+    const getLastFundingSource = (holderAddress: string, relatedData?: HolderData): Transaction | null => {
         if (!relatedData?.transactions.length) return null;
 
         // 查找最后一笔接收交易（持有者作为接收方）
         for (let i = relatedData.transactions.length - 1; i >= 0; i--) {
             const tx = relatedData.transactions[i];
-            if (tx.to === holderAddress) {
-                return tx.from;  // 返回发送方地址
+            if (tx.to === holderAddress && tx.type !== 'token') {
+                return tx;  // 返回资金转入交易
             }
         }
 
         return null;  // 如果没有找到接收交易
     };
 
+    const tokenRisk = data.risk?.token;
+
+    // 与历史快照对比时的持有者变化
+    const enteredHolders = new Set(diff?.entered.map(holder => holder.address));
+    const pctChanges = new Map(diff?.pctChanges.map(change => [change.address, change.change]));
+
+    // 格式化持仓比例变化
+    const formatChange = (change: number) => {
+        return `${change > 0 ? '+' : ''}${(change * 100).toFixed(2)}%`;
+    };
+
     return (
-        <div className="overflow-auto rounded-lg shadow">
-            <table className="min-w-full divide-y divide-gray-200">
-                <thead className="bg-gray-50">
-                    <tr>
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                            Address
-                        </th>
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                            Name
-                        </th>
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                            From
-                        </th>
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                            Holdings (%)
-                        </th>
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                            Mark
-                        </th>
-                    </tr>
-                </thead>
-                <tbody className="bg-white divide-y divide-gray-200">
-                    {data.topHolders.map((holder, index) => {
-                        const relatedData = data.relatedAddresses[holder.holder_address];
-                        const lastFundingSource = getLastFundingSource(holder.holder_address, relatedData);
-
-                        return (
-                            <tr key={holder.holder_address} className={index % 2 === 0 ? 'bg-white' : 'bg-gray-50'}>
-                                <td className="px-6 py-4 whitespace-nowrap">
-                                    <div className="flex items-center">
+        <div className="space-y-4">
+            {/* 代币风险评分 */}
+            {tokenRisk && (
+                <div className="rounded-lg border border-gray-200 p-4">
+                    <div className="flex items-baseline justify-between">
+                        <span className="text-sm font-medium text-gray-700">Token risk score</span>
+                        <span className={`text-2xl font-semibold ${RISK_LEVEL_COLORS[tokenRisk.level]}`}>
+                            {tokenRisk.score}
+                            <span className="ml-1 text-xs font-normal uppercase">{tokenRisk.level}</span>
+                        </span>
+                    </div>
+                    <ul className="mt-2 space-y-1 text-xs text-gray-600">
+                        {tokenRisk.factors.map(factor => (
+                            <li key={factor.signal} className="flex justify-between">
+                                <span>{factor.description}</span>
+                                <span>{factor.points > 0 ? `+${factor.points}` : factor.points}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            <div className="overflow-auto rounded-lg shadow">
+                <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                        <tr>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                Address
+                            </th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                Name
+                            </th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                From
+                            </th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                Holdings (%)
+                            </th>
+                            {diff && (
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                    Change
+                                </th>
+                            )}
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                Cabal
+                            </th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                Risk
+                            </th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                Mark
+                            </th>
+                        </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                        {data.topHolders.map((holder, index) => {
+                            const relatedData = data.relatedAddresses[holder.holder_address];
+                            const lastFundingSource = getLastFundingSource(holder.holder_address, relatedData);
+                            const holderClusterIndex = clusterIndex.get(holder.holder_address);
+                            const cluster = holderClusterIndex !== undefined ? data.clusters[holderClusterIndex] : undefined;
+                            const holderRisk = data.risk?.holders[holder.holder_address];
+                            const holderLabel = data.labels?.[holder.holder_address];
+                            const funderLabel = lastFundingSource ? data.labels?.[lastFundingSource.from] : undefined;
+                            const userLabel = data.userLabels?.[holder.holder_address];
+                            const funderUserLabel = lastFundingSource ? data.userLabels?.[lastFundingSource.from] : undefined;
+                            const holderWatchlists = data.watchlists?.[holder.holder_address];
+                            const holderStatus = data.holderStatus?.[holder.holder_address];
+                            const statusBadge = holderStatus && holderStatus.status !== 'complete'
+                                ? STATUS_BADGES[holderStatus.status]
+                                : undefined;
+
+                            // 观察列表中的持有者高亮显示
+                            const rowClassName = holderWatchlists
+                                ? 'bg-yellow-50'
+                                : index % 2 === 0 ? 'bg-white' : 'bg-gray-50';
+
+                            return (
+                                <tr
+                                    key={holder.holder_address}
+                                    className={`${rowClassName}${onSelectAddress ? ' cursor-pointer hover:bg-blue-50' : ''}`}
+                                    onClick={() => onSelectAddress?.(holder.holder_address)}
+                                >
+                                    <td className="px-6 py-4 whitespace-nowrap">
+                                        <div className="flex items-center">
+                                            <div
+                                                className="text-sm font-medium text-gray-900 cursor-pointer hover:text-blue-600"
+                                                title={holder.holder_address}
+                                            >
+                                                <a href={`https://solscan.io/address/${holder.holder_address}`} target="_blank" rel="noopener noreferrer" onClick={event => event.stopPropagation()}>
+                                                    {getShortAddress(holder.holder_address)}
+                                                </a>
+                                            </div>
+                                            {holderStatus && statusBadge && (
+                                                <span
+                                                    className={`ml-2 px-1 rounded text-xs ${statusBadge.className}`}
+                                                    title={`${holderStatus.reason ?? ''} (${holderStatus.callsAttempted} calls attempted)`}
+                                                >
+                                                    {statusBadge.label}
+                                                </span>
+                                            )}
+                                        </div>
+                                    </td>
+                                    <td className="px-6 py-4 whitespace-nowrap">
+                                        <div className="text-sm text-gray-900">
+                                            {holder.holder_sns || (holderLabel || userLabel ? '' : '-')}
+                                            {holderLabel && (
+                                                <span
+                                                    className="ml-1 px-1 rounded bg-gray-100 text-xs text-gray-600"
+                                                    title={ENTITY_CATEGORY_NAMES[holderLabel.category]}
+                                                >
+                                                    {holderLabel.name}
+                                                </span>
+                                            )}
+                                            {userLabel && (
+                                                <span
+                                                    className="ml-1 px-1 rounded bg-blue-100 text-xs text-blue-700"
+                                                    title={userLabel.note}
+                                                >
+                                                    {userLabel.label}
+                                                </span>
+                                            )}
+                                            {holderWatchlists && (
+                                                <span
+                                                    className="ml-1 px-1 rounded bg-yellow-200 text-xs text-yellow-800"
+                                                    title={`Watchlists: ${holderWatchlists.join(', ')}`}
+                                                >
+                                                    ★ {holderWatchlists.join(', ')}
+                                                </span>
+                                            )}
+                                        </div>
+                                    </td>
+                                    <td className="px-6 py-4 whitespace-nowrap">
                                         <div
-                                            className="text-sm font-medium text-gray-900 cursor-pointer hover:text-blue-600"
-                                            title={holder.holder_address}
+                                            className="text-sm text-gray-900 cursor-pointer hover:text-blue-600"
+                                            title={lastFundingSource ? `${lastFundingSource.from} (${lastFundingSource.amount} ${lastFundingSource.asset})` : ''}
                                         >
-                                            <a href={`https://solscan.io/address/${holder.holder_address}`} target="_blank" rel="noopener noreferrer">
-                                                {getShortAddress(holder.holder_address)}
-                                            </a>
+                                            {lastFundingSource ? (
+                                                <>
+                                                    {isExchangeNodeId(lastFundingSource.from) ? (
+                                                        <span>{funderLabel?.name ?? lastFundingSource.from}</span>
+                                                    ) : (
+                                                        <a href={`https://solscan.io/address/${lastFundingSource.from}`} target="_blank" rel="noopener noreferrer" onClick={event => event.stopPropagation()}>
+                                                            {funderUserLabel?.label ?? funderLabel?.name ?? getShortAddress(lastFundingSource.from)}
+                                                        </a>
+                                                    )}
+                                                    <span className="ml-1 text-xs text-gray-500">{lastFundingSource.asset}</span>
+                                                </>
+                                            ) : '-'}
                                         </div>
-                                    </div>
-                                </td>
-                                <td className="px-6 py-4 whitespace-nowrap">
-                                    <div className="text-sm text-gray-900">
-                                        {holder.holder_sns || '-'}
-                                    </div>
-                                </td>
-                                <td className="px-6 py-4 whitespace-nowrap">
-                                    <div
-                                        className="text-sm text-gray-900 cursor-pointer hover:text-blue-600"
-                                        title={lastFundingSource || ''}
-                                    >
-                                        {lastFundingSource ? (
-                                            <a href={`https://solscan.io/address/${lastFundingSource}`} target="_blank" rel="noopener noreferrer">
-                                                {getShortAddress(lastFundingSource)}
-                                            </a>
-                                        ) : '-'}
-                                    </div>
-                                </td>
-                                <td className="px-6 py-4 whitespace-nowrap">
-                                    <div className="text-sm text-gray-900">
-                                        {(parseFloat(holder.holder_pct_of_supply) * 100).toFixed(2)}%
-                                    </div>
-                                </td>
-                                <td className="px-6 py-4 whitespace-nowrap">
-                                    <div className="text-sm text-gray-900">
-                                        {holder.is_new ? 'New' : '-'}
-                                    </div>
-                                </td>
-                            </tr>
-                        );
-                    })}
-                </tbody>
-            </table>
+                                    </td>
+                                    <td className="px-6 py-4 whitespace-nowrap">
+                                        <div className="text-sm text-gray-900">
+                                            {(parseFloat(holder.holder_pct_of_supply) * 100).toFixed(2)}%
+                                        </div>
+                                    </td>
+                                    {diff && (
+                                        <td className="px-6 py-4 whitespace-nowrap">
+                                            {enteredHolders.has(holder.holder_address) ? (
+                                                <span className="px-1 rounded bg-green-100 text-xs text-green-700">Entered</span>
+                                            ) : pctChanges.has(holder.holder_address) ? (
+                                                <div className={`text-sm ${(pctChanges.get(holder.holder_address) ?? 0) > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                                                    {formatChange(pctChanges.get(holder.holder_address) ?? 0)}
+                                                </div>
+                                            ) : (
+                                                <div className="text-sm text-gray-900">-</div>
+                                            )}
+                                        </td>
+                                    )}
+                                    <td className="px-6 py-4 whitespace-nowrap">
+                                        {cluster && holderClusterIndex !== undefined ? (
+                                            <div
+                                                className="text-sm text-red-600"
+                                                title={`${cluster.holders.length} holders, ${cluster.connectors.length} connecting addresses, ${cluster.edges.length} transactions`}
+                                            >
+                                                Cabal {holderClusterIndex + 1} ({(cluster.totalPct * 100).toFixed(2)}%)
+                                            </div>
+                                        ) : (
+                                            <div className="text-sm text-gray-900">-</div>
+                                        )}
+                                    </td>
+                                    <td className="px-6 py-4 whitespace-nowrap">
+                                        {holderRisk ? (
+                                            <div
+                                                className={`text-sm font-medium ${RISK_LEVEL_COLORS[holderRisk.level]}`}
+                                                title={holderRisk.factors
+                                                    .map(factor => `${factor.points > 0 ? '+' : ''}${factor.points} ${factor.description}`)
+                                                    .join('\n')}
+                                            >
+                                                {holderRisk.score}
+                                            </div>
+                                        ) : (
+                                            <div className="text-sm text-gray-900">-</div>
+                                        )}
+                                    </td>
+                                    <td className="px-6 py-4 whitespace-nowrap">
+                                        <div className="text-sm text-gray-900">
+                                            {data.holderSourceCapabilities?.isNew === false
+                                                ? 'N/A'
+                                                : holder.is_new ? 'New' : '-'}
+                                        </div>
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+
+            {/* 跌出前 N 名的持有者 */}
+            {diff && diff.exited.length > 0 && (
+                <div className="text-xs text-gray-600">
+                    <span className="font-medium text-gray-700">Exited since {new Date(diff.from.createdAt).toLocaleString()}:</span>
+                    {diff.exited.map(holder => (
+                        <a
+                            key={holder.address}
+                            href={`https://solscan.io/address/${holder.address}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="ml-2 hover:text-blue-600"
+                            title={holder.address}
+                        >
+                            {getShortAddress(holder.address)} ({(holder.pct * 100).toFixed(2)}%)
+                        </a>
+                    ))}
+                </div>
+            )}
         </div>
     );
 }
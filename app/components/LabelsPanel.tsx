@@ -0,0 +1,250 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { UserLabel, Watchlist } from '@/types';
+
+// 获取缩略地址
+const getShortAddress = (address: string) => {
+    return `${address.substring(0, 4)}...${address.substring(address.length - 4)}`;
+};
+
+export default function LabelsPanel() {
+    const [labels, setLabels] = useState<UserLabel[]>([]);
+    const [watchlists, setWatchlists] = useState<Watchlist[]>([]);
+    const [error, setError] = useState<string | null>(null);
+
+    // 标签表单
+    const [labelAddress, setLabelAddress] = useState('');
+    const [labelText, setLabelText] = useState('');
+    const [labelNote, setLabelNote] = useState('');
+
+    // 观察列表表单，editingId 为空时新建
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [watchlistName, setWatchlistName] = useState('');
+    const [watchlistAddresses, setWatchlistAddresses] = useState('');
+
+    // 发送请求，失败时显示接口返回的错误
+    const request = async (url: string, init?: RequestInit) => {
+        const response = await fetch(url, {
+            ...init,
+            headers: { 'Content-Type': 'application/json' },
+        });
+        const body = await response.json();
+        if (!response.ok) {
+            throw new Error(body.details || body.error || 'Request failed');
+        }
+        return body;
+    };
+
+    const refresh = useCallback(async () => {
+        try {
+            const [labelsBody, watchlistsBody] = await Promise.all([
+                fetch('/api/labels').then(response => response.json()),
+                fetch('/api/watchlists').then(response => response.json()),
+            ]);
+            setLabels(labelsBody.labels ?? []);
+            setWatchlists(watchlistsBody.watchlists ?? []);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to load labels');
+        }
+    }, []);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    // 执行修改并刷新列表
+    const mutate = async (action: () => Promise<unknown>) => {
+        try {
+            setError(null);
+            await action();
+            await refresh();
+            return true;
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Request failed');
+            return false;
+        }
+    };
+
+    const handleSaveLabel = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const saved = await mutate(() => request('/api/labels', {
+            method: 'POST',
+            body: JSON.stringify({ address: labelAddress.trim(), label: labelText, note: labelNote }),
+        }));
+        if (saved) {
+            setLabelAddress('');
+            setLabelText('');
+            setLabelNote('');
+        }
+    };
+
+    const handleEditLabel = (label: UserLabel) => {
+        setLabelAddress(label.address);
+        setLabelText(label.label);
+        setLabelNote(label.note ?? '');
+    };
+
+    const handleDeleteLabel = async (address: string) => {
+        await mutate(() => request(`/api/labels/${address}`, { method: 'DELETE' }));
+    };
+
+    const resetWatchlistForm = () => {
+        setEditingId(null);
+        setWatchlistName('');
+        setWatchlistAddresses('');
+    };
+
+    const handleSaveWatchlist = async (e: React.FormEvent) => {
+        e.preventDefault();
+        // 每行或逗号分隔一个地址
+        const addresses = watchlistAddresses
+            .split(/[\s,]+/)
+            .map(address => address.trim())
+            .filter(Boolean);
+        const body = JSON.stringify({ name: watchlistName, addresses });
+        const saved = await mutate(() => editingId
+            ? request(`/api/watchlists/${editingId}`, { method: 'PUT', body })
+            : request('/api/watchlists', { method: 'POST', body }));
+        if (saved) resetWatchlistForm();
+    };
+
+    const handleEditWatchlist = (watchlist: Watchlist) => {
+        setEditingId(watchlist.id);
+        setWatchlistName(watchlist.name);
+        setWatchlistAddresses(watchlist.addresses.join('\n'));
+    };
+
+    const handleDeleteWatchlist = async (id: string) => {
+        if (editingId === id) resetWatchlistForm();
+        await mutate(() => request(`/api/watchlists/${id}`, { method: 'DELETE' }));
+    };
+
+    return (
+        <div className="space-y-4 text-sm">
+            {error && <p className="text-red-600">{error}</p>}
+            <p className="text-xs text-gray-500">
+                Labels and watchlists are applied to holders and related addresses in every new analysis.
+            </p>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {/* 自定义标签 */}
+                <div className="space-y-3">
+                    <h4 className="font-medium text-gray-900">Labels</h4>
+                    <form onSubmit={handleSaveLabel} className="flex flex-wrap gap-2">
+                        <input
+                            type="text"
+                            value={labelAddress}
+                            onChange={(e) => setLabelAddress(e.target.value)}
+                            placeholder="Address"
+                            className="flex-1 min-w-[12rem] p-2 border rounded"
+                        />
+                        <input
+                            type="text"
+                            value={labelText}
+                            onChange={(e) => setLabelText(e.target.value)}
+                            placeholder="Label"
+                            className="w-32 p-2 border rounded"
+                        />
+                        <input
+                            type="text"
+                            value={labelNote}
+                            onChange={(e) => setLabelNote(e.target.value)}
+                            placeholder="Note (optional)"
+                            className="flex-1 min-w-[8rem] p-2 border rounded"
+                        />
+                        <button
+                            type="submit"
+                            className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
+                        >
+                            Save
+                        </button>
+                    </form>
+                    {labels.length === 0 ? (
+                        <p className="text-gray-500">No labels yet.</p>
+                    ) : (
+                        <ul className="divide-y divide-gray-200">
+                            {labels.map(label => (
+                                <li key={label.address} className="flex items-center justify-between py-2">
+                                    <span title={label.address}>
+                                        <span className="px-1 rounded bg-blue-100 text-xs text-blue-700">{label.label}</span>
+                                        <span className="ml-2 text-gray-700">{getShortAddress(label.address)}</span>
+                                        {label.note && <span className="ml-2 text-xs text-gray-500">{label.note}</span>}
+                                    </span>
+                                    <span className="flex gap-2 text-xs">
+                                        <button type="button" onClick={() => handleEditLabel(label)} className="text-blue-600 hover:underline">
+                                            Edit
+                                        </button>
+                                        <button type="button" onClick={() => handleDeleteLabel(label.address)} className="text-red-600 hover:underline">
+                                            Delete
+                                        </button>
+                                    </span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+
+                {/* 观察列表 */}
+                <div className="space-y-3">
+                    <h4 className="font-medium text-gray-900">Watchlists</h4>
+                    <form onSubmit={handleSaveWatchlist} className="space-y-2">
+                        <input
+                            type="text"
+                            value={watchlistName}
+                            onChange={(e) => setWatchlistName(e.target.value)}
+                            placeholder="Watchlist name"
+                            className="w-full p-2 border rounded"
+                        />
+                        <textarea
+                            value={watchlistAddresses}
+                            onChange={(e) => setWatchlistAddresses(e.target.value)}
+                            placeholder="One address per line"
+                            rows={3}
+                            className="w-full p-2 border rounded font-mono text-xs"
+                        />
+                        <div className="flex gap-2">
+                            <button
+                                type="submit"
+                                className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
+                            >
+                                {editingId ? 'Update' : 'Create'}
+                            </button>
+                            {editingId && (
+                                <button
+                                    type="button"
+                                    onClick={resetWatchlistForm}
+                                    className="px-4 py-2 border rounded text-gray-700 hover:bg-gray-100"
+                                >
+                                    Cancel
+                                </button>
+                            )}
+                        </div>
+                    </form>
+                    {watchlists.length === 0 ? (
+                        <p className="text-gray-500">No watchlists yet.</p>
+                    ) : (
+                        <ul className="divide-y divide-gray-200">
+                            {watchlists.map(watchlist => (
+                                <li key={watchlist.id} className="flex items-center justify-between py-2">
+                                    <span title={watchlist.addresses.join('\n')}>
+                                        <span className="font-medium text-gray-900">{watchlist.name}</span>
+                                        <span className="ml-2 text-xs text-gray-500">{watchlist.addresses.length} addresses</span>
+                                    </span>
+                                    <span className="flex gap-2 text-xs">
+                                        <button type="button" onClick={() => handleEditWatchlist(watchlist)} className="text-blue-600 hover:underline">
+                                            Edit
+                                        </button>
+                                        <button type="button" onClick={() => handleDeleteWatchlist(watchlist.id)} className="text-red-600 hover:underline">
+                                            Delete
+                                        </button>
+                                    </span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -1,9 +1,27 @@
 'use client';
 
-export default function LoadingOverlay() {
+import type { AnalysisProgress } from '@/types';
+
+interface Props {
+    progress?: AnalysisProgress | null;
+    onCancel?: () => void;
+}
+
+export default function LoadingOverlay({ progress, onCancel }: Props) {
+    // 计算进度百分比：第 3 步（关联地址分析）按完成的持有者数量细分
+    const getPercent = (p: AnalysisProgress) => {
+        const stepBase = (p.step - 1) / p.totalSteps;
+        if (p.step === 3 && p.totalHolders > 0) {
+            return (stepBase + p.completedHolders.length / p.totalHolders / p.totalSteps) * 100;
+        }
+        return stepBase * 100;
+    };
+
+    const percent = progress ? Math.min(100, Math.round(getPercent(progress))) : 0;
+
     return (
         <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center">
-            <div className="bg-white rounded-lg p-8 flex flex-col items-center gap-4">
+            <div className="bg-white rounded-lg p-8 flex flex-col items-center gap-4 w-full max-w-md">
                 <div className="relative">
                     {/* 自定义加载动画 */}
                     <div className="w-12 h-12 rounded-full border-4 border-gray-200">
@@ -18,10 +36,59 @@ export default function LoadingOverlay() {
                         Analyzing Token Holders
                     </h3>
                     <p className="text-sm text-gray-500 mt-1">
-                        This may take a few minutes...
+                        {progress
+                            ? `[${progress.step}/${progress.totalSteps}] ${progress.message}`
+                            : 'This may take a few minutes...'}
                     </p>
                 </div>
+
+                {/* 进度条 */}
+                {progress && (
+                    <div className="w-full space-y-3">
+                        <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+                            <div
+                                className="h-full bg-blue-500 transition-all duration-300"
+                                style={{ width: `${percent}%` }}
+                            />
+                        </div>
+                        <div className="flex justify-between text-xs text-gray-500">
+                            <span>
+                                Holders: {progress.completedHolders.length}/{progress.totalHolders || '-'}
+                            </span>
+                            <span>API calls: {progress.apiCallCount}</span>
+                        </div>
+                        {progress.currentHolder && (
+                            <p className="text-xs text-gray-500 truncate" title={progress.currentHolder}>
+                                Current: {progress.currentHolder}
+                            </p>
+                        )}
+                        {progress.completedHolders.length > 0 && (
+                            <ul className="max-h-32 overflow-auto text-xs text-gray-700 space-y-1">
+                                {progress.completedHolders.map(holder => (
+                                    <li key={holder.address} className="flex justify-between gap-2">
+                                        <span className="truncate" title={holder.address}>
+                                            {holder.status === 'complete' ? '✓' : holder.status === 'partial' ? '!' : '✗'} {holder.address}
+                                        </span>
+                                        <span className="text-gray-500 whitespace-nowrap">
+                                            {holder.relatedCount} related
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                )}
+
+                {onCancel && (
+                    <button
+                        type="button"
+                        onClick={onCancel}
+                        className="px-4 py-2 text-sm border rounded text-gray-700 hover:bg-gray-100"
+                    >
+                        Cancel
+                    </button>
+                )}
             </div>
         </div>
     );
-}
\ No newline at end of file
+}
@@ -0,0 +1,200 @@
+/**
+ * address-detail.ts
+ * 主要功能：汇总单个地址在分析结果中的全部信息
+ *
+ * 包含：
+ * - 转入/转出总额（以及按资产拆分）
+ * - 按时间排序的交易时间线，标注方向与对手方
+ * - 地址与对手方的实体标签、自定义标签与观察列表
+ * - 区块浏览器链接
+ *
+ * 地址详情抽屉与 GET /api/address/[address] 共用，浏览器端与服务端均可使用
+ */
+
+import { isExchangeNodeId } from './entities';
+import type { EntityLabel } from './entities';
+import type { GraphTransaction } from './graph';
+
+// 类型定义
+/**
+ * 构建地址详情所需的分析结果字段
+ * 服务端的 SerializedAnalysisResult、浏览器端的 AnalysisResult 与单个地址的关联查询结果均可转换为此结构
+ * @interface AddressDetailSource
+ */
+interface AddressDetailSource {
+    topHolders: { holder_address: string; holder_sns: string | null; holder_pct_of_supply: string; is_new: boolean }[];
+    relatedAddresses: Record<string, {
+        totalInAmount?: number;
+        totalOutAmount?: number;
+        transactions: GraphTransaction[];
+    }>;
+    tokenFlows?: GraphTransaction[];
+    labels?: Record<string, EntityLabel>;
+    userLabels?: Record<string, { label: string; note?: string }>;
+    watchlists?: Record<string, string[]>;
+}
+
+/**
+ * 时间线中的一笔交易
+ * @interface TimelineEntry
+ * @property {'in' | 'out' | 'indirect'} direction - 相对于该地址的方向；indirect 为该地址图谱中更深一层、不直接涉及该地址的交易
+ * @property {string | null} counterparty - 对手方地址，indirect 交易为 null
+ */
+interface TimelineEntry extends GraphTransaction {
+    direction: 'in' | 'out' | 'indirect';
+    counterparty: string | null;
+}
+
+/**
+ * 单个资产的转入/转出总额
+ * @interface AssetTotal
+ */
+interface AssetTotal {
+    asset: string;
+    in: number;
+    out: number;
+}
+
+/**
+ * 区块浏览器链接
+ * @interface ExplorerLink
+ */
+interface ExplorerLink {
+    name: string;
+    url: string;
+}
+
+/**
+ * 地址详情
+ * @interface AddressDetail
+ * @property {object | null} holder - 该地址为前 N 大持有者时的持仓信息
+ * @property {number} totalInAmount - 转入总额（与分析结果一致，各资产金额直接相加）
+ * @property {number} totalOutAmount - 转出总额
+ * @property {AssetTotal[]} assetTotals - 直接涉及该地址的交易按资产拆分的总额
+ * @property {TimelineEntry[]} timeline - 按时间升序排列的交易
+ */
+interface AddressDetail {
+    address: string;
+    holder: { pctOfSupply: number; sns: string | null; isNew: boolean } | null;
+    totalInAmount: number;
+    totalOutAmount: number;
+    assetTotals: AssetTotal[];
+    timeline: TimelineEntry[];
+    labels: Record<string, EntityLabel>;
+    userLabels: Record<string, { label: string; note?: string }>;
+    watchlists: Record<string, string[]>;
+    explorerLinks: ExplorerLink[];
+}
+
+/**
+ * 获取地址的区块浏览器链接，合并后的交易所节点不是真实地址，没有链接
+ * @param {string} address - 地址
+ * @returns {ExplorerLink[]} 浏览器链接
+ */
+function getExplorerLinks(address: string): ExplorerLink[] {
+    if (isExchangeNodeId(address)) return [];
+    return [
+        { name: 'Solscan', url: `https://solscan.io/address/${address}` },
+        { name: 'Solana Explorer', url: `https://explorer.solana.com/address/${address}` },
+        { name: 'SolanaFM', url: `https://solana.fm/address/${address}` }
+    ];
+}
+
+/**
+ * 汇总地址详情
+ * 时间线包含该地址自身图谱中的全部交易，以及其他持有者图谱和代币转账中涉及该地址的交易
+ * @param {string} address - 地址
+ * @param {AddressDetailSource} source - 分析结果
+ * @returns {AddressDetail} 地址详情
+ */
+function buildAddressDetail(address: string, source: AddressDetailSource): AddressDetail {
+    const ownData = source.relatedAddresses[address];
+    const entries = new Map<string, TimelineEntry>();
+
+    const addEntry = (tx: GraphTransaction) => {
+        const key = `${tx.from}-${tx.to}-${tx.timestamp}-${tx.amount}-${tx.asset}-${tx.type}`;
+        if (entries.has(key)) return;
+
+        const direction = tx.to === address ? 'in' : tx.from === address ? 'out' : 'indirect';
+        entries.set(key, {
+            ...tx,
+            direction,
+            counterparty: direction === 'in' ? tx.from : direction === 'out' ? tx.to : null
+        });
+    };
+
+    ownData?.transactions.forEach(addEntry);
+    [...Object.values(source.relatedAddresses), { transactions: source.tokenFlows ?? [] }].forEach(holderData => {
+        holderData.transactions
+            .filter(tx => tx.from === address || tx.to === address)
+            .forEach(addEntry);
+    });
+
+    const timeline = Array.from(entries.values()).sort((a, b) => a.timestamp - b.timestamp);
+
+    // 按资产汇总直接涉及该地址的交易
+    const assetTotals = new Map<string, AssetTotal>();
+    timeline.forEach(entry => {
+        if (entry.direction === 'indirect') return;
+        const total = assetTotals.get(entry.asset) ?? { asset: entry.asset, in: 0, out: 0 };
+        total[entry.direction] += entry.amount;
+        assetTotals.set(entry.asset, total);
+    });
+
+    // 持有者使用分析结果中的总额；其他地址按相同规则从直接交易计算
+    const direct = timeline.filter(entry => entry.direction !== 'indirect');
+    const totalInAmount = ownData?.totalInAmount ?? direct
+        .filter(entry => entry.direction === 'in' && entry.type === 'in')
+        .reduce((sum, entry) => sum + entry.amount, 0);
+    const totalOutAmount = ownData?.totalOutAmount ?? direct
+        .filter(entry => entry.direction === 'out' && entry.type === 'out')
+        .reduce((sum, entry) => sum + entry.amount, 0);
+
+    // 只保留地址本身与时间线中出现的地址的标签
+    const addresses = new Set([address]);
+    timeline.forEach(entry => {
+        addresses.add(entry.from);
+        addresses.add(entry.to);
+    });
+    const pick = <T>(record: Record<string, T> | undefined): Record<string, T> => {
+        const picked: Record<string, T> = {};
+        addresses.forEach(addr => {
+            if (record?.[addr]) picked[addr] = record[addr];
+        });
+        return picked;
+    };
+
+    const holder = source.topHolders.find(h => h.holder_address === address);
+
+    return {
+        address,
+        holder: holder
+            ? {
+                pctOfSupply: parseFloat(holder.holder_pct_of_supply) || 0,
+                sns: holder.holder_sns,
+                isNew: holder.is_new
+            }
+            : null,
+        totalInAmount,
+        totalOutAmount,
+        assetTotals: Array.from(assetTotals.values()),
+        timeline,
+        labels: pick(source.labels),
+        userLabels: pick(source.userLabels),
+        watchlists: pick(source.watchlists),
+        explorerLinks: getExplorerLinks(address)
+    };
+}
+
+export {
+    buildAddressDetail,
+    getExplorerLinks
+};
+
+export type {
+    AddressDetailSource,
+    TimelineEntry,
+    AssetTotal,
+    ExplorerLink,
+    AddressDetail
+};
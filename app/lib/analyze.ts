@@ -9,23 +9,30 @@
  * 4. 生成分析报告
  */
 
-import { fetchTokenHolders } from './gmgn';
-import { getTransactionGraph, getAddressRelationGraph } from './solscan';
-import type { Transaction } from './solscan';
+import { fetchHoldersWithFallback } from './holder-source';
+import {
+    getTransactionGraph,
+    getRelationGraphs,
+    getTokenFlows,
+    createSolscanStats,
+    getDefaultTraversalOptions
+} from './solscan';
+import type { Transaction, FlowDirection, RelationStatus, RelationStatusKind, TokenFlowFailure } from './solscan';
+import type { ExchangeMode } from './entities';
+import { DEFAULT_ANALYSIS_PARAMETERS } from './validation';
+import { detectClusters } from './cluster';
+import type { Cluster } from './cluster';
+import { detectCommonFunders } from './funders';
+import type { CommonFunder } from './funders';
+import { scoreAnalysis } from './risk';
+import type { RiskReport } from './risk';
+import { collectEntityLabels } from './entities';
+import type { EntityLabel } from './entities';
+import { collectUserAnnotations } from './user-labels';
+import type { UserLabel } from './user-labels';
+import type { HolderData as Holder, HolderSourceCapabilities } from './holder-source';
 
 // 类型定义
-/**
- * 代币持有者信息
- * @interface Holder
- * @property {string} holder_address - 持有者地址
- * @property {string | null} holder_sns - 持有者的 SNS 域名
- * @property {string} holder_pct_of_supply - 持有比例
- */
-interface Holder {
-    holder_address: string;
-    holder_sns: string | null;
-    holder_pct_of_supply: string;
-}
 
 /**
  * 交易数据结构
@@ -34,14 +41,18 @@ interface Holder {
  * @property {string} to - 接收方地址
  * @property {number} amount - 交易金额
  * @property {string} time - 交易时间
- * @property {'in' | 'out'} type - 交易类型
+ * @property {number} timestamp - 交易时间戳（秒）
+ * @property {'in' | 'out' | 'token'} type - 交易类型：资金转入、资金转出或被分析代币的转账
+ * @property {string} asset - 转账资产符号（如 SOL、USDC）
  */
 interface TransactionData {
     from: string;
     to: string;
     amount: number;
     time: string;
-    type: 'in' | 'out';
+    timestamp: number;
+    type: 'in' | 'out' | 'token';
+    asset: string;
 }
 
 /**
@@ -56,30 +67,262 @@ interface HolderData {
     transactions: TransactionData[]; // 交易记录
 }
 
+/**
+ * 分析参数
+ * @interface AnalysisParameters
+ * @property {number} topN - 分析前N个大户
+ * @property {number} maxDepth - 关联地址递归深度
+ * @property {number} minAmount - 最小交易金额阈值（SOL）
+ * @property {FlowDirection} direction - 追踪的资金流向
+ * @property {ExchangeMode} exchangeMode - 交易所处理方式：移除、合并为交易所节点或保留
+ * @property {boolean} traceTokenFlow - 是否追踪被分析代币在持有者之间的转账
+ */
+interface AnalysisParameters {
+    topN: number;
+    maxDepth: number;
+    minAmount: number;
+    direction: FlowDirection;
+    exchangeMode: ExchangeMode;
+    traceTokenFlow: boolean;
+}
+
+/**
+ * 持有者查询完整度
+ * @interface HolderCompleteness
+ * @property {number} complete - 查询完整的持有者数
+ * @property {number} partial - 查询不完整的持有者数
+ * @property {number} failed - 查询失败的持有者数
+ * @property {number} ratio - 查询完整的持有者占比（0-1）
+ */
+interface HolderCompleteness {
+    complete: number;
+    partial: number;
+    failed: number;
+    ratio: number;
+}
+
 /**
  * 分析结果数据结构
  * @interface AnalysisResult
  */
 interface AnalysisResult {
     tokenAddress: string;
+    parameters: AnalysisParameters;
+    holderSource: string;
+    holderSourceCapabilities: HolderSourceCapabilities;
     topHolders: Holder[];
     relatedAddresses: Map<string, HolderData>;
+    holderStatus: Record<string, RelationStatus>;
+    tokenFlows: TransactionData[];
+    clusters: Cluster[];
+    commonFunders: CommonFunder[];
+    risk: RiskReport;
+    labels: Record<string, EntityLabel>;
+    userLabels: Record<string, UserLabel>;
+    watchlists: Record<string, string[]>;
     summary: {
         totalHolders: number;
         totalRelatedAddresses: number;
         totalTransactions: number;
+        totalTokenTransfers: number;
+        apiCallCount: number;
+        cacheHits: number;
+        cacheMisses: number;
+        budgetExhausted: boolean;
+        exchangeEdgesRemoved: number;
+        exchangeEdgesCollapsed: number;
+        completeness: HolderCompleteness;
+    };
+}
+
+/**
+ * 可序列化的分析结果（Map 转换为普通对象）
+ * @interface SerializedAnalysisResult
+ */
+interface SerializedAnalysisResult extends Omit<AnalysisResult, 'relatedAddresses'> {
+    relatedAddresses: { [holderAddress: string]: HolderData };
+}
+
+/**
+ * 单个地址关联查询参数
+ */
+type RelationParameters = Pick<AnalysisParameters, 'minAmount' | 'direction' | 'exchangeMode'>;
+
+/**
+ * 单个地址一跳的关联交易
+ * @interface AddressRelations
+ * @property {string} address - 查询的地址
+ * @property {RelationParameters} parameters - 实际生效的查询参数
+ */
+interface AddressRelations extends HolderData {
+    address: string;
+    parameters: RelationParameters;
+    status: RelationStatus;
+    labels: Record<string, EntityLabel>;
+    userLabels: Record<string, UserLabel>;
+    watchlists: Record<string, string[]>;
+    summary: {
+        apiCallCount: number;
+        cacheHits: number;
+        cacheMisses: number;
+        budgetExhausted: boolean;
+        exchangeEdgesRemoved: number;
+        exchangeEdgesCollapsed: number;
     };
 }
 
+/**
+ * 分析进度事件
+ * - step: 进入新的分析步骤
+ * - holder: 开始分析某个持有者
+ * - holder_result: 某个持有者的关联图谱已完成
+ */
+type AnalysisProgressEvent =
+    | { type: 'step'; step: number; totalSteps: number; message: string }
+    | { type: 'holder'; index: number; total: number; address: string }
+    | {
+        type: 'holder_result';
+        index: number;
+        total: number;
+        address: string;
+        data: HolderData;
+        status: RelationStatus;
+        apiCallCount: number;
+    };
+
+/**
+ * 分析选项
+ * @interface AnalyzeOptions
+ * @property {Function} onProgress - 进度回调
+ * @property {AbortSignal} signal - 取消信号，取消后不再发起新的查询
+ * @property {SerializedAnalysisResult} retryFrom - 上一次的分析结果：沿用其持有者列表与参数，
+ *   只重新查询其中失败的持有者，其余持有者的结果保持不变
+ */
+interface AnalyzeOptions {
+    onProgress?: (event: AnalysisProgressEvent) => void;
+    signal?: AbortSignal;
+    retryFrom?: SerializedAnalysisResult;
+}
+
+/**
+ * 分析被取消时抛出的错误
+ */
+class AnalysisCancelledError extends Error {
+    constructor(message: string = 'Analysis cancelled') {
+        super(message);
+        this.name = 'AnalysisCancelledError';
+    }
+}
+
 /**
  * 持有者交易分析结果
  * @interface HolderTransactionsResult
  */
 interface HolderTransactionsResult {
+    holderSource: string;
     topHolders: Holder[];
     transactionGraph: Map<string, Transaction[]>;
 }
 
+/**
+ * 将单个持有者的交易图谱整理为持有者数据
+ * @param {Map<string, Transaction[]>} graph - 交易图谱
+ * @returns {HolderData} 持有者数据
+ */
+function buildHolderData(graph: Map<string, Transaction[]>): HolderData {
+    const incomingAddresses = new Set<string>();
+    const outgoingAddresses = new Set<string>();
+    const transactions: TransactionData[] = [];
+    let totalInAmount = 0;
+    let totalOutAmount = 0;
+
+    for (const [from, edges] of graph) {
+        edges.forEach(edge => {
+            transactions.push({
+                from,
+                to: edge.to,
+                amount: edge.amount,
+                time: edge.formattedTime,
+                timestamp: edge.timestamp,
+                type: edge.type || 'in',
+                asset: edge.asset
+            });
+
+            if (edge.type === 'in') {
+                incomingAddresses.add(from);
+                totalInAmount += edge.amount;
+            } else if (edge.type === 'out') {
+                outgoingAddresses.add(edge.to);
+                totalOutAmount += edge.amount;
+            }
+        });
+    }
+
+    return {
+        incomingAddresses: Array.from(incomingAddresses),
+        outgoingAddresses: Array.from(outgoingAddresses),
+        totalInAmount,
+        totalOutAmount,
+        transactions
+    };
+}
+
+/**
+ * 统计持有者查询完整度
+ * @param {RelationStatus[]} statuses - 各持有者的查询状态
+ * @returns {HolderCompleteness} 各状态的持有者数与完整占比
+ */
+function getHolderCompleteness(statuses: RelationStatus[]): HolderCompleteness {
+    const counts: Record<RelationStatusKind, number> = { complete: 0, partial: 0, failed: 0 };
+    statuses.forEach(status => {
+        counts[status.status]++;
+    });
+    return {
+        ...counts,
+        ratio: statuses.length > 0 ? counts.complete / statuses.length : 1
+    };
+}
+
+/**
+ * 将代币转账追踪失败计入持有者查询状态
+ * 关联查询完整的持有者降为 partial，已失败的持有者保持 failed
+ * @param {RelationStatus} status - 关联查询状态
+ * @param {TokenFlowFailure} failure - 代币转账追踪失败
+ * @returns {RelationStatus} 合并后的查询状态
+ */
+function withTokenFlowFailure(status: RelationStatus, failure: TokenFlowFailure): RelationStatus {
+    return {
+        status: status.status === 'failed' ? 'failed' : 'partial',
+        reason: status.reason ? `${status.reason}; ${failure.reason}` : failure.reason,
+        callsAttempted: status.callsAttempted,
+        failedLookups: status.failedLookups + failure.failedLookups
+    };
+}
+
+/**
+ * 获取上一次分析中查询失败的持有者
+ * @param {SerializedAnalysisResult} result - 分析结果
+ * @returns {string[]} 失败持有者地址，按持有者顺序
+ */
+function getFailedHolders(result: SerializedAnalysisResult): string[] {
+    return result.topHolders
+        .map(holder => holder.holder_address)
+        .filter(address => result.holderStatus[address]?.status === 'failed');
+}
+
+/**
+ * 序列化分析结果
+ * 注意：Map 对象需要转换为普通对象才能序列化
+ * @param {AnalysisResult} result - 分析结果
+ * @returns {SerializedAnalysisResult} 可 JSON 序列化的结果
+ */
+function serializeAnalysisResult(result: AnalysisResult): SerializedAnalysisResult {
+    return {
+        ...result,
+        relatedAddresses: Object.fromEntries(result.relatedAddresses)
+    };
+}
+
 /**
  * 分析代币持有者之间的直接交易关系
  * @param tokenAddress 代币地址
@@ -97,8 +340,8 @@ async function analyzeTokenHoldersTransactions(
     try {
         // 获取持有者列表
         console.log('\n[1/3] 获取代币持有者列表...');
-        const holders = await fetchTokenHolders(tokenAddress);
-        console.log(`✓ 成功获取 ${holders.length} 个持有者信息`);
+        const { source, holders } = await fetchHoldersWithFallback(tokenAddress);
+        console.log(`✓ 成功从 ${source} 获取 ${holders.length} 个持有者信息`);
 
         // 获取前N大持有者
         const topHolders = holders
@@ -136,7 +379,7 @@ async function analyzeTokenHoldersTransactions(
         console.log(`\n总交易次数: ${totalTransactions}`);
 
         console.log('\n✓ 分析完成');
-        return { topHolders, transactionGraph };
+        return { holderSource: source, topHolders, transactionGraph };
 
     } catch (error) {
         console.error('\n❌ 分析过程中出现错误:', error);
@@ -155,13 +398,24 @@ async function analyzeTokenHoldersTransactions(
  * 4. 生成详细的分析报告
  * 
  * @param {string} tokenAddress - 要分析的代币地址
- * @param {number} topN - 分析前N个大户，默认为10
- * @param {number} minAmount - 最小交易金额阈值（SOL），默认为10
+ * @param {Partial<AnalysisParameters>} parameters - 分析参数，未提供的使用默认值
+ *   （topN 20、maxDepth 2、minAmount 5 SOL、双向、合并交易所节点）
+ * @param {AnalyzeOptions} options - 分析选项（如进度回调、只重试失败持有者的上一次结果）
  * 
  * @returns {Promise<AnalysisResult>} 返回分析结果，包含：
  * - tokenAddress: 分析的代币地址
+ * - parameters: 实际生效的分析参数
+ * - holderSource: 提供持有者列表的数据源
  * - topHolders: 前N大持有者信息
  * - relatedAddresses: 关联地址网络图谱
+ * - holderStatus: 每个持有者的查询状态（complete / partial / failed）、原因与尝试的调用数
+ * - tokenFlows: 被分析代币在持有者与对手方之间的转账
+ * - clusters: 通过交易关系相互关联的持有者群组
+ * - commonFunders: 为多个持有者提供资金的共同资金来源
+ * - risk: 持有者与代币的风险评分
+ * - labels: 结果中已知地址的实体标签
+ * - userLabels: 结果中地址的用户自定义标签
+ * - watchlists: 结果中地址所属的观察列表名称
  * - summary: 分析统计摘要
  * 
  * @throws {Error} 当API调用失败或数据处理出错时抛出异常
@@ -169,27 +423,51 @@ async function analyzeTokenHoldersTransactions(
  * @example
  * const result = await analyzeTokenHoldersRelatedAddresses(
  *   "TokenAddress123",
- *   10,
- *   10
+ *   { topN: 10, maxDepth: 2, minAmount: 10, direction: 'in' }
  * );
  */
 async function analyzeTokenHoldersRelatedAddresses(
     tokenAddress: string,
-    topN: number = 20,
-    minAmount: number = 5
+    parameters: Partial<AnalysisParameters> = {},
+    options: AnalyzeOptions = {}
 ): Promise<AnalysisResult> {
     try {
+        const previous = options.retryFrom;
+        // 重试时沿用上一次的参数，保证与未重试持有者的结果一致
+        const effectiveParameters: AnalysisParameters = previous
+            ? previous.parameters
+            : { ...DEFAULT_ANALYSIS_PARAMETERS, ...parameters };
+        const { topN, minAmount, maxDepth, direction, exchangeMode, traceTokenFlow } = effectiveParameters;
+        const traversalOptions = {
+            ...getDefaultTraversalOptions(),
+            maxDepth,
+            direction,
+            exchangeMode
+        };
+        const emit = options.onProgress ?? (() => undefined);
+        // 本次分析独立的调用统计
+        const stats = createSolscanStats();
+
         // 1. 获取持有者列表
         console.log('\n=== 开始分析代币持有者关联网络 ===');
         console.log(`Token Address: ${tokenAddress}`);
-        console.log(`分析参数: Top ${topN} holders, 最小交易金额 ${minAmount} SOL`);
+        console.log(`分析参数: Top ${topN} holders, 最小交易金额 ${minAmount} SOL, 深度 ${maxDepth}, 方向 ${direction}`);
 
-        console.log('\n[1/4] 获取代币持有者列表...');
-        const holders = await fetchTokenHolders(tokenAddress);
-        console.log(`✓ 成功获取 ${holders.length} 个持有者信息`);
+        console.log(previous ? '\n[1/4] 沿用上次分析的持有者列表...' : '\n[1/4] 获取代币持有者列表...');
+        emit({
+            type: 'step',
+            step: 1,
+            totalSteps: 4,
+            message: previous ? 'Reusing holders from previous analysis' : 'Fetching token holders'
+        });
+        const { source, capabilities, holders } = previous
+            ? { source: previous.holderSource, capabilities: previous.holderSourceCapabilities, holders: previous.topHolders }
+            : await fetchHoldersWithFallback(tokenAddress, topN);
+        console.log(`✓ 成功从 ${source} 获取 ${holders.length} 个持有者信息`);
 
         // 2. 获取前N大持有者
         console.log('\n[2/4] 筛选大额持有者...');
+        emit({ type: 'step', step: 2, totalSteps: 4, message: 'Selecting top holders' });
         const topHolders = holders
             .sort((a, b) => parseFloat(b.holder_pct_of_supply) - parseFloat(a.holder_pct_of_supply))
             .slice(0, topN);
@@ -201,100 +479,268 @@ async function analyzeTokenHoldersRelatedAddresses(
             console.log(`   持仓比例: ${(parseFloat(holder.holder_pct_of_supply) * 100).toFixed(2)}%`);
         });
 
-        // 3. 分析每个持有者的关联地址
-        console.log('\n[3/4] 分析关联地址网络...');
-        const holderGraphs = new Map<string, Map<string, Transaction[]>>();
-        for (const holder of topHolders) {
-            console.log(`\n分析持有者: ${holder.holder_address}`);
-            console.log(`SNS: ${holder.holder_sns || 'N/A'}`);
-            const graph = await getAddressRelationGraph(holder.holder_address, minAmount);
-            holderGraphs.set(holder.holder_address, graph);
-            console.log(`✓ 获取到 ${graph.size} 个关联地址`);
-        }
-
-        // 4. 构建分析结果
-        console.log('\n[4/4] 生成分析报告...');
         const result: AnalysisResult = {
             tokenAddress,
+            parameters: effectiveParameters,
+            holderSource: source,
+            holderSourceCapabilities: capabilities,
             topHolders,
-            relatedAddresses: new Map(),
+            relatedAddresses: new Map(previous ? Object.entries(previous.relatedAddresses) : []),
+            holderStatus: previous ? { ...previous.holderStatus } : {},
+            tokenFlows: previous ? [...previous.tokenFlows] : [],
+            clusters: [],
+            commonFunders: [],
+            risk: {
+                token: { score: 0, level: 'low', factors: [] },
+                holders: {}
+            },
+            labels: {},
+            userLabels: {},
+            watchlists: {},
             summary: {
                 totalHolders: topHolders.length,
                 totalRelatedAddresses: 0,
-                totalTransactions: 0
+                totalTransactions: 0,
+                totalTokenTransfers: 0,
+                apiCallCount: 0,
+                cacheHits: 0,
+                cacheMisses: 0,
+                budgetExhausted: false,
+                exchangeEdgesRemoved: 0,
+                exchangeEdgesCollapsed: 0,
+                completeness: getHolderCompleteness([])
             }
         };
 
-        // 5. 处理每个持有者的数据
-        for (const [holderAddress, graph] of holderGraphs) {
-            console.log(`\n处理持有者数据: ${holderAddress}`);
-            const holderData = {
-                incomingAddresses: new Set<string>(),
-                outgoingAddresses: new Set<string>(),
-                totalInAmount: 0,
-                totalOutAmount: 0,
-                transactions: [] as TransactionData[]
-            };
-
-            // 处理交易数据
-            for (const [from, edges] of graph) {
-                edges.forEach(edge => {
-                    holderData.transactions.push({
-                        from,
-                        to: edge.to,
-                        amount: edge.amount,
-                        time: edge.formattedTime,
-                        type: edge.type || 'in'
-                    });
-
-                    if (edge.type === 'in') {
-                        holderData.incomingAddresses.add(from);
-                        holderData.totalInAmount += edge.amount;
-                    } else {
-                        holderData.outgoingAddresses.add(edge.to);
-                        holderData.totalOutAmount += edge.amount;
-                    }
+        // 3. 并发分析所有持有者（重试时只分析上次失败的持有者）的关联地址，完成一个即汇报一个
+        console.log('\n[3/4] 分析关联地址网络...');
+        emit({ type: 'step', step: 3, totalSteps: 4, message: 'Analyzing related addresses' });
+        const analyzedAddresses = previous
+            ? getFailedHolders(previous)
+            : topHolders.map(holder => holder.holder_address);
+        const holderIndex = new Map(analyzedAddresses.map((address, index) => [address, index]));
+        analyzedAddresses.forEach((address, index) => {
+            emit({ type: 'holder', index, total: analyzedAddresses.length, address });
+        });
+
+        const graphs = await getRelationGraphs(
+            analyzedAddresses,
+            minAmount,
+            stats,
+            { ...traversalOptions, signal: options.signal },
+            (address, { graph, status }) => {
+                const holderData = buildHolderData(graph);
+
+                console.log(`\n✓ 持有者 ${address}: ${graph.size} 个关联地址 (${status.status})`);
+                console.log(`✓ 转入地址: ${holderData.incomingAddresses.length}`);
+                console.log(`✓ 转出地址: ${holderData.outgoingAddresses.length}`);
+                console.log(`✓ 交易总数: ${holderData.transactions.length}`);
+                if (status.reason) {
+                    console.log(`⚠️ ${status.reason}`);
+                }
+
+                emit({
+                    type: 'holder_result',
+                    index: holderIndex.get(address) ?? 0,
+                    total: analyzedAddresses.length,
+                    address,
+                    data: holderData,
+                    status,
+                    apiCallCount: stats.apiCallCount
                 });
             }
+        );
 
-            // 更新结果
-            result.relatedAddresses.set(holderAddress, {
-                incomingAddresses: Array.from(holderData.incomingAddresses),
-                outgoingAddresses: Array.from(holderData.outgoingAddresses),
-                totalInAmount: holderData.totalInAmount,
-                totalOutAmount: holderData.totalOutAmount,
-                transactions: holderData.transactions
-            });
+        // 关联地址分析结束后、追踪代币转账前检查是否已取消
+        if (options.signal?.aborted) {
+            throw new AnalysisCancelledError();
+        }
 
-            // 更新统计数据
+        // 追踪被分析代币在持有者与对手方之间的转账，重试时与上次的转账合并去重
+        let tokenFlowFailures = new Map<string, TokenFlowFailure>();
+        if (traceTokenFlow && analyzedAddresses.length > 0) {
+            const { graph: tokenGraph, failures } = await getTokenFlows(
+                analyzedAddresses,
+                tokenAddress,
+                stats,
+                { ...traversalOptions, signal: options.signal }
+            );
+            const getFlowKey = (tx: TransactionData) => `${tx.from}-${tx.to}-${tx.timestamp}-${tx.amount}`;
+            const seen = new Set(result.tokenFlows.map(getFlowKey));
+            result.tokenFlows.push(
+                ...buildHolderData(tokenGraph).transactions.filter(tx => !seen.has(getFlowKey(tx)))
+            );
+            tokenFlowFailures = failures;
+        }
+
+        if (options.signal?.aborted) {
+            throw new AnalysisCancelledError();
+        }
+
+        // 按持有者顺序写入结果（重试时覆盖失败持有者的结果），代币转账追踪失败的持有者标记为不完整
+        for (const [address, { graph, status }] of graphs) {
+            const tokenFlowFailure = tokenFlowFailures.get(address);
+            result.relatedAddresses.set(address, buildHolderData(graph));
+            result.holderStatus[address] = tokenFlowFailure ? withTokenFlowFailure(status, tokenFlowFailure) : status;
+        }
+
+        // 4. 生成统计数据
+        console.log('\n[4/4] 生成分析报告...');
+        emit({ type: 'step', step: 4, totalSteps: 4, message: 'Building report' });
+        for (const holderData of result.relatedAddresses.values()) {
             result.summary.totalRelatedAddresses +=
-                holderData.incomingAddresses.size +
-                holderData.outgoingAddresses.size;
+                holderData.incomingAddresses.length +
+                holderData.outgoingAddresses.length;
             result.summary.totalTransactions += holderData.transactions.length;
+        }
+        result.summary.totalTokenTransfers = result.tokenFlows.length;
+        result.summary.completeness = getHolderCompleteness(
+            topHolders.map(holder => result.holderStatus[holder.holder_address]).filter(Boolean)
+        );
+        Object.assign(result.summary, stats);
+        // 重试时累加上次分析的调用与交易所统计，沿用的持有者结果来自上次分析
+        if (previous) {
+            result.summary.apiCallCount += previous.summary.apiCallCount;
+            result.summary.cacheHits += previous.summary.cacheHits;
+            result.summary.cacheMisses += previous.summary.cacheMisses;
+            result.summary.exchangeEdgesRemoved += previous.summary.exchangeEdgesRemoved;
+            result.summary.exchangeEdgesCollapsed += previous.summary.exchangeEdgesCollapsed;
+        }
+        result.clusters = detectClusters(topHolders, [
+            ...result.relatedAddresses.values(),
+            { transactions: result.tokenFlows }
+        ]);
+        result.commonFunders = detectCommonFunders(topHolders, result.relatedAddresses.values());
+        result.risk = scoreAnalysis(result);
 
-            console.log(`✓ 转入地址: ${holderData.incomingAddresses.size}`);
-            console.log(`✓ 转出地址: ${holderData.outgoingAddresses.size}`);
-            console.log(`✓ 交易总数: ${holderData.transactions.length}`);
+        // 为结果中出现的所有地址附加实体标签
+        const addresses = new Set(topHolders.map(holder => holder.holder_address));
+        [...result.relatedAddresses.values(), { transactions: result.tokenFlows }].forEach(holderData => {
+            holderData.transactions.forEach(tx => {
+                addresses.add(tx.from);
+                addresses.add(tx.to);
+            });
+        });
+        result.labels = collectEntityLabels(addresses);
+
+        // 附加用户自定义标签与观察列表，读取失败不影响分析结果
+        try {
+            const annotations = await collectUserAnnotations(addresses);
+            result.userLabels = annotations.labels;
+            result.watchlists = annotations.watchlists;
+        } catch (error) {
+            console.warn('⚠️ 读取自定义标签失败:', error);
         }
 
-        // 6. 输出分析摘要
+        // 5. 输出分析摘要
         console.log('\n=== 分析报告摘要 ===');
+        console.log(`• 持有者数据源: ${result.holderSource}`);
         console.log(`• 分析持有者数量: ${result.summary.totalHolders}`);
         console.log(`• 关联地址总数: ${result.summary.totalRelatedAddresses}`);
         console.log(`• 交易总数: ${result.summary.totalTransactions}`);
+        console.log(`• 代币转账数: ${result.summary.totalTokenTransfers}`);
+        console.log(`• 关联持有者群组: ${result.clusters.length}`);
+        console.log(`• 共同资金来源: ${result.commonFunders.length}`);
+        console.log(`• 代币风险评分: ${result.risk.token.score} (${result.risk.token.level})`);
+        console.log(`• API 调用次数: ${result.summary.apiCallCount}`);
+        console.log(`• 缓存命中/未命中: ${result.summary.cacheHits}/${result.summary.cacheMisses}`);
+        console.log(`• 交易所交易 移除/合并: ${result.summary.exchangeEdgesRemoved}/${result.summary.exchangeEdgesCollapsed}`);
+        const { complete, partial, failed } = result.summary.completeness;
+        console.log(`• 持有者查询 完整/部分/失败: ${complete}/${partial}/${failed}`);
         console.log('=== 分析完成 ===\n');
 
         return result;
 
     } catch (error) {
+        if (error instanceof AnalysisCancelledError) {
+            console.log('\n⚠️ 分析已取消');
+            throw error;
+        }
         console.error('\n❌ 分析过程中出现错误:');
         console.error(error);
         throw error;
     }
 }
 
+/**
+ * 获取任意地址一跳的转入/转出交易
+ * 复用持有者分析的 Solscan 查询、缓存与交易所处理，用于在关系图中按需展开节点
+ * @param {string} address - 要查询的地址
+ * @param {Partial<RelationParameters>} parameters - 查询参数，未提供的使用默认值
+ * @returns {Promise<AddressRelations>} 关联交易与地址标签
+ */
+async function getAddressRelations(
+    address: string,
+    parameters: Partial<RelationParameters> = {}
+): Promise<AddressRelations> {
+    const { minAmount, direction, exchangeMode } = { ...DEFAULT_ANALYSIS_PARAMETERS, ...parameters };
+    const stats = createSolscanStats();
+
+    console.log(`\n🔗 查询地址一跳关联: ${address}`);
+    const graphs = await getRelationGraphs([address], minAmount, stats, {
+        ...getDefaultTraversalOptions(),
+        maxDepth: 1,
+        direction,
+        exchangeMode
+    });
+    const { graph, status } = graphs.get(address)!;
+    const holderData = buildHolderData(graph);
+
+    const addresses = new Set([address]);
+    holderData.transactions.forEach(tx => {
+        addresses.add(tx.from);
+        addresses.add(tx.to);
+    });
+
+    const relations: AddressRelations = {
+        address,
+        parameters: { minAmount, direction, exchangeMode },
+        status,
+        ...holderData,
+        labels: collectEntityLabels(addresses),
+        userLabels: {},
+        watchlists: {},
+        summary: { ...stats }
+    };
+
+    try {
+        const annotations = await collectUserAnnotations(addresses);
+        relations.userLabels = annotations.labels;
+        relations.watchlists = annotations.watchlists;
+    } catch (error) {
+        console.warn('⚠️ 读取自定义标签失败:', error);
+    }
+
+    return relations;
+}
+
 // 导出函数
 export {
     analyzeTokenHoldersTransactions,
-    analyzeTokenHoldersRelatedAddresses
+    analyzeTokenHoldersRelatedAddresses,
+    getAddressRelations,
+    getFailedHolders,
+    serializeAnalysisResult,
+    AnalysisCancelledError
+};
+
+export type {
+    TransactionData,
+    AnalysisParameters,
+    FlowDirection,
+    ExchangeMode,
+    AnalysisResult,
+    HolderCompleteness,
+    RelationStatus,
+    RelationStatusKind,
+    RelationParameters,
+    AddressRelations,
+    AnalysisProgressEvent,
+    AnalyzeOptions,
+    SerializedAnalysisResult,
+    Cluster,
+    CommonFunder,
+    RiskReport,
+    EntityLabel,
+    UserLabel
 };
\ No newline at end of file
@@ -0,0 +1,86 @@
+/**
+ * assets.ts
+ * 主要功能：资金追踪使用的资产配置
+ *
+ * 资产列表定义在 config/funding-assets.json，每个资产包含代币地址、精度与最小金额阈值
+ * 通过环境变量 FUNDING_ASSETS（逗号分隔的资产符号）选择启用的资产
+ * 默认只启用 defaultEnabled 不为 false 的资产（SOL、wSOL）：每个资产对每个地址、每个方向单独查询一次，
+ * 启用的资产越多 Solscan 调用越多
+ * SOL_TOKEN_ADDRESS（旧配置）设置时覆盖 wSOL 资产的代币地址
+ */
+
+import dotenv from 'dotenv';
+import fundingAssets from '../config/funding-assets.json';
+
+dotenv.config();
+
+// 类型定义
+/**
+ * 资金追踪资产
+ * @interface FundingAsset
+ * @property {string} symbol - 资产符号，记录在每条交易边上
+ * @property {string} token - Solscan 查询使用的代币地址（原生 SOL 使用 Solscan 的占位地址）
+ * @property {string} activityType - Solscan 活动类型过滤，未设置时不过滤（原生 SOL 转账）
+ * @property {number} decimals - 精度，响应中缺少 token_decimals 时使用
+ * @property {number} minAmount - 最小金额阈值（资产单位）
+ * @property {boolean} solDenominated - 是否以 SOL 计价；为 true 时使用分析参数中的 minAmount
+ * @property {boolean} defaultEnabled - 未设置 FUNDING_ASSETS 时是否启用，默认启用
+ */
+interface FundingAsset {
+    symbol: string;
+    token: string;
+    activityType?: string;
+    decimals: number;
+    minAmount: number;
+    solDenominated?: boolean;
+    defaultEnabled?: boolean;
+}
+
+const ALL_FUNDING_ASSETS: FundingAsset[] = fundingAssets.assets.map(asset =>
+    asset.symbol === 'wSOL' && process.env.SOL_TOKEN_ADDRESS
+        ? { ...asset, token: process.env.SOL_TOKEN_ADDRESS }
+        : asset
+);
+
+const DEFAULT_FUNDING_ASSETS = ALL_FUNDING_ASSETS.filter(asset => asset.defaultEnabled !== false);
+
+/**
+ * 获取启用的资金追踪资产
+ * @returns {FundingAsset[]} 资产列表，顺序与配置文件一致
+ */
+function getFundingAssets(): FundingAsset[] {
+    const enabled = process.env.FUNDING_ASSETS
+        ?.split(',')
+        .map(symbol => symbol.trim().toLowerCase())
+        .filter(Boolean);
+
+    if (!enabled || enabled.length === 0) {
+        return DEFAULT_FUNDING_ASSETS;
+    }
+
+    const assets = ALL_FUNDING_ASSETS.filter(asset => enabled.includes(asset.symbol.toLowerCase()));
+    if (assets.length === 0) {
+        console.warn(`⚠️ FUNDING_ASSETS matched no configured asset, falling back to the default assets`);
+        return DEFAULT_FUNDING_ASSETS;
+    }
+    return assets;
+}
+
+/**
+ * 获取资产本次分析使用的最小金额阈值
+ * @param {FundingAsset} asset - 资产
+ * @param {number} minAmount - 分析参数中的最小金额（SOL）
+ * @returns {number} 阈值（资产单位）
+ */
+function getAssetThreshold(asset: FundingAsset, minAmount: number): number {
+    return asset.solDenominated ? minAmount : asset.minAmount;
+}
+
+export {
+    getFundingAssets,
+    getAssetThreshold
+};
+
+export type {
+    FundingAsset
+};
@@ -0,0 +1,164 @@
+/**
+ * cache.ts
+ * 主要功能：带过期时间的响应缓存
+ *
+ * 缓存后端可插拔：
+ * - memory: 进程内 LRU 缓存（默认）
+ * - file: 本地磁盘缓存，进程重启后仍然有效
+ * - none: 关闭缓存
+ */
+
+import dotenv from 'dotenv';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { createHash } from 'crypto';
+
+dotenv.config();
+
+// 类型定义
+/**
+ * 缓存条目
+ * @interface CacheEntry
+ * @property {T} value - 缓存值
+ * @property {number} expiresAt - 过期时间戳（毫秒）
+ */
+interface CacheEntry<T> {
+    value: T;
+    expiresAt: number;
+}
+
+/**
+ * 缓存存储接口
+ * @interface CacheStore
+ */
+interface CacheStore {
+    get<T>(key: string): Promise<T | null>;
+    set<T>(key: string, value: T, ttlMs: number): Promise<void>;
+}
+
+/**
+ * 内存 LRU 缓存
+ * 利用 Map 的插入顺序，最近访问的条目移动到末尾，超出容量时淘汰最早的条目
+ */
+class MemoryLRUCache implements CacheStore {
+    private entries = new Map<string, CacheEntry<unknown>>();
+
+    constructor(private maxEntries: number = 1000) { }
+
+    async get<T>(key: string): Promise<T | null> {
+        const entry = this.entries.get(key);
+        if (!entry) return null;
+
+        this.entries.delete(key);
+        if (entry.expiresAt <= Date.now()) return null;
+
+        this.entries.set(key, entry);
+        return entry.value as T;
+    }
+
+    async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+        this.entries.delete(key);
+        this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+        while (this.entries.size > this.maxEntries) {
+            const oldest = this.entries.keys().next().value as string;
+            this.entries.delete(oldest);
+        }
+    }
+}
+
+/**
+ * 磁盘缓存，每个键一个 JSON 文件（文件名为键的哈希）
+ */
+class FileCache implements CacheStore {
+    constructor(private dir: string) { }
+
+    private filePath(key: string): string {
+        const hash = createHash('sha1').update(key).digest('hex');
+        return path.join(this.dir, `${hash}.json`);
+    }
+
+    async get<T>(key: string): Promise<T | null> {
+        try {
+            const content = await fs.readFile(this.filePath(key), 'utf8');
+            const entry = JSON.parse(content) as CacheEntry<T>;
+            if (entry.expiresAt <= Date.now()) {
+                await fs.unlink(this.filePath(key)).catch(() => undefined);
+                return null;
+            }
+            return entry.value;
+        } catch {
+            return null;
+        }
+    }
+
+    async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+        const entry: CacheEntry<T> = { value, expiresAt: Date.now() + ttlMs };
+        await fs.mkdir(this.dir, { recursive: true });
+        await fs.writeFile(this.filePath(key), JSON.stringify(entry));
+    }
+}
+
+/**
+ * 不缓存任何内容的空实现
+ */
+class NoopCache implements CacheStore {
+    async get<T>(): Promise<T | null> {
+        return null;
+    }
+
+    async set(): Promise<void> {
+        return;
+    }
+}
+
+/**
+ * 将请求参数规范化为缓存键
+ * 键按字母排序并忽略 undefined，参数顺序不同的相同请求得到相同的键
+ * @param {string} namespace - 命名空间（如接口路径）
+ * @param {object} params - 请求参数
+ * @returns {string} 缓存键
+ */
+function normalizeCacheKey(namespace: string, params: object): string {
+    const normalized = Object.entries(params)
+        .filter(([, value]) => value !== undefined)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([key, value]) => `${key}=${String(value)}`)
+        .join('&');
+
+    return `${namespace}?${normalized}`;
+}
+
+/**
+ * 根据环境变量创建缓存存储
+ * @param {string} prefix - 环境变量前缀，如 SOLSCAN_CACHE
+ *   - {prefix}: memory | file | none，默认 memory
+ *   - {prefix}_MAX_ENTRIES: 内存缓存容量，默认 1000
+ *   - {prefix}_DIR: 磁盘缓存目录，默认 .data/cache
+ * @returns {CacheStore} 缓存存储
+ */
+function createCacheStore(prefix: string): CacheStore {
+    const backend = process.env[prefix] || 'memory';
+
+    switch (backend) {
+        case 'none':
+            return new NoopCache();
+        case 'file':
+            return new FileCache(process.env[`${prefix}_DIR`] || path.join(process.cwd(), '.data', 'cache'));
+        default:
+            return new MemoryLRUCache(Number(process.env[`${prefix}_MAX_ENTRIES`] || 1000));
+    }
+}
+
+export {
+    MemoryLRUCache,
+    FileCache,
+    NoopCache,
+    normalizeCacheKey,
+    createCacheStore
+};
+
+export type {
+    CacheStore,
+    CacheEntry
+};
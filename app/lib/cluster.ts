@@ -0,0 +1,153 @@
+/**
+ * cluster.ts
+ * 主要功能：识别通过交易关系相互关联的持有者群组（cabal）
+ *
+ * 工作流程：
+ * 1. 将所有持有者的交易记录合并为无向图（交易所地址不作为连接点）
+ * 2. 求连通分量，保留包含至少两个持有者的分量
+ * 3. 反复剪除度为 1 的非持有者节点，剩余的非持有者节点即为连接地址
+ * 4. 汇总群组持仓比例与作为证据的交易边
+ */
+
+import { createHash } from 'crypto';
+import type { TransactionData } from './analyze';
+import { isExchangeAddress } from './entities';
+
+// 类型定义
+
+/**
+ * 持有者群组
+ * @interface Cluster
+ * @property {string} id - 稳定 ID，由成员持有者地址计算得出
+ * @property {string[]} holders - 成员持有者地址
+ * @property {string[]} connectors - 连接成员的非持有者地址
+ * @property {number} totalPct - 成员合计持有比例（0-1）
+ * @property {TransactionData[]} edges - 连接成员的交易边
+ */
+interface Cluster {
+    id: string;
+    holders: string[];
+    connectors: string[];
+    totalPct: number;
+    edges: TransactionData[];
+}
+
+/**
+ * 群组识别所需的持有者信息
+ */
+interface ClusterHolder {
+    holder_address: string;
+    holder_pct_of_supply: string;
+}
+
+/**
+ * 根据成员地址生成稳定的群组 ID
+ * @param {string[]} holders - 成员持有者地址
+ * @returns {string} 群组 ID
+ */
+function getClusterId(holders: string[]): string {
+    const hash = createHash('sha1').update([...holders].sort().join(',')).digest('hex');
+    return `cluster-${hash.substring(0, 10)}`;
+}
+
+/**
+ * 识别持有者群组
+ * @param {ClusterHolder[]} topHolders - 持有者列表
+ * @param {Iterable<{ transactions: TransactionData[] }>} holderData - 每个持有者的交易记录
+ * @returns {Cluster[]} 按合计持有比例降序排列的群组
+ */
+function detectClusters(
+    topHolders: ClusterHolder[],
+    holderData: Iterable<{ transactions: TransactionData[] }>
+): Cluster[] {
+    const holderPct = new Map(
+        topHolders.map(holder => [holder.holder_address, parseFloat(holder.holder_pct_of_supply) || 0])
+    );
+
+    // 构建无向邻接表，并对重复的交易边去重
+    const adjacency = new Map<string, Set<string>>();
+    const edges = new Map<string, TransactionData>();
+    const link = (a: string, b: string) => {
+        if (!adjacency.has(a)) adjacency.set(a, new Set());
+        adjacency.get(a)!.add(b);
+    };
+
+    for (const data of holderData) {
+        for (const tx of data.transactions) {
+            if (tx.from === tx.to || isExchangeAddress(tx.from) || isExchangeAddress(tx.to)) continue;
+            const key = `${tx.from}-${tx.to}-${tx.timestamp}-${tx.amount}-${tx.asset}`;
+            if (edges.has(key)) continue;
+            edges.set(key, tx);
+            link(tx.from, tx.to);
+            link(tx.to, tx.from);
+        }
+    }
+
+    const visited = new Set<string>();
+    const clusters: Cluster[] = [];
+
+    for (const holder of holderPct.keys()) {
+        if (visited.has(holder) || !adjacency.has(holder)) continue;
+
+        // BFS 查找连通分量
+        const component = new Set<string>([holder]);
+        const queue = [holder];
+        visited.add(holder);
+        while (queue.length > 0) {
+            const current = queue.shift()!;
+            for (const neighbor of adjacency.get(current) ?? []) {
+                if (!visited.has(neighbor)) {
+                    visited.add(neighbor);
+                    component.add(neighbor);
+                    queue.push(neighbor);
+                }
+            }
+        }
+
+        const holders = Array.from(component).filter(address => holderPct.has(address));
+        if (holders.length < 2) continue;
+
+        // 剪除不连接任何成员的叶子节点
+        const degree = new Map<string, number>();
+        component.forEach(address => {
+            const neighbors = Array.from(adjacency.get(address) ?? []).filter(n => component.has(n));
+            degree.set(address, neighbors.length);
+        });
+
+        let pruned = true;
+        while (pruned) {
+            pruned = false;
+            for (const address of component) {
+                if (!holderPct.has(address) && (degree.get(address) ?? 0) <= 1) {
+                    component.delete(address);
+                    adjacency.get(address)?.forEach(neighbor => {
+                        if (component.has(neighbor)) {
+                            degree.set(neighbor, (degree.get(neighbor) ?? 1) - 1);
+                        }
+                    });
+                    pruned = true;
+                }
+            }
+        }
+
+        const sortedHolders = holders.sort();
+        clusters.push({
+            id: getClusterId(sortedHolders),
+            holders: sortedHolders,
+            connectors: Array.from(component).filter(address => !holderPct.has(address)).sort(),
+            totalPct: holders.reduce((sum, address) => sum + (holderPct.get(address) ?? 0), 0),
+            edges: Array.from(edges.values()).filter(edge => component.has(edge.from) && component.has(edge.to))
+        });
+    }
+
+    return clusters.sort((a, b) => b.totalPct - a.totalPct);
+}
+
+export {
+    detectClusters,
+    getClusterId
+};
+
+export type {
+    Cluster
+};
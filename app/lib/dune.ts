@@ -9,26 +9,53 @@
 
 import { DuneClient, QueryParameter } from '@duneanalytics/client-sdk';
 import dotenv from 'dotenv';
+import type { HolderData, HolderSource } from './holder-source';
+import { withRateLimit } from './rate-limit';
+import { ProviderError } from './errors';
+import { expectArrayOf } from './schema';
+import type { ObjectSchema } from './schema';
 
 // 配置环境变量
 dotenv.config();
 
-// 类型定义
-interface HolderData {
-    holder_address: string;
-    holder_sns: string | null;
-    holder_pct_of_supply: string;
-}
-
 // 环境变量配置
 const DUNE_API_KEY = process.env.DUNE_API_KEY;
+const DUNE_QUERY_ID = Number(process.env.DUNE_QUERY_ID || 4196813);
+
+let dune: DuneClient | null = null;
 
-// API密钥检查
-if (!DUNE_API_KEY) {
-    throw new Error('DUNE_API_KEY is not set in the environment variables');
+/**
+ * Dune 查询返回的持有者行
+ * @interface DuneHolderRow
+ */
+interface DuneHolderRow {
+    current_holders: string;
+    domains_owned: string | null;
+    pct_of_supply: number | string;
 }
 
-const dune = new DuneClient(DUNE_API_KEY);
+// Dune 查询结果行结构
+const DUNE_ROW_SCHEMA: ObjectSchema = {
+    current_holders: 'string',
+    domains_owned: { type: 'string', optional: true, nullable: true },
+    pct_of_supply: 'numeric'
+};
+
+/**
+ * 获取 Dune 客户端，首次使用时创建
+ * 数据源注册时不应因缺少密钥而导致整个模块加载失败
+ * @returns {DuneClient} Dune 客户端
+ */
+function getDuneClient(): DuneClient {
+    // API密钥检查
+    if (!DUNE_API_KEY) {
+        throw new Error('DUNE_API_KEY is not set in the environment variables');
+    }
+    if (!dune) {
+        dune = new DuneClient(DUNE_API_KEY);
+    }
+    return dune;
+}
 
 /**
  * 过滤持有者列表，移除特定类型的持有者
@@ -47,12 +74,13 @@ function filterHolders(holders: HolderData[]): HolderData[] {
 /**
  * 获取代币持有者数据
  * @param tokenAddress - 代币合约地址
+ * @param limit - 限制数量，不传则返回查询的全部结果
  * @returns 过滤后的持有者数据数组
  */
-export const fetchTokenHolders = async (tokenAddress: string): Promise<HolderData[]> => {
+export const fetchTokenHolders = async (tokenAddress: string, limit?: number): Promise<HolderData[]> => {
     console.log(`Fetching data for token: ${tokenAddress}`);
 
-    const QUERY_ID = 4196813;
+    const QUERY_ID = DUNE_QUERY_ID;
 
     const query_parameters = [
         QueryParameter.text("token_address", tokenAddress),
@@ -63,32 +91,40 @@ export const fetchTokenHolders = async (tokenAddress: string): Promise<HolderDat
     try {
         // 发送查询请求
         console.log(`Sending query to Dune Analytics (Query ID: ${QUERY_ID})...`);
-        const result = await dune.runQuery({
+        const result = await withRateLimit('dune', () => getDuneClient().runQuery({
             queryId: QUERY_ID,
             query_parameters: query_parameters,
-        });
+        }));
 
         console.log('Query execution completed.');
 
-        if (result.result?.rows) {
-            console.log(`Received ${result.result.rows.length} rows of data.`);
-
-            // 处理返回数据
-            const processedData = result.result.rows.map((row: any) => ({
-                holder_address: row.current_holders,
-                holder_sns: row.domains_owned,
-                holder_pct_of_supply: row.pct_of_supply,
-            }));
-
-            // 应用过滤器
-            const filteredData = filterHolders(processedData);
-            console.log(`Filtered from ${processedData.length} to ${filteredData.length} holders`);
-
-            return filteredData;
-        } else {
+        const endpoint = `query/${QUERY_ID}`;
+        if (!result.result?.rows) {
             console.log('No data returned from Dune Analytics');
-            throw new Error('No data returned from Dune Analytics');
+            throw new ProviderError('dune', endpoint, 'result.rows', 'No data returned from Dune Analytics');
         }
+
+        const rows = expectArrayOf<DuneHolderRow>(
+            result.result.rows,
+            DUNE_ROW_SCHEMA,
+            { provider: 'dune', endpoint },
+            'result.rows'
+        );
+        console.log(`Received ${rows.length} rows of data.`);
+
+        // 处理返回数据
+        const processedData = rows.map(row => ({
+            holder_address: row.current_holders,
+            holder_sns: row.domains_owned ?? null,
+            holder_pct_of_supply: String(row.pct_of_supply),
+            is_new: false,
+        }));
+
+        // 应用过滤器
+        const filteredData = filterHolders(processedData);
+        console.log(`Filtered from ${processedData.length} to ${filteredData.length} holders`);
+
+        return limit ? filteredData.slice(0, limit) : filteredData;
     } catch (error) {
         console.error('Error fetching token data:', error);
         if (error instanceof Error) {
@@ -97,4 +133,18 @@ export const fetchTokenHolders = async (tokenAddress: string): Promise<HolderDat
         }
         throw error;
     }
-};
\ No newline at end of file
+};
+
+/**
+ * Dune Analytics 持有者数据源
+ * Dune 查询只提供 SNS 域名，不提供 is_new 与标签
+ */
+export const duneHolderSource: HolderSource = {
+    name: 'dune',
+    capabilities: {
+        sns: true,
+        isNew: false,
+        tags: false
+    },
+    fetchTokenHolders
+};
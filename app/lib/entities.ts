@@ -0,0 +1,174 @@
+/**
+ * entities.ts
+ * 主要功能：已知实体标签注册表
+ *
+ * 实体定义在 config/entity-labels.json，按类别划分：
+ * - cex: 交易所热钱包
+ * - dex: DEX 池子 / 权限账户
+ * - bridge: 跨链桥
+ * - mev: MEV 机器人
+ * - launchpad: 发射平台
+ * - kol: 已知 KOL
+ *
+ * 地址查询使用 Map，O(1) 复杂度；实体的 holderNames 用于匹配 GMGN 返回的持有者名称
+ * mev 与 kol 只作为标签展示，不会把持有者排除出持有者列表
+ * 关系图中的交易所地址可合并为每个交易所一个节点（ID 形如 exchange:Binance）
+ * 浏览器端与服务端共用
+ */
+
+import entityLabels from '../config/entity-labels.json';
+import type { EntityCategory, EntityLabel } from '@/types';
+
+// 类型定义
+/**
+ * 关系图中交易所的处理方式
+ * - exclude: 移除与交易所相关的交易
+ * - collapse: 将同一交易所的所有地址合并为一个带标签的节点
+ * - keep: 保留原始地址
+ */
+type ExchangeMode = 'exclude' | 'collapse' | 'keep';
+
+/**
+ * 注册表中的实体定义
+ * 没有已知地址的实体只按持有者名称匹配
+ * @interface EntityDefinition
+ * @property {string[]} addresses - 实体地址
+ * @property {string[]} holderNames - GMGN 持有者名称中包含其中之一（不区分大小写）即视为该实体
+ */
+interface EntityDefinition extends EntityLabel {
+    addresses?: string[];
+    holderNames?: string[];
+}
+
+// 类别显示名称
+const ENTITY_CATEGORY_NAMES: Record<EntityCategory, string> = {
+    cex: 'CEX hot wallet',
+    dex: 'DEX pool / authority',
+    bridge: 'Bridge',
+    mev: 'MEV bot',
+    launchpad: 'Launchpad',
+    kol: 'KOL'
+};
+
+// 不计入持有者列表的类别（持仓不代表真实持有者），mev 与 kol 是真实持有者，只打标签
+const HOLDER_EXCLUDED_CATEGORIES: EntityCategory[] = ['cex', 'dex', 'bridge', 'launchpad'];
+
+// 关系图中视为交易所、按交易所处理的类别
+const EXCHANGE_CATEGORIES: EntityCategory[] = ['cex'];
+
+const ENTITIES = entityLabels.entities as EntityDefinition[];
+
+// 合并后交易所节点 ID 的前缀
+const EXCHANGE_NODE_PREFIX = 'exchange:';
+
+// 地址（及合并后的交易所节点 ID）-> 标签
+const labelsByAddress = new Map<string, EntityLabel>();
+ENTITIES.forEach(entity => {
+    const label = { name: entity.name, category: entity.category };
+    entity.addresses?.forEach(address => {
+        labelsByAddress.set(address, label);
+    });
+    if (EXCHANGE_CATEGORIES.includes(entity.category)) {
+        labelsByAddress.set(`${EXCHANGE_NODE_PREFIX}${entity.name}`, label);
+    }
+});
+
+// 持有者名称（小写）-> 标签
+const labelsByHolderName = ENTITIES.flatMap(entity =>
+    (entity.holderNames ?? []).map(holderName => ({
+        holderName: holderName.toLowerCase(),
+        label: { name: entity.name, category: entity.category }
+    }))
+);
+
+/**
+ * 查询地址的实体标签
+ * @param {string} address - 地址
+ * @returns {EntityLabel | undefined} 标签，未知地址返回 undefined
+ */
+function lookupEntity(address: string): EntityLabel | undefined {
+    return labelsByAddress.get(address);
+}
+
+/**
+ * 按 GMGN 持有者名称匹配实体（名称包含实体的 holderNames 之一即匹配，不区分大小写）
+ * @param {string} name - 持有者名称
+ * @returns {EntityLabel | undefined} 标签，未匹配返回 undefined
+ */
+function matchHolderName(name: string): EntityLabel | undefined {
+    const lowerName = name.toLowerCase();
+    return labelsByHolderName.find(entry => lowerName.includes(entry.holderName))?.label;
+}
+
+/**
+ * 判断地址是否为交易所地址
+ * @param {string} address - 地址
+ * @returns {boolean} 是否为交易所地址
+ */
+function isExchangeAddress(address: string): boolean {
+    const label = labelsByAddress.get(address);
+    return label !== undefined && EXCHANGE_CATEGORIES.includes(label.category);
+}
+
+/**
+ * 获取交易所地址合并后的节点 ID
+ * @param {string} address - 地址
+ * @returns {string | null} 节点 ID（如 exchange:Binance），非交易所地址返回 null
+ */
+function getExchangeNodeId(address: string): string | null {
+    const label = labelsByAddress.get(address);
+    if (!label || !EXCHANGE_CATEGORIES.includes(label.category)) return null;
+    return `${EXCHANGE_NODE_PREFIX}${label.name}`;
+}
+
+/**
+ * 判断 ID 是否为合并后的交易所节点（而非链上地址）
+ * @param {string} id - 地址或节点 ID
+ * @returns {boolean} 是否为合并节点
+ */
+function isExchangeNodeId(id: string): boolean {
+    return id.startsWith(EXCHANGE_NODE_PREFIX);
+}
+
+/**
+ * 判断持有者是否应从持有者列表中排除
+ * 地址或持有者名称匹配到排除类别的实体时排除
+ * @param {string} address - 持有者地址
+ * @param {string} name - 持有者名称（可选）
+ * @returns {boolean} 是否排除
+ */
+function isExcludedHolder(address: string, name?: string | null): boolean {
+    const label = lookupEntity(address) ?? (name ? matchHolderName(name) : undefined);
+    return label !== undefined && HOLDER_EXCLUDED_CATEGORIES.includes(label.category);
+}
+
+/**
+ * 收集一组地址的实体标签
+ * @param {Iterable<string>} addresses - 地址
+ * @returns {Record<string, EntityLabel>} 地址到标签的映射，只包含已知地址
+ */
+function collectEntityLabels(addresses: Iterable<string>): Record<string, EntityLabel> {
+    const labels: Record<string, EntityLabel> = {};
+    for (const address of addresses) {
+        const label = labelsByAddress.get(address);
+        if (label) labels[address] = label;
+    }
+    return labels;
+}
+
+export {
+    lookupEntity,
+    matchHolderName,
+    isExchangeAddress,
+    isExcludedHolder,
+    getExchangeNodeId,
+    isExchangeNodeId,
+    collectEntityLabels,
+    ENTITY_CATEGORY_NAMES
+};
+
+export type {
+    EntityCategory,
+    EntityLabel,
+    ExchangeMode
+};
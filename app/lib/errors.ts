@@ -0,0 +1,100 @@
+/**
+ * errors.ts
+ * 主要功能：上游数据源错误与 API 错误类型
+ *
+ * - ProviderError: 上游数据源（GMGN、Dune、Solscan）请求失败或返回的数据不符合预期结构
+ * - ProviderInputError: 上游因请求参数（如代币地址）拒绝请求或没有数据
+ * - AnalysisError: API 路由返回给客户端的错误，携带 HTTP 状态码
+ */
+
+// 类型定义
+/**
+ * 数据源错误详情，随 API 错误响应返回
+ * @interface ProviderErrorDetails
+ * @property {string} provider - 数据源名称
+ * @property {string} endpoint - 请求的接口
+ * @property {string | null} field - 不符合预期的字段路径（如 data[3].amount_percentage）
+ */
+interface ProviderErrorDetails {
+    provider: string;
+    endpoint: string;
+    field: string | null;
+}
+
+/**
+ * 上游数据源错误
+ */
+class ProviderError extends Error {
+    constructor(
+        public provider: string,
+        public endpoint: string,
+        public field: string | null,
+        message: string
+    ) {
+        super(message);
+        this.name = 'ProviderError';
+    }
+
+    /**
+     * 错误详情
+     * @returns {ProviderErrorDetails} 数据源、接口与字段
+     */
+    toDetails(): ProviderErrorDetails {
+        return { provider: this.provider, endpoint: this.endpoint, field: this.field };
+    }
+}
+
+/**
+ * 上游因请求参数拒绝请求或没有数据时抛出的错误
+ */
+class ProviderInputError extends ProviderError {
+    constructor(provider: string, endpoint: string, field: string | null, message: string) {
+        super(provider, endpoint, field, message);
+        this.name = 'ProviderInputError';
+    }
+}
+
+/**
+ * 自定义分析错误类
+ * 用于处理分析过程中的特定错误情况
+ */
+class AnalysisError extends Error {
+    constructor(
+        message: string,
+        public statusCode: number = 500,
+        cause?: unknown
+    ) {
+        super(message, { cause });
+        this.name = 'AnalysisError';
+    }
+}
+
+/**
+ * 将任意错误转换为 API 错误
+ * - ProviderInputError: 400，请求参数问题
+ * - ProviderError: 502，上游数据源问题
+ * - 其他错误: 500
+ * @param {unknown} error - 原始错误
+ * @returns {AnalysisError} 带状态码的 API 错误，cause 为数据源错误详情
+ */
+function toAnalysisError(error: unknown): AnalysisError {
+    if (error instanceof AnalysisError) {
+        return error;
+    }
+    if (error instanceof ProviderInputError) {
+        return new AnalysisError(error.message, 400, error.toDetails());
+    }
+    if (error instanceof ProviderError) {
+        return new AnalysisError(error.message, 502, error.toDetails());
+    }
+    return new AnalysisError(error instanceof Error ? error.message : String(error), 500);
+}
+
+export {
+    ProviderError,
+    ProviderInputError,
+    AnalysisError,
+    toAnalysisError
+};
+
+export type { ProviderErrorDetails };
@@ -0,0 +1,303 @@
+/**
+ * export.ts
+ * 主要功能：将分析结果导出为文件
+ *
+ * 支持的格式：
+ * - holders-csv: 持有者列表（持仓比例、标签、群组、风险评分与关联查询状态）
+ * - transactions-csv: 关联图谱中的交易与被分析代币的转账
+ * - json: 完整分析结果
+ * - graphml / gexf: 关系图的节点与边（与 Graph.tsx 展示的一致），可导入 Gephi、yEd 等工具
+ */
+
+import { buildAnalysisGraph } from './graph';
+import type { AnalysisGraph } from './graph';
+import type { SerializedAnalysisResult } from './analyze';
+
+// 类型定义
+type ExportFormat = 'holders-csv' | 'transactions-csv' | 'json' | 'graphml' | 'gexf';
+
+/**
+ * 导出文件
+ * @interface ExportFile
+ * @property {string} name - 文件名后缀（如 holders.csv）
+ */
+interface ExportFile {
+    name: string;
+    contentType: string;
+    content: string;
+}
+
+const EXPORT_FORMATS: ExportFormat[] = ['holders-csv', 'transactions-csv', 'json', 'graphml', 'gexf'];
+
+/**
+ * 转义 CSV 字段：包含逗号、引号或换行时用双引号包裹，以 = + - @ 开头的文本加 ' 前缀
+ * @param {unknown} value - 字段值
+ * @returns {string} CSV 字段
+ */
+function csvField(value: unknown): string {
+    if (value === null || value === undefined) return '';
+    // 避免用户标签等文本在表格软件中被当作公式执行；数字不受影响
+    const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * 生成 CSV 文本
+ * @param {string[]} header - 表头
+ * @param {unknown[][]} rows - 数据行
+ * @returns {string} CSV 文本
+ */
+function toCsv(header: string[], rows: unknown[][]): string {
+    return [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * 转义 XML 文本与属性值
+ * @param {unknown} value - 原始值
+ * @returns {string} 转义后的文本
+ */
+function xmlEscape(value: unknown): string {
+    return String(value)
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
+
+/**
+ * 导出持有者列表
+ * @param {SerializedAnalysisResult} result - 分析结果
+ * @returns {string} CSV 文本
+ */
+function exportHoldersCsv(result: SerializedAnalysisResult): string {
+    const clusterByHolder = new Map<string, string>();
+    result.clusters.forEach(cluster => {
+        cluster.holders.forEach(address => clusterByHolder.set(address, cluster.id));
+    });
+
+    const rows = result.topHolders.map(holder => {
+        const address = holder.holder_address;
+        // 较早保存的快照没有标签、观察列表与持有者查询状态
+        const entity = result.labels?.[address];
+        const risk = result.risk.holders[address];
+        const status = result.holderStatus?.[address];
+        return [
+            address,
+            holder.holder_sns,
+            holder.holder_pct_of_supply,
+            holder.is_new,
+            entity?.name,
+            entity?.category,
+            result.userLabels?.[address]?.label,
+            result.watchlists?.[address]?.join('; '),
+            clusterByHolder.get(address),
+            risk?.score,
+            risk?.level,
+            status?.status,
+            status?.reason,
+            status?.callsAttempted
+        ];
+    });
+
+    return toCsv([
+        'address',
+        'sns',
+        'pct_of_supply',
+        'is_new',
+        'entity_label',
+        'entity_category',
+        'user_label',
+        'watchlists',
+        'cluster_id',
+        'risk_score',
+        'risk_level',
+        'data_status',
+        'data_status_reason',
+        'calls_attempted'
+    ], rows);
+}
+
+/**
+ * 导出交易列表
+ * 被分析代币的转账不属于某个持有者的图谱，holder 列为空
+ * @param {SerializedAnalysisResult} result - 分析结果
+ * @returns {string} CSV 文本
+ */
+function exportTransactionsCsv(result: SerializedAnalysisResult): string {
+    const rows: unknown[][] = [];
+
+    Object.entries(result.relatedAddresses).forEach(([holderAddress, holderData]) => {
+        holderData.transactions.forEach(tx => {
+            rows.push([holderAddress, tx.from, tx.to, tx.amount, tx.asset, tx.time, tx.timestamp, tx.type]);
+        });
+    });
+
+    result.tokenFlows.forEach(tx => {
+        rows.push(['', tx.from, tx.to, tx.amount, tx.asset, tx.time, tx.timestamp, 'token']);
+    });
+
+    return toCsv(['holder', 'from', 'to', 'amount', 'asset', 'time', 'timestamp', 'type'], rows);
+}
+
+/**
+ * 节点属性：名称、GraphML 类型与取值
+ */
+const NODE_ATTRIBUTES: { name: string; type: 'string' | 'double'; value: (node: AnalysisGraph['nodes'][number]) => unknown }[] = [
+    { name: 'label', type: 'string', value: node => node.label },
+    { name: 'type', type: 'string', value: node => node.type },
+    { name: 'holding_pct', type: 'double', value: node => node.holdingPct },
+    { name: 'entity_label', type: 'string', value: node => node.entity?.name },
+    { name: 'entity_category', type: 'string', value: node => node.entity?.category },
+    { name: 'user_label', type: 'string', value: node => node.userLabel?.label },
+    { name: 'watchlists', type: 'string', value: node => node.watchlists?.join('; ') },
+    { name: 'cluster_id', type: 'string', value: node => node.clusterId }
+];
+
+/**
+ * 边属性：名称、GraphML 类型与取值
+ */
+const EDGE_ATTRIBUTES: { name: string; type: 'string' | 'double' | 'long'; value: (edge: AnalysisGraph['edges'][number]) => unknown }[] = [
+    { name: 'amount', type: 'double', value: edge => edge.amount },
+    { name: 'asset', type: 'string', value: edge => edge.asset },
+    { name: 'type', type: 'string', value: edge => edge.type },
+    { name: 'time', type: 'string', value: edge => edge.time },
+    { name: 'timestamp', type: 'long', value: edge => edge.timestamp }
+];
+
+/**
+ * 导出 GraphML
+ * @param {SerializedAnalysisResult} result - 分析结果
+ * @returns {string} GraphML 文本
+ */
+function exportGraphml(result: SerializedAnalysisResult): string {
+    const { nodes, edges } = buildAnalysisGraph(result);
+    const lines = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">'
+    ];
+
+    NODE_ATTRIBUTES.forEach(attr => {
+        lines.push(`  <key id="n_${attr.name}" for="node" attr.name="${attr.name}" attr.type="${attr.type}"/>`);
+    });
+    EDGE_ATTRIBUTES.forEach(attr => {
+        lines.push(`  <key id="e_${attr.name}" for="edge" attr.name="${attr.name}" attr.type="${attr.type}"/>`);
+    });
+
+    lines.push(`  <graph id="${xmlEscape(result.tokenAddress)}" edgedefault="directed">`);
+    nodes.forEach(node => {
+        lines.push(`    <node id="${xmlEscape(node.id)}">`);
+        NODE_ATTRIBUTES.forEach(attr => {
+            const value = attr.value(node);
+            if (value === null || value === undefined) return;
+            lines.push(`      <data key="n_${attr.name}">${xmlEscape(value)}</data>`);
+        });
+        lines.push('    </node>');
+    });
+    edges.forEach((edge, index) => {
+        lines.push(`    <edge id="e${index}" source="${xmlEscape(edge.source)}" target="${xmlEscape(edge.target)}">`);
+        EDGE_ATTRIBUTES.forEach(attr => {
+            lines.push(`      <data key="e_${attr.name}">${xmlEscape(attr.value(edge))}</data>`);
+        });
+        lines.push('    </edge>');
+    });
+    lines.push('  </graph>', '</graphml>');
+
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * 导出 GEXF 1.3，边权重为转账金额
+ * @param {SerializedAnalysisResult} result - 分析结果
+ * @returns {string} GEXF 文本
+ */
+function exportGexf(result: SerializedAnalysisResult): string {
+    const { nodes, edges } = buildAnalysisGraph(result);
+    const lines = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<gexf xmlns="http://gexf.net/1.3" version="1.3">',
+        `  <meta><description>${xmlEscape(`Holder relationship graph for ${result.tokenAddress}`)}</description></meta>`,
+        '  <graph defaultedgetype="directed">',
+        '    <attributes class="node">'
+    ];
+
+    // label 已作为节点的 label 属性输出
+    const nodeAttributes = NODE_ATTRIBUTES.filter(attr => attr.name !== 'label');
+    nodeAttributes.forEach(attr => {
+        lines.push(`      <attribute id="${attr.name}" title="${attr.name}" type="${attr.type}"/>`);
+    });
+    lines.push('    </attributes>', '    <attributes class="edge">');
+
+    // amount 已作为边的 weight 输出
+    const edgeAttributes = EDGE_ATTRIBUTES.filter(attr => attr.name !== 'amount');
+    edgeAttributes.forEach(attr => {
+        lines.push(`      <attribute id="${attr.name}" title="${attr.name}" type="${attr.type}"/>`);
+    });
+    lines.push('    </attributes>', '    <nodes>');
+
+    nodes.forEach(node => {
+        lines.push(`      <node id="${xmlEscape(node.id)}" label="${xmlEscape(node.label)}">`, '        <attvalues>');
+        nodeAttributes.forEach(attr => {
+            const value = attr.value(node);
+            if (value === null || value === undefined) return;
+            lines.push(`          <attvalue for="${attr.name}" value="${xmlEscape(value)}"/>`);
+        });
+        lines.push('        </attvalues>', '      </node>');
+    });
+    lines.push('    </nodes>', '    <edges>');
+
+    edges.forEach((edge, index) => {
+        lines.push(
+            `      <edge id="${index}" source="${xmlEscape(edge.source)}" target="${xmlEscape(edge.target)}" weight="${edge.amount}">`,
+            '        <attvalues>'
+        );
+        edgeAttributes.forEach(attr => {
+            lines.push(`          <attvalue for="${attr.name}" value="${xmlEscape(attr.value(edge))}"/>`);
+        });
+        lines.push('        </attvalues>', '      </edge>');
+    });
+    lines.push('    </edges>', '  </graph>', '</gexf>');
+
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * 按格式导出分析结果
+ * @param {SerializedAnalysisResult} result - 分析结果
+ * @param {ExportFormat} format - 导出格式
+ * @returns {ExportFile} 导出文件
+ */
+function exportAnalysis(result: SerializedAnalysisResult, format: ExportFormat): ExportFile {
+    switch (format) {
+        case 'holders-csv':
+            return { name: 'holders.csv', contentType: 'text/csv; charset=utf-8', content: exportHoldersCsv(result) };
+        case 'transactions-csv':
+            return { name: 'transactions.csv', contentType: 'text/csv; charset=utf-8', content: exportTransactionsCsv(result) };
+        case 'json':
+            return { name: 'analysis.json', contentType: 'application/json; charset=utf-8', content: JSON.stringify(result, null, 2) };
+        case 'graphml':
+            return { name: 'graph.graphml', contentType: 'application/graphml+xml; charset=utf-8', content: exportGraphml(result) };
+        case 'gexf':
+            return { name: 'graph.gexf', contentType: 'application/gexf+xml; charset=utf-8', content: exportGexf(result) };
+    }
+}
+
+/**
+ * 判断是否为支持的导出格式
+ * @param {unknown} format - 待检查的值
+ * @returns {boolean} 是否支持
+ */
+function isExportFormat(format: unknown): format is ExportFormat {
+    return EXPORT_FORMATS.includes(format as ExportFormat);
+}
+
+export {
+    EXPORT_FORMATS,
+    exportAnalysis,
+    isExportFormat
+};
+
+export type {
+    ExportFormat,
+    ExportFile
+};
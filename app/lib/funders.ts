@@ -0,0 +1,199 @@
+/**
+ * funders.ts
+ * 主要功能：识别为多个大户提供资金的共同资金来源
+ *
+ * 工作流程：
+ * 1. 收集所有持有者关联图谱中直接转入持有者的 in 交易
+ * 2. 按发送方分组，在时间窗口内找出资助不同持有者最多的一段转账
+ * 3. 保留在该窗口内向至少两个不同持有者转账的地址（交易所地址除外）
+ * 4. 汇总窗口内的转账金额、时间跨度与受资助持有者的合计持仓
+ *
+ * 配置（环境变量）：
+ * - COMMON_FUNDER_WINDOW_HOURS: 时间窗口（小时），默认 72，0 表示不限制
+ */
+
+import dotenv from 'dotenv';
+import type { TransactionData } from './analyze';
+import { isExchangeAddress } from './entities';
+
+dotenv.config();
+
+// 类型定义
+
+/**
+ * 受资助的持有者
+ * @interface FundedHolder
+ * @property {string} address - 持有者地址
+ * @property {Record<string, number>} amounts - 时间窗口内来自该资金来源的转入总额（按资产）
+ * @property {number} firstFundedAt - 窗口内首次转入时间戳（秒）
+ * @property {number} lastFundedAt - 窗口内最近转入时间戳（秒）
+ */
+interface FundedHolder {
+    address: string;
+    amounts: Record<string, number>;
+    firstFundedAt: number;
+    lastFundedAt: number;
+}
+
+/**
+ * 共同资金来源
+ * @interface CommonFunder
+ * @property {string} funder - 资金来源地址
+ * @property {FundedHolder[]} holders - 时间窗口内受资助的持有者（按首次转入时间排序）
+ * @property {Record<string, number>} totalAmounts - 窗口内转给这些持有者的总额（按资产）
+ * @property {number} firstFundedAt - 窗口内最早一笔转入时间戳（秒）
+ * @property {number} lastFundedAt - 窗口内最晚一笔转入时间戳（秒）
+ * @property {number} timeSpread - 最早与最晚转入的间隔（秒），不超过时间窗口
+ * @property {number} totalPct - 受资助持有者的合计持有比例（0-1）
+ */
+interface CommonFunder {
+    funder: string;
+    holders: FundedHolder[];
+    totalAmounts: Record<string, number>;
+    firstFundedAt: number;
+    lastFundedAt: number;
+    timeSpread: number;
+    totalPct: number;
+}
+
+/**
+ * 共同资金来源识别所需的持有者信息
+ */
+interface FunderHolder {
+    holder_address: string;
+    holder_pct_of_supply: string;
+}
+
+// 默认时间窗口（小时）
+const DEFAULT_WINDOW_HOURS = 72;
+
+/**
+ * 读取共同资金来源的时间窗口
+ * @returns {number} 时间窗口（秒），0 表示不限制
+ */
+function getFunderWindow(): number {
+    const hours = Number(process.env.COMMON_FUNDER_WINDOW_HOURS ?? DEFAULT_WINDOW_HOURS);
+    return Number.isFinite(hours) && hours >= 0 ? hours * 3600 : DEFAULT_WINDOW_HOURS * 3600;
+}
+
+/**
+ * 在按时间排序的转账中找出时间窗口内资助不同持有者最多的一段
+ * 每段从一笔转账开始，包含其后窗口内的所有转账；持有者数相同时取最早的一段
+ * @param {TransactionData[]} transfers - 同一资金来源的转账，按时间升序
+ * @param {number} maxWindow - 时间窗口（秒），0 表示不限制
+ * @returns {TransactionData[]} 窗口内的转账
+ */
+function selectFundingWindow(transfers: TransactionData[], maxWindow: number): TransactionData[] {
+    if (maxWindow <= 0) return transfers;
+
+    let best: TransactionData[] = [];
+    let bestHolders = 0;
+    let end = 0;
+    for (let start = 0; start < transfers.length; start++) {
+        while (end < transfers.length && transfers[end].timestamp - transfers[start].timestamp <= maxWindow) end++;
+
+        const window = transfers.slice(start, end);
+        const holders = new Set(window.map(tx => tx.to)).size;
+        if (holders > bestHolders) {
+            best = window;
+            bestHolders = holders;
+        }
+    }
+    return best;
+}
+
+/**
+ * 汇总转账为受资助持有者
+ * @param {TransactionData[]} transfers - 同一资金来源的转账
+ * @returns {FundedHolder[]} 受资助持有者，按首次转入时间排序
+ */
+function toFundedHolders(transfers: TransactionData[]): FundedHolder[] {
+    const funded = new Map<string, FundedHolder>();
+    for (const tx of transfers) {
+        const existing = funded.get(tx.to);
+        if (existing) {
+            existing.amounts[tx.asset] = (existing.amounts[tx.asset] ?? 0) + tx.amount;
+            existing.firstFundedAt = Math.min(existing.firstFundedAt, tx.timestamp);
+            existing.lastFundedAt = Math.max(existing.lastFundedAt, tx.timestamp);
+        } else {
+            funded.set(tx.to, {
+                address: tx.to,
+                amounts: { [tx.asset]: tx.amount },
+                firstFundedAt: tx.timestamp,
+                lastFundedAt: tx.timestamp
+            });
+        }
+    }
+    return Array.from(funded.values()).sort((a, b) => a.firstFundedAt - b.firstFundedAt);
+}
+
+/**
+ * 识别共同资金来源
+ * @param {FunderHolder[]} topHolders - 持有者列表
+ * @param {Iterable<{ transactions: TransactionData[] }>} holderData - 每个持有者的交易记录
+ * @param {number} maxWindow - 时间窗口（秒），只有在窗口内资助至少两个持有者的地址才是共同资金来源，0 表示不限制
+ * @returns {CommonFunder[]} 按受资助持有者数量、合计持仓降序排列的资金来源
+ */
+function detectCommonFunders(
+    topHolders: FunderHolder[],
+    holderData: Iterable<{ transactions: TransactionData[] }>,
+    maxWindow: number = getFunderWindow()
+): CommonFunder[] {
+    const holderPct = new Map(
+        topHolders.map(holder => [holder.holder_address, parseFloat(holder.holder_pct_of_supply) || 0])
+    );
+
+    // funder -> 转入持有者的交易，同一笔交易可能出现在多个持有者的图谱中，需去重
+    const fundings = new Map<string, TransactionData[]>();
+    const seen = new Set<string>();
+
+    for (const data of holderData) {
+        for (const tx of data.transactions) {
+            if (tx.type !== 'in' || !holderPct.has(tx.to) || tx.from === tx.to || isExchangeAddress(tx.from)) continue;
+
+            const key = `${tx.from}-${tx.to}-${tx.timestamp}-${tx.amount}-${tx.asset}`;
+            if (seen.has(key)) continue;
+            seen.add(key);
+
+            if (!fundings.has(tx.from)) fundings.set(tx.from, []);
+            fundings.get(tx.from)!.push(tx);
+        }
+    }
+
+    const funders: CommonFunder[] = [];
+    for (const [funder, transfers] of fundings) {
+        const sorted = [...transfers].sort((a, b) => a.timestamp - b.timestamp);
+        const holders = toFundedHolders(selectFundingWindow(sorted, maxWindow));
+        if (holders.length < 2) continue;
+
+        const firstFundedAt = Math.min(...holders.map(holder => holder.firstFundedAt));
+        const lastFundedAt = Math.max(...holders.map(holder => holder.lastFundedAt));
+        const totalAmounts: Record<string, number> = {};
+        holders.forEach(holder => {
+            Object.entries(holder.amounts).forEach(([asset, amount]) => {
+                totalAmounts[asset] = (totalAmounts[asset] ?? 0) + amount;
+            });
+        });
+
+        funders.push({
+            funder,
+            holders,
+            totalAmounts,
+            firstFundedAt,
+            lastFundedAt,
+            timeSpread: lastFundedAt - firstFundedAt,
+            totalPct: holders.reduce((sum, holder) => sum + (holderPct.get(holder.address) ?? 0), 0)
+        });
+    }
+
+    return funders.sort((a, b) => b.holders.length - a.holders.length || b.totalPct - a.totalPct);
+}
+
+export {
+    detectCommonFunders
+};
+
+export type {
+    CommonFunder,
+    FundedHolder
+};
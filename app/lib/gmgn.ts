@@ -4,53 +4,83 @@
  */
 
 import dotenv from 'dotenv';
+import type { HolderData, HolderSource } from './holder-source';
+import { withRateLimit, UpstreamHttpError } from './rate-limit';
+import { isExcludedHolder } from './entities';
+import { ProviderError } from './errors';
+import { expectArrayOf, expectObject } from './schema';
+import type { ObjectSchema, SchemaContext } from './schema';
 
 // 配置环境变量
 dotenv.config();
 
 // 类型定义
-interface HolderData {
-    holder_address: string;
-    holder_sns: string | null;
-    holder_pct_of_supply: string;
-    is_new: boolean;
-}
 
 interface GMGNHolder {
     address: string;
-    name?: string;
+    name?: string | null;
     amount_percentage: number;
-    tags: string[];
-    maker_token_tags: string[];
+    tags?: string[] | null;
+    maker_token_tags?: string[] | null;
     amount_cur: number;
     wallet_tag_v2?: string;
-    is_new?: boolean;
+    is_new?: boolean | null;
 }
 
 interface GMGNResponse {
     code: number;
-    message: string;
-    data: GMGNHolder[];
+    message?: string;
+    data: unknown;
+}
+
+interface ProxyResponse {
+    solution: {
+        response: string;
+    };
 }
 
+// GMGN 接口返回结构
+const GMGN_CONTEXT: SchemaContext = { provider: 'gmgn', endpoint: 'tokens/top_holders' };
+
+const GMGN_RESPONSE_SCHEMA: ObjectSchema = {
+    code: 'number',
+    message: { type: 'string', optional: true, nullable: true }
+};
+
+const GMGN_HOLDER_SCHEMA: ObjectSchema = {
+    address: 'string',
+    name: { type: 'string', optional: true, nullable: true },
+    amount_percentage: 'number',
+    tags: { type: 'string[]', optional: true, nullable: true },
+    maker_token_tags: { type: 'string[]', optional: true, nullable: true },
+    is_new: { type: 'boolean', optional: true, nullable: true }
+};
 
 // 代理配置
 const PROXY_URL = process.env.PROXY_URL;
 
+// 额外请求的持有者数量，弥补过滤流动性池、交易所后的数量损失
+const FILTER_MARGIN = 10;
+
 /**
  * 添加重试机制的包装函数
+ * 返回数据结构不符合预期（ProviderError）时不重试；
+ * HTTP 错误（UpstreamHttpError）已由 withRateLimit 按 429/5xx 重试过，这里不再叠加重试
  */
 async function withRetry<T>(
     fn: () => Promise<T>,
     maxRetries = 3,
     delay = 2000
 ): Promise<T> {
-    let lastError: any;
+    let lastError: unknown;
 
     for (let i = 0; i < maxRetries; i++) {
         try {
             return await fn();
         } catch (error: unknown) {
+            if (error instanceof ProviderError || error instanceof UpstreamHttpError) {
+                throw error;
+            }
             if (error instanceof Error) {
                 console.error(`Attempt ${i + 1} failed:`, error.message);
             } else {
@@ -74,31 +104,15 @@ async function withRetry<T>(
  * @returns 过滤后的持有者数据
  */
 function filterHolders(holders: GMGNHolder[]): HolderData[] {
-    // 定义需要过滤的名称列表
-    const FILTERED_NAMES = [
-        'Raydium Authority V4',
-        'Raydium Pool',
-        'Raydium LP',
-        'MEXC',
-        'Gate.io',
-        'HTX',
-        'Bitget'
-    ];
-
+    // 按实体注册表过滤交易所、流动性池等地址（同时匹配地址与名称）
     return holders
-        .filter(holder => {
-            if (holder.name && FILTERED_NAMES.some(name =>
-                holder.name?.toLowerCase().includes(name.toLowerCase())
-            )) {
-                return false;
-            }
-            return true;
-        })
+        .filter(holder => !isExcludedHolder(holder.address, holder.name))
         .map(holder => ({
             holder_address: holder.address,
             holder_sns: holder.name || null,
             holder_pct_of_supply: holder.amount_percentage.toString(),
-            is_new: holder.is_new || false
+            is_new: holder.is_new || false,
+            tags: [...(holder.tags || []), ...(holder.maker_token_tags || [])]
         }));
 }
 
@@ -117,7 +131,7 @@ async function fetchTokenHolders(
     return withRetry(async () => {
         const url = `https://gmgn.ai/defi/quotation/v1/tokens/top_holders/sol/${tokenAddress}`;
         const queryParams = {
-            limit: limit.toString(),
+            limit: (limit + FILTER_MARGIN).toString(),
             cost: '20',
             tag: 'All',
             orderby: 'amount_percentage',
@@ -132,38 +146,64 @@ async function fetchTokenHolders(
                 throw new Error('PROXY_URL environment variable is not set');
             }
 
-            const response = await fetch(PROXY_URL, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                    cmd: 'request.get',
-                    url: fullUrl,
-                    maxTimeout: 60000,
-                })
+            const proxyResponse = await withRateLimit('gmgn', async () => {
+                const response = await fetch(PROXY_URL, {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                    },
+                    body: JSON.stringify({
+                        cmd: 'request.get',
+                        url: fullUrl,
+                        maxTimeout: 60000,
+                    })
+                });
+
+                if (!response.ok) {
+                    throw new UpstreamHttpError(
+                        `GMGN proxy responded with HTTP ${response.status}`,
+                        response.status,
+                        response.headers.get('retry-after')
+                    );
+                }
+
+                return response.json();
             });
 
-            const proxyResponse = await response.json();
-
             // 解析HTML响应
-            const html = proxyResponse?.solution?.response as string | undefined;
+            const proxy = expectObject<ProxyResponse>(proxyResponse, { solution: 'object' }, GMGN_CONTEXT);
+            const html = expectObject<ProxyResponse['solution']>(
+                proxy.solution, { response: 'string' }, GMGN_CONTEXT, 'solution'
+            ).response;
             const reg = /<pre.*>(.+)<\/pre>/;
-            const rawData = html?.match(reg)?.[1];
+            const rawData = html.match(reg)?.[1];
 
             if (!rawData) {
-                throw new Error('Failed to extract data from proxy response');
+                throw new ProviderError(
+                    'gmgn', GMGN_CONTEXT.endpoint, 'solution.response',
+                    'Failed to extract data from proxy response'
+                );
+            }
+
+            let payload: unknown;
+            try {
+                payload = JSON.parse(rawData);
+            } catch {
+                throw new ProviderError(
+                    'gmgn', GMGN_CONTEXT.endpoint, 'solution.response',
+                    'GMGN response is not valid JSON'
+                );
             }
 
-            const data = JSON.parse(rawData) as GMGNResponse;
+            const data = expectObject<GMGNResponse>(payload, GMGN_RESPONSE_SCHEMA, GMGN_CONTEXT);
 
             if (data.code !== 0) {
-                throw new Error(`GMGN error: ${data.message}`);
+                throw new ProviderError('gmgn', GMGN_CONTEXT.endpoint, 'code', `GMGN error: ${data.message}`);
             }
 
-            const holders = data.data;
+            const holders = expectArrayOf<GMGNHolder>(data.data, GMGN_HOLDER_SCHEMA, GMGN_CONTEXT, 'data');
             console.log(`Received ${holders.length} holders`);
-            return filterHolders(holders);
+            return filterHolders(holders).slice(0, limit);
 
         } catch (error) {
             console.error('Error fetching data:', error);
@@ -172,5 +212,18 @@ async function fetchTokenHolders(
     });
 };
 
-export { fetchTokenHolders };
+/**
+ * GMGN 持有者数据源
+ */
+const gmgnHolderSource: HolderSource = {
+    name: 'gmgn',
+    capabilities: {
+        sns: true,
+        isNew: true,
+        tags: true
+    },
+    fetchTokenHolders
+};
+
+export { fetchTokenHolders, gmgnHolderSource };
 export type { HolderData };
@@ -0,0 +1,187 @@
+/**
+ * graph.ts
+ * 主要功能：从分析结果构建关系图的节点与边
+ *
+ * 关系图组件（Graph.tsx）与 GraphML / GEXF 导出共用同一份节点与边：
+ * - 节点：持有者与关联地址，附带持仓比例、实体标签、自定义标签、观察列表与所属群组
+ * - 边：持有者关联图谱中的交易与被分析代币的转账（已去重）
+ *
+ * 浏览器端与服务端共用
+ */
+
+import type { EntityLabel } from './entities';
+
+// 类型定义
+/**
+ * 构建关系图所需的交易字段
+ * @interface GraphTransaction
+ */
+interface GraphTransaction {
+    from: string;
+    to: string;
+    amount: number;
+    time: string;
+    timestamp: number;
+    type: 'in' | 'out' | 'token';
+    asset: string;
+}
+
+/**
+ * 构建关系图所需的分析结果字段
+ * 服务端的 SerializedAnalysisResult 与浏览器端的 AnalysisResult 均满足此结构
+ * @interface GraphSource
+ */
+interface GraphSource {
+    topHolders: { holder_address: string; holder_pct_of_supply: string }[];
+    relatedAddresses: Record<string, {
+        incomingAddresses: string[];
+        outgoingAddresses: string[];
+        transactions: GraphTransaction[];
+    }>;
+    tokenFlows?: GraphTransaction[];
+    clusters?: { id: string; holders: string[]; connectors: string[] }[];
+    labels?: Record<string, EntityLabel>;
+    userLabels?: Record<string, { label: string; note?: string }>;
+    watchlists?: Record<string, string[]>;
+}
+
+/**
+ * 关系图节点
+ * @interface GraphNode
+ * @property {string} label - 显示名称：自定义标签 > 实体名称 > 地址前 4 位
+ * @property {number | null} holdingPct - 持仓比例（0-1），关联地址为 null
+ * @property {string | null} clusterId - 所属群组 ID
+ */
+interface GraphNode {
+    id: string;
+    label: string;
+    type: 'holder' | 'related';
+    holdingPct: number | null;
+    clusterId: string | null;
+    entity?: EntityLabel;
+    userLabel?: { label: string; note?: string };
+    watchlists?: string[];
+}
+
+/**
+ * 关系图边
+ * @interface GraphEdge
+ */
+interface GraphEdge {
+    source: string;
+    target: string;
+    amount: number;
+    type: 'in' | 'out' | 'token';
+    asset: string;
+    time: string;
+    timestamp: number;
+}
+
+/**
+ * 关系图
+ * @interface AnalysisGraph
+ */
+interface AnalysisGraph {
+    nodes: GraphNode[];
+    edges: GraphEdge[];
+}
+
+/**
+ * 获取边的唯一键，用于去重与在关系图中增量合并
+ * @param {GraphEdge} edge - 边
+ * @returns {string} 唯一键
+ */
+function getEdgeKey(edge: GraphEdge): string {
+    return `${edge.source}-${edge.target}-${edge.timestamp}-${edge.amount}-${edge.asset}-${edge.type}`;
+}
+
+/**
+ * 从分析结果构建关系图
+ * @param {GraphSource} source - 分析结果
+ * @returns {AnalysisGraph} 节点与边
+ */
+function buildAnalysisGraph(source: GraphSource): AnalysisGraph {
+    const nodes = new Map<string, GraphNode>();
+    const edges = new Map<string, GraphEdge>();
+
+    const addNode = (id: string, type: GraphNode['type'], holdingPct: number | null = null) => {
+        if (nodes.has(id)) return;
+        nodes.set(id, { id, label: id.substring(0, 4), type, holdingPct, clusterId: null });
+    };
+
+    const addEdge = (tx: GraphTransaction, type: GraphEdge['type']) => {
+        addNode(tx.from, 'related');
+        addNode(tx.to, 'related');
+        const edge: GraphEdge = {
+            source: tx.from,
+            target: tx.to,
+            amount: tx.amount,
+            type,
+            asset: tx.asset,
+            time: tx.time,
+            timestamp: tx.timestamp
+        };
+        const key = getEdgeKey(edge);
+        if (!edges.has(key)) edges.set(key, edge);
+    };
+
+    // 1. 持有者节点
+    source.topHolders.forEach(holder => {
+        addNode(holder.holder_address, 'holder', parseFloat(holder.holder_pct_of_supply) || 0);
+    });
+
+    // 2. 关联地址与交易
+    Object.values(source.relatedAddresses).forEach(holderData => {
+        [...holderData.incomingAddresses, ...holderData.outgoingAddresses].forEach(address => {
+            addNode(address, 'related');
+        });
+        holderData.transactions.forEach(tx => addEdge(tx, tx.type));
+    });
+
+    // 3. 被分析代币的转账
+    (source.tokenFlows ?? []).forEach(tx => addEdge(tx, 'token'));
+
+    // 4. 标签与群组
+    (source.clusters ?? []).forEach(cluster => {
+        [...cluster.holders, ...cluster.connectors].forEach(address => {
+            const node = nodes.get(address);
+            if (node) node.clusterId = cluster.id;
+        });
+    });
+
+    nodes.forEach(node => {
+        const entity = source.labels?.[node.id];
+        if (entity) {
+            node.label = entity.name;
+            node.entity = entity;
+        }
+
+        // 用户自定义标签优先于注册表名称
+        const userLabel = source.userLabels?.[node.id];
+        if (userLabel) {
+            node.label = userLabel.label;
+            node.userLabel = userLabel;
+        }
+
+        const watchlists = source.watchlists?.[node.id];
+        if (watchlists) node.watchlists = watchlists;
+    });
+
+    return {
+        nodes: Array.from(nodes.values()),
+        edges: Array.from(edges.values())
+    };
+}
+
+export {
+    buildAnalysisGraph,
+    getEdgeKey
+};
+
+export type {
+    GraphTransaction,
+    GraphSource,
+    GraphNode,
+    GraphEdge,
+    AnalysisGraph
+};
@@ -0,0 +1,191 @@
+/**
+ * holder-source.ts
+ * 主要功能：持有者数据源抽象与注册表
+ *
+ * 工作流程：
+ * 1. 各数据源（GMGN、Dune 等）实现统一的 HolderSource 接口
+ * 2. 数据源在注册表中按名称注册
+ * 3. 分析时按配置顺序依次尝试数据源，失败则自动切换到下一个
+ */
+
+import dotenv from 'dotenv';
+import { gmgnHolderSource } from './gmgn';
+import { duneHolderSource } from './dune';
+import { solanaRpcHolderSource } from './solana-rpc';
+import { isExcludedHolder } from './entities';
+import { ProviderError, ProviderInputError } from './errors';
+
+dotenv.config();
+
+// 类型定义
+/**
+ * 统一的持有者数据结构
+ * @interface HolderData
+ * @property {string} holder_address - 持有者地址
+ * @property {string | null} holder_sns - 持有者的 SNS 域名或名称
+ * @property {string} holder_pct_of_supply - 持有比例（0-1 之间的小数）
+ * @property {boolean} is_new - 是否为新钱包
+ * @property {string[]} tags - 数据源提供的地址标签
+ */
+interface HolderData {
+    holder_address: string;
+    holder_sns: string | null;
+    holder_pct_of_supply: string;
+    is_new: boolean;
+    tags?: string[];
+}
+
+/**
+ * 数据源能力描述
+ * @interface HolderSourceCapabilities
+ * @property {boolean} sns - 是否提供 SNS 域名 / 名称
+ * @property {boolean} isNew - 是否提供 is_new 标记
+ * @property {boolean} tags - 是否提供地址标签
+ */
+interface HolderSourceCapabilities {
+    sns: boolean;
+    isNew: boolean;
+    tags: boolean;
+}
+
+/**
+ * 持有者数据源接口
+ * @interface HolderSource
+ */
+interface HolderSource {
+    name: string;
+    capabilities: HolderSourceCapabilities;
+    fetchTokenHolders(tokenAddress: string, limit?: number): Promise<HolderData[]>;
+}
+
+/**
+ * 持有者列表获取结果
+ * @interface HolderFetchResult
+ */
+interface HolderFetchResult {
+    source: string;
+    capabilities: HolderSourceCapabilities;
+    holders: HolderData[];
+}
+
+// 默认数据源顺序，可通过 HOLDER_SOURCES 环境变量覆盖（逗号分隔）
+const DEFAULT_SOURCE_ORDER = ['gmgn', 'dune', 'rpc'];
+
+const registry = new Map<string, HolderSource>();
+
+/**
+ * 注册数据源，同名数据源会被覆盖
+ * @param {HolderSource} source - 数据源
+ */
+function registerHolderSource(source: HolderSource): void {
+    registry.set(source.name, source);
+}
+
+/**
+ * 按名称获取数据源
+ * @param {string} name - 数据源名称
+ * @returns {HolderSource | undefined} 数据源
+ */
+function getHolderSource(name: string): HolderSource | undefined {
+    return registry.get(name);
+}
+
+/**
+ * 列出所有已注册的数据源
+ * @returns {HolderSource[]} 数据源列表
+ */
+function listHolderSources(): HolderSource[] {
+    return Array.from(registry.values());
+}
+
+/**
+ * 获取配置的数据源顺序
+ * @returns {string[]} 数据源名称列表
+ */
+function getConfiguredSourceOrder(): string[] {
+    const configured = process.env.HOLDER_SOURCES
+        ?.split(',')
+        .map(name => name.trim())
+        .filter(Boolean);
+
+    return configured && configured.length > 0 ? configured : DEFAULT_SOURCE_ORDER;
+}
+
+/**
+ * 按顺序尝试各数据源获取持有者列表
+ * @param {string} tokenAddress - 代币地址
+ * @param {number} limit - 限制数量
+ * @param {string[]} order - 数据源顺序，默认为配置顺序
+ * @returns {Promise<HolderFetchResult>} 持有者列表及其来源
+ * @throws {ProviderInputError} 所有数据源均因输入问题（如代币没有持有者）失败时抛出
+ * @throws {ProviderError} 所有数据源均失败时抛出，指向第一个数据源错误的数据源、接口与字段
+ */
+async function fetchHoldersWithFallback(
+    tokenAddress: string,
+    limit?: number,
+    order: string[] = getConfiguredSourceOrder()
+): Promise<HolderFetchResult> {
+    const errors: string[] = [];
+    const failures: unknown[] = [];
+
+    for (const name of order) {
+        const source = registry.get(name);
+        if (!source) {
+            console.warn(`⚠️ Unknown holder source: ${name}`);
+            errors.push(`${name}: not registered`);
+            failures.push(new Error(`${name}: not registered`));
+            continue;
+        }
+
+        try {
+            console.log(`Fetching holders from source: ${name}`);
+            // 移除注册表中的交易所、流动性池等非真实持有者
+            const holders = (await source.fetchTokenHolders(tokenAddress, limit))
+                .filter(holder => !isExcludedHolder(holder.holder_address, holder.holder_sns));
+            if (holders.length === 0) {
+                throw new ProviderInputError(name, 'fetchTokenHolders', null, 'No holders returned');
+            }
+            return {
+                source: name,
+                capabilities: source.capabilities,
+                holders
+            };
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            console.error(`❌ Holder source ${name} failed: ${message}`);
+            errors.push(`${name}: ${message}`);
+            failures.push(error);
+        }
+    }
+
+    const message = `All holder sources failed (${errors.join('; ')})`;
+    const first = failures.find((error): error is ProviderError => error instanceof ProviderError);
+    if (first && failures.every(error => error instanceof ProviderInputError)) {
+        throw new ProviderInputError(first.provider, first.endpoint, first.field, message);
+    }
+    throw new ProviderError(
+        first?.provider ?? 'holders',
+        first?.endpoint ?? 'fetchTokenHolders',
+        first?.field ?? null,
+        message
+    );
+}
+
+// 注册内置数据源
+registerHolderSource(gmgnHolderSource);
+registerHolderSource(duneHolderSource);
+registerHolderSource(solanaRpcHolderSource);
+
+export {
+    registerHolderSource,
+    getHolderSource,
+    listHolderSources,
+    fetchHoldersWithFallback
+};
+
+export type {
+    HolderData,
+    HolderSource,
+    HolderSourceCapabilities,
+    HolderFetchResult
+};
@@ -0,0 +1,447 @@
+/**
+ * jobs.ts
+ * 主要功能：后台分析任务管理
+ *
+ * 工作流程：
+ * 1. 提交任务，立即返回任务 ID
+ * 2. 后台执行分析，持续将进度写入任务存储
+ * 3. 客户端轮询任务状态，完成后获取分析结果
+ * 4. 支持取消正在执行的任务
+ * 5. 任务完成后保存分析快照，任务中记录快照 ID
+ *
+ * 任务存储可插拔：
+ * - memory: 进程内存（开发环境默认）
+ * - file: 本地 JSON 文件，进程重启后仍可查询（生产环境默认）
+ * - kv: Redis REST 接口（Vercel KV / Upstash），多个实例共享
+ *
+ * 任务在提交请求的响应发送后继续执行，由调用方提供调度函数
+ * （如 next/server 的 unstable_after），保证 Serverless 平台不会在任务完成前回收实例
+ * 任务仍在提交请求的函数调用内执行，受函数 maxDuration 限制：
+ * 超过 JOB_MAX_DURATION_SECONDS 时取消分析并将任务标记为失败（504），而不是被平台直接终止
+ */
+
+import dotenv from 'dotenv';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { randomUUID } from 'crypto';
+import {
+    analyzeTokenHoldersRelatedAddresses,
+    serializeAnalysisResult,
+    AnalysisCancelledError
+} from './analyze';
+import type { AnalysisParameters, SerializedAnalysisResult } from './analyze';
+import { createInitialProgress, applyProgressEvent } from './progress';
+import { saveSnapshot } from './snapshots';
+import { toAnalysisError } from './errors';
+import type { AnalysisProgress, AnalysisProgressEvent } from '@/types';
+
+dotenv.config();
+
+// 类型定义
+/**
+ * 任务状态
+ */
+type JobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * 分析任务结构
+ * @interface AnalysisJob
+ * @property {string} retryOf - 只重试失败持有者时，被重试的快照 ID
+ */
+interface AnalysisJob {
+    id: string;
+    tokenAddress: string;
+    parameters: AnalysisParameters;
+    status: JobStatus;
+    progress: AnalysisProgress;
+    result?: SerializedAnalysisResult;
+    snapshotId?: string;
+    retryOf?: string;
+    error?: string;
+    errorStatus?: number;
+    errorDetails?: unknown;
+    createdAt: string;
+    updatedAt: string;
+}
+
+/**
+ * 任务存储接口
+ * @interface JobStore
+ */
+interface JobStore {
+    create(job: AnalysisJob): Promise<void>;
+    get(id: string): Promise<AnalysisJob | null>;
+    update(id: string, patch: Partial<AnalysisJob>): Promise<AnalysisJob | null>;
+}
+
+/**
+ * 内存任务存储
+ */
+class MemoryJobStore implements JobStore {
+    private jobs = new Map<string, AnalysisJob>();
+
+    async create(job: AnalysisJob): Promise<void> {
+        this.jobs.set(job.id, job);
+    }
+
+    async get(id: string): Promise<AnalysisJob | null> {
+        return this.jobs.get(id) ?? null;
+    }
+
+    async update(id: string, patch: Partial<AnalysisJob>): Promise<AnalysisJob | null> {
+        const job = this.jobs.get(id);
+        if (!job) return null;
+
+        const updated = { ...job, ...patch, updatedAt: new Date().toISOString() };
+        this.jobs.set(id, updated);
+        return updated;
+    }
+}
+
+/**
+ * 文件任务存储，每个任务一个 JSON 文件
+ */
+class FileJobStore implements JobStore {
+    constructor(private dir: string) { }
+
+    private filePath(id: string): string {
+        return path.join(this.dir, `${path.basename(id)}.json`);
+    }
+
+    async create(job: AnalysisJob): Promise<void> {
+        await fs.mkdir(this.dir, { recursive: true });
+        await fs.writeFile(this.filePath(job.id), JSON.stringify(job));
+    }
+
+    async get(id: string): Promise<AnalysisJob | null> {
+        try {
+            const content = await fs.readFile(this.filePath(id), 'utf8');
+            return JSON.parse(content) as AnalysisJob;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+            throw error;
+        }
+    }
+
+    async update(id: string, patch: Partial<AnalysisJob>): Promise<AnalysisJob | null> {
+        const job = await this.get(id);
+        if (!job) return null;
+
+        const updated = { ...job, ...patch, updatedAt: new Date().toISOString() };
+        await fs.writeFile(this.filePath(id), JSON.stringify(updated));
+        return updated;
+    }
+}
+
+/**
+ * Redis REST 任务存储（Vercel KV / Upstash），多个实例共享
+ * 任务以 JSON 字符串保存，过期后自动删除
+ */
+class KvJobStore implements JobStore {
+    constructor(
+        private url: string,
+        private token: string,
+        private ttlSeconds: number = 24 * 60 * 60
+    ) { }
+
+    /**
+     * 执行一条 Redis 命令
+     * @param {(string | number)[]} command - 命令及参数
+     * @returns {Promise<unknown>} 命令结果
+     */
+    private async command(command: (string | number)[]): Promise<unknown> {
+        const response = await fetch(this.url, {
+            method: 'POST',
+            headers: {
+                Authorization: `Bearer ${this.token}`,
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify(command)
+        });
+        if (!response.ok) {
+            throw new Error(`Job store ${command[0]} failed: HTTP ${response.status}`);
+        }
+        const { result, error } = await response.json() as { result?: unknown; error?: string };
+        if (error) {
+            throw new Error(`Job store ${command[0]} failed: ${error}`);
+        }
+        return result;
+    }
+
+    private key(id: string): string {
+        return `job:${id}`;
+    }
+
+    async create(job: AnalysisJob): Promise<void> {
+        await this.command(['SET', this.key(job.id), JSON.stringify(job), 'EX', this.ttlSeconds]);
+    }
+
+    async get(id: string): Promise<AnalysisJob | null> {
+        const content = await this.command(['GET', this.key(id)]);
+        return typeof content === 'string' ? JSON.parse(content) as AnalysisJob : null;
+    }
+
+    async update(id: string, patch: Partial<AnalysisJob>): Promise<AnalysisJob | null> {
+        const job = await this.get(id);
+        if (!job) return null;
+
+        const updated = { ...job, ...patch, updatedAt: new Date().toISOString() };
+        await this.command(['SET', this.key(id), JSON.stringify(updated), 'EX', this.ttlSeconds]);
+        return updated;
+    }
+}
+
+/**
+ * 根据环境变量创建任务存储
+ * - JOB_STORE: memory | file | kv，开发环境默认 memory，生产环境默认 file
+ * - JOB_STORE_DIR: 文件存储目录，默认 .data/jobs
+ * - KV_REST_API_URL / KV_REST_API_TOKEN: kv 存储的 REST 地址与令牌
+ * 生产环境不允许使用 memory：轮询请求可能落到其他实例上；
+ * 在 Vercel 上实例之间不共享文件系统，必须使用 kv
+ * @returns {JobStore} 任务存储
+ * @throws {Error} 生产环境配置了不共享的任务存储时抛出
+ */
+function createJobStore(): JobStore {
+    const production = process.env.NODE_ENV === 'production';
+    const store = process.env.JOB_STORE || (production ? 'file' : 'memory');
+
+    if (store === 'kv') {
+        const url = process.env.KV_REST_API_URL;
+        const token = process.env.KV_REST_API_TOKEN;
+        if (!url || !token) {
+            throw new Error('JOB_STORE=kv requires KV_REST_API_URL and KV_REST_API_TOKEN');
+        }
+        return new KvJobStore(url, token);
+    }
+    if (production && process.env.VERCEL) {
+        throw new Error(`JOB_STORE=${store} is not shared between serverless instances, use JOB_STORE=kv`);
+    }
+    if (store === 'file') {
+        return new FileJobStore(process.env.JOB_STORE_DIR || path.join(process.cwd(), '.data', 'jobs'));
+    }
+    if (production) {
+        throw new Error('JOB_STORE=memory is not supported in production, use JOB_STORE=file or kv');
+    }
+    return new MemoryJobStore();
+}
+
+// 首次使用时创建，配置错误只影响任务接口，不影响构建
+let sharedJobStore: JobStore | null = null;
+
+/**
+ * 获取任务存储
+ * @returns {JobStore} 任务存储
+ */
+function getJobStore(): JobStore {
+    sharedJobStore ??= createJobStore();
+    return sharedJobStore;
+}
+
+// 本进程内正在执行的任务，用于取消
+const runningJobs = new Map<string, AbortController>();
+
+/**
+ * 读取任务最长执行时间
+ * - JOB_MAX_DURATION_SECONDS: 秒，0 表示不限制
+ * 在 Vercel 上默认 280 秒，在 vercel.json 的 maxDuration（300 秒）之前结束并写入失败状态；其他环境默认不限制
+ * @returns {number} 最长执行时间（毫秒），0 表示不限制
+ */
+function getJobMaxDuration(): number {
+    const configured = Number(process.env.JOB_MAX_DURATION_SECONDS);
+    if (process.env.JOB_MAX_DURATION_SECONDS && Number.isFinite(configured) && configured >= 0) {
+        return configured * 1000;
+    }
+    return process.env.VERCEL ? 280 * 1000 : 0;
+}
+
+/**
+ * 判断任务是否已结束
+ * @param {AnalysisJob} job - 任务
+ * @returns {boolean} 是否已结束
+ */
+function isJobFinished(job: AnalysisJob): boolean {
+    return job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+}
+
+/**
+ * 写入任务的最终状态
+ * 写入前重新读取存储中的状态，任务已结束（如已被其他实例取消）时不覆盖
+ * @param {string} id - 任务 ID
+ * @param {Partial<AnalysisJob>} patch - 最终状态
+ * @returns {Promise<boolean>} 是否写入
+ */
+async function finishJob(id: string, patch: Partial<AnalysisJob>): Promise<boolean> {
+    const store = getJobStore();
+    const current = await store.get(id);
+    if (!current || isJobFinished(current)) return false;
+
+    await store.update(id, patch);
+    return true;
+}
+
+/**
+ * 在后台执行分析任务
+ * @param {AnalysisJob} job - 任务
+ * @param {AbortController} controller - 取消控制器
+ */
+async function runAnalysisJob(
+    job: AnalysisJob,
+    controller: AbortController,
+    retryFrom?: SerializedAnalysisResult
+): Promise<void> {
+    const jobStore = getJobStore();
+    let progress = job.progress;
+    // 超过最长执行时间时取消分析，按失败处理
+    const maxDuration = getJobMaxDuration();
+    let timedOut = false;
+    const deadline = maxDuration > 0
+        ? setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+        }, maxDuration)
+        : undefined;
+    // 串行写入进度，避免并发写入互相覆盖
+    let writes: Promise<unknown> = jobStore.update(job.id, { status: 'running' });
+
+    const onProgress = (event: AnalysisProgressEvent) => {
+        progress = applyProgressEvent(progress, event);
+        const snapshot = progress;
+        writes = writes.then(async () => {
+            // 其他实例可能已通过存储将任务标记为取消
+            const current = await jobStore.get(job.id);
+            if (current?.status === 'cancelled') {
+                controller.abort();
+                return;
+            }
+            await jobStore.update(job.id, { progress: snapshot });
+        });
+    };
+
+    try {
+        const result = await analyzeTokenHoldersRelatedAddresses(job.tokenAddress, job.parameters, {
+            onProgress,
+            signal: controller.signal,
+            retryFrom
+        });
+        await writes;
+        const serialized = serializeAnalysisResult(result);
+        // 快照保存失败不影响任务结果
+        const snapshot = await saveSnapshot(serialized).catch(error => {
+            console.error(`Job ${job.id} snapshot failed:`, error);
+            return null;
+        });
+        const completed = await finishJob(job.id, {
+            status: 'completed',
+            progress,
+            result: serialized,
+            ...(snapshot ? { snapshotId: snapshot.id } : {})
+        });
+        console.log(completed ? `Job ${job.id} completed` : `Job ${job.id} finished after cancellation`);
+    } catch (error) {
+        await writes.catch(() => undefined);
+        if (error instanceof AnalysisCancelledError && timedOut) {
+            await finishJob(job.id, {
+                status: 'failed',
+                progress,
+                error: `Analysis exceeded the ${maxDuration / 1000}s time limit, retry with a smaller topN or maxDepth`,
+                errorStatus: 504
+            });
+            console.error(`Job ${job.id} timed out after ${maxDuration / 1000}s`);
+        } else if (error instanceof AnalysisCancelledError) {
+            await finishJob(job.id, { status: 'cancelled', progress });
+            console.log(`Job ${job.id} cancelled`);
+        } else {
+            // 数据源错误映射为 502（上游问题）或 400（输入问题），并保留数据源、接口与字段
+            const analysisError = toAnalysisError(error);
+            await finishJob(job.id, {
+                status: 'failed',
+                progress,
+                error: analysisError.message,
+                errorStatus: analysisError.statusCode,
+                errorDetails: analysisError.cause
+            });
+            console.error(`Job ${job.id} failed:`, error);
+        }
+    } finally {
+        clearTimeout(deadline);
+        runningJobs.delete(job.id);
+    }
+}
+
+/**
+ * 提交分析任务
+ * @param {string} tokenAddress - 代币地址
+ * @param {AnalysisParameters} parameters - 已校验的分析参数
+ * @param {{ snapshotId: string; result: SerializedAnalysisResult }} retryFrom - 可选，只重试该快照中失败的持有者
+ * @param {Function} schedule - 在响应发送后继续执行任务的调度函数，API 路由传入 unstable_after
+ * @returns {Promise<AnalysisJob>} 新建的任务
+ */
+async function submitAnalysisJob(
+    tokenAddress: string,
+    parameters: AnalysisParameters,
+    retryFrom?: { snapshotId: string; result: SerializedAnalysisResult },
+    schedule: (task: Promise<void>) => void = task => void task
+): Promise<AnalysisJob> {
+    const now = new Date().toISOString();
+    const job: AnalysisJob = {
+        id: randomUUID(),
+        tokenAddress,
+        parameters,
+        ...(retryFrom ? { retryOf: retryFrom.snapshotId } : {}),
+        status: 'pending',
+        progress: createInitialProgress(),
+        createdAt: now,
+        updatedAt: now
+    };
+
+    await getJobStore().create(job);
+
+    const controller = new AbortController();
+    runningJobs.set(job.id, controller);
+    // 不等待任务完成，立即返回任务 ID
+    schedule(runAnalysisJob(job, controller, retryFrom?.result));
+
+    console.log(`Job ${job.id} submitted for token: ${tokenAddress}`);
+    return job;
+}
+
+/**
+ * 查询分析任务
+ * @param {string} id - 任务 ID
+ * @returns {Promise<AnalysisJob | null>} 任务
+ */
+async function getAnalysisJob(id: string): Promise<AnalysisJob | null> {
+    return getJobStore().get(id);
+}
+
+/**
+ * 取消分析任务
+ * @param {string} id - 任务 ID
+ * @returns {Promise<AnalysisJob | null>} 取消后的任务，任务不存在时返回 null
+ */
+async function cancelAnalysisJob(id: string): Promise<AnalysisJob | null> {
+    const jobStore = getJobStore();
+    const job = await jobStore.get(id);
+    if (!job) return null;
+    if (isJobFinished(job)) return job;
+
+    runningJobs.get(id)?.abort();
+    return jobStore.update(id, { status: 'cancelled' });
+}
+
+export {
+    MemoryJobStore,
+    FileJobStore,
+    KvJobStore,
+    createJobStore,
+    submitAnalysisJob,
+    getAnalysisJob,
+    cancelAnalysisJob,
+    isJobFinished
+};
+
+export type {
+    JobStatus,
+    AnalysisJob,
+    JobStore
+};
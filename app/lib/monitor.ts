@@ -0,0 +1,451 @@
+/**
+ * monitor.ts
+ * 主要功能：定时监控代币并推送 Webhook 告警
+ *
+ * 工作流程：
+ * 1. 监控列表持久化保存，每个代币有独立的重新分析间隔、分析参数、告警规则与 Webhook 地址
+ * 2. 调度器定期检查到期的代币，依次重新分析并保存快照
+ * 3. 与上一次快照对比后评估告警规则
+ * 4. 只推送新触发的告警（同一条件持续满足时不重复推送）
+ *
+ * 告警规则：
+ * - cluster_supply: 单个关联群组持仓超过阈值
+ * - watchlist_funded_holder: 新进入前 N 名的持有者由观察列表中的地址直接注资（如已知跑路地址）
+ * - holder_exited: 大户跌出前 N 名
+ *
+ * 存储可插拔：
+ * - MONITOR_STORE: file | memory，默认 file
+ * - MONITOR_STORE_DIR: 文件存储目录，默认 .data/monitors
+ * 调度：
+ * - MONITOR_TICK_SECONDS: 检查到期代币的间隔，默认 60，0 表示不启动调度器
+ */
+
+import dotenv from 'dotenv';
+import path from 'path';
+import { analyzeTokenHoldersRelatedAddresses, serializeAnalysisResult } from './analyze';
+import type { AnalysisParameters } from './analyze';
+import { saveSnapshot, getSnapshot, diffSnapshots } from './snapshots';
+import type { AnalysisSnapshot, SnapshotDiff } from './snapshots';
+import { deliverWebhook } from './webhooks';
+import type { WebhookDelivery } from './webhooks';
+import { MemoryRecordStore, FileRecordStore } from './record-store';
+import type { RecordStore } from './record-store';
+import { DEFAULT_ANALYSIS_PARAMETERS } from './validation';
+
+dotenv.config();
+
+// 类型定义
+/**
+ * 告警规则
+ * - cluster_supply: threshold 为持仓比例阈值（0-1）
+ * - watchlist_funded_holder: watchlist 为观察列表名称，topN 为检查的排名范围
+ * - holder_exited: minPct 为跌出前持仓比例下限（0-1）
+ */
+type MonitorRule =
+    | { type: 'cluster_supply'; threshold: number }
+    | { type: 'watchlist_funded_holder'; watchlist: string; topN: number }
+    | { type: 'holder_exited'; minPct: number };
+
+/**
+ * 监控中的代币
+ * @interface WatchedToken
+ * @property {number} intervalMinutes - 重新分析间隔（分钟）
+ * @property {string[]} webhooks - 告警推送地址
+ * @property {string[]} activeAlertKeys - 上一次运行时满足的告警条件，用于避免重复推送
+ */
+interface WatchedToken {
+    tokenAddress: string;
+    intervalMinutes: number;
+    parameters: AnalysisParameters;
+    rules: MonitorRule[];
+    webhooks: string[];
+    enabled: boolean;
+    lastRunAt: string | null;
+    lastSnapshotId: string | null;
+    lastStatus: 'ok' | 'failed' | null;
+    lastError?: string;
+    activeAlertKeys: string[];
+    createdAt: string;
+    updatedAt: string;
+}
+
+/**
+ * 可由用户设置的监控字段
+ */
+type WatchedTokenInput = Pick<WatchedToken, 'intervalMinutes' | 'parameters' | 'rules' | 'webhooks' | 'enabled'>;
+
+/**
+ * 告警
+ * @interface MonitorAlert
+ * @property {string} key - 告警条件标识，同一条件持续满足时不变
+ * @property {string[]} addresses - 相关地址
+ */
+interface MonitorAlert {
+    rule: MonitorRule['type'];
+    key: string;
+    message: string;
+    addresses: string[];
+}
+
+/**
+ * Webhook 告警消息
+ * @interface MonitorAlertPayload
+ */
+interface MonitorAlertPayload {
+    event: 'monitor.alert';
+    tokenAddress: string;
+    snapshotId: string;
+    analyzedAt: string;
+    risk: { score: number; level: string };
+    alerts: MonitorAlert[];
+}
+
+/**
+ * 单次监控运行结果
+ * @interface MonitorRun
+ * @property {MonitorAlert[]} alerts - 本次满足的全部告警
+ * @property {MonitorAlert[]} newAlerts - 本次新触发并推送的告警
+ */
+interface MonitorRun {
+    tokenAddress: string;
+    snapshotId: string;
+    alerts: MonitorAlert[];
+    newAlerts: MonitorAlert[];
+    deliveries: WebhookDelivery[];
+}
+
+/**
+ * 同一代币的监控正在运行时抛出的错误
+ */
+class MonitorBusyError extends Error {
+    constructor(message: string = 'Monitor is already running') {
+        super(message);
+        this.name = 'MonitorBusyError';
+    }
+}
+
+/**
+ * 根据环境变量创建监控存储
+ * @returns {RecordStore<WatchedToken>} 监控存储
+ */
+function createMonitorStore(): RecordStore<WatchedToken> {
+    if (process.env.MONITOR_STORE === 'memory') {
+        return new MemoryRecordStore<WatchedToken>();
+    }
+    return new FileRecordStore<WatchedToken>(
+        process.env.MONITOR_STORE_DIR || path.join(process.cwd(), '.data', 'monitors')
+    );
+}
+
+const monitorStore = createMonitorStore();
+
+// 本进程内正在运行的监控，避免同一代币并发分析
+const runningMonitors = new Set<string>();
+
+let schedulerTimer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * 格式化持仓比例
+ * @param {number} pct - 比例（0-1）
+ * @returns {string} 百分比字符串
+ */
+function formatPct(pct: number): string {
+    return `${(pct * 100).toFixed(2)}%`;
+}
+
+/**
+ * 评估告警规则
+ * @param {MonitorRule[]} rules - 告警规则
+ * @param {AnalysisSnapshot} snapshot - 本次分析快照
+ * @param {SnapshotDiff | null} diff - 与上一次快照的对比，首次运行时为 null
+ * @returns {MonitorAlert[]} 满足的告警
+ */
+function evaluateMonitorRules(
+    rules: MonitorRule[],
+    snapshot: AnalysisSnapshot,
+    diff: SnapshotDiff | null
+): MonitorAlert[] {
+    const { result } = snapshot;
+    const alerts: MonitorAlert[] = [];
+
+    for (const rule of rules) {
+        switch (rule.type) {
+            case 'cluster_supply':
+                result.clusters
+                    .filter(cluster => cluster.totalPct > rule.threshold)
+                    .forEach(cluster => {
+                        alerts.push({
+                            rule: rule.type,
+                            key: `${rule.type}:${cluster.id}`,
+                            message: `${cluster.holders.length} linked holders control ${formatPct(cluster.totalPct)} of supply (threshold ${formatPct(rule.threshold)})`,
+                            addresses: cluster.holders
+                        });
+                    });
+                break;
+
+            case 'watchlist_funded_holder': {
+                // 首次运行没有历史快照，所有持有者均视为新进入
+                const entered = diff ? new Set(diff.entered.map(holder => holder.address)) : null;
+                const topHolders = [...result.topHolders]
+                    .sort((a, b) => parseFloat(b.holder_pct_of_supply) - parseFloat(a.holder_pct_of_supply))
+                    .slice(0, rule.topN)
+                    .map(holder => holder.holder_address)
+                    .filter(address => !entered || entered.has(address));
+
+                for (const holder of topHolders) {
+                    const funders = new Set((result.relatedAddresses[holder]?.transactions ?? [])
+                        .filter(tx => tx.type === 'in' && tx.to === holder)
+                        .map(tx => tx.from)
+                        .filter(funder => result.watchlists?.[funder]?.includes(rule.watchlist)));
+
+                    funders.forEach(funder => {
+                        alerts.push({
+                            rule: rule.type,
+                            key: `${rule.type}:${holder}:${funder}`,
+                            message: `New top ${rule.topN} holder ${holder} was funded by ${funder} from watchlist "${rule.watchlist}"`,
+                            addresses: [holder, funder]
+                        });
+                    });
+                }
+                break;
+            }
+
+            case 'holder_exited':
+                (diff?.exited ?? [])
+                    .filter(holder => holder.pct >= rule.minPct)
+                    .forEach(holder => {
+                        alerts.push({
+                            rule: rule.type,
+                            key: `${rule.type}:${holder.address}:${snapshot.id}`,
+                            message: `Holder ${holder.address} (${formatPct(holder.pct)}) exited the top ${snapshot.parameters.topN}`,
+                            addresses: [holder.address]
+                        });
+                    });
+                break;
+        }
+    }
+
+    return alerts;
+}
+
+/**
+ * 获取所有监控中的代币
+ * @returns {Promise<WatchedToken[]>} 按创建时间排序
+ */
+async function listMonitors(): Promise<WatchedToken[]> {
+    const monitors = await monitorStore.list();
+    return monitors.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * 获取代币的监控配置
+ * @param {string} tokenAddress - 代币地址
+ * @returns {Promise<WatchedToken | null>} 监控配置，不存在时返回 null
+ */
+async function getMonitor(tokenAddress: string): Promise<WatchedToken | null> {
+    return monitorStore.get(tokenAddress);
+}
+
+/**
+ * 创建或更新代币的监控配置，保留运行状态
+ * @param {string} tokenAddress - 代币地址
+ * @param {Partial<WatchedTokenInput>} input - 监控配置，未提供的字段保留原值或使用默认值
+ * @returns {Promise<WatchedToken>} 保存后的监控配置
+ */
+async function saveMonitor(tokenAddress: string, input: Partial<WatchedTokenInput>): Promise<WatchedToken> {
+    const existing = await monitorStore.get(tokenAddress);
+    const now = new Date().toISOString();
+    const monitor: WatchedToken = {
+        tokenAddress,
+        intervalMinutes: 60,
+        parameters: { ...DEFAULT_ANALYSIS_PARAMETERS },
+        rules: [],
+        webhooks: [],
+        enabled: true,
+        lastRunAt: null,
+        lastSnapshotId: null,
+        lastStatus: null,
+        activeAlertKeys: [],
+        createdAt: now,
+        ...existing,
+        ...input,
+        updatedAt: now
+    };
+    await monitorStore.put(tokenAddress, monitor);
+    return monitor;
+}
+
+/**
+ * 停止监控代币
+ * @param {string} tokenAddress - 代币地址
+ * @returns {Promise<boolean>} 是否存在并已删除
+ */
+async function deleteMonitor(tokenAddress: string): Promise<boolean> {
+    return monitorStore.delete(tokenAddress);
+}
+
+/**
+ * 立即运行一次监控：重新分析、保存快照、评估规则并推送新告警
+ * @param {string} tokenAddress - 代币地址
+ * @returns {Promise<MonitorRun | null>} 运行结果，代币未监控时返回 null
+ * @throws {MonitorBusyError} 该代币的监控正在运行时抛出
+ * @throws {Error} 分析失败时抛出
+ */
+async function runMonitor(tokenAddress: string): Promise<MonitorRun | null> {
+    const monitor = await monitorStore.get(tokenAddress);
+    if (!monitor) return null;
+    if (runningMonitors.has(tokenAddress)) {
+        throw new MonitorBusyError(`Monitor for ${tokenAddress} is already running`);
+    }
+
+    runningMonitors.add(tokenAddress);
+    const startedAt = new Date().toISOString();
+    console.log(`\n🔔 Monitor run started for token: ${tokenAddress}`);
+
+    try {
+        // 1. 重新分析并保存快照
+        const result = serializeAnalysisResult(
+            await analyzeTokenHoldersRelatedAddresses(tokenAddress, monitor.parameters)
+        );
+        const summary = await saveSnapshot(result);
+        const snapshot: AnalysisSnapshot = { ...summary, result };
+
+        // 2. 与上一次快照对比并评估规则
+        const previous = monitor.lastSnapshotId ? await getSnapshot(tokenAddress, monitor.lastSnapshotId) : null;
+        const comparison = previous ? diffSnapshots(previous, snapshot) : null;
+        // 监控参数修改后与上一次快照不可比，按首次运行处理，避免参数变化触发进出前 N 名的告警
+        const diff = comparison && comparison.parameterMismatches.length === 0 ? comparison : null;
+        const alerts = evaluateMonitorRules(monitor.rules, snapshot, diff);
+        const newAlerts = alerts.filter(alert => !monitor.activeAlertKeys.includes(alert.key));
+
+        // 3. 推送新告警
+        let deliveries: WebhookDelivery[] = [];
+        if (newAlerts.length > 0 && monitor.webhooks.length > 0) {
+            const payload: MonitorAlertPayload = {
+                event: 'monitor.alert',
+                tokenAddress,
+                snapshotId: snapshot.id,
+                analyzedAt: snapshot.createdAt,
+                risk: { score: snapshot.riskScore, level: snapshot.riskLevel },
+                alerts: newAlerts
+            };
+            deliveries = await Promise.all(monitor.webhooks.map(url => deliverWebhook(url, payload)));
+        }
+        // 新告警至少被一个 Webhook 接收后才记为已推送，全部推送失败时下次运行重新推送
+        const delivered = monitor.webhooks.length === 0 || deliveries.some(delivery => delivery.ok);
+        const activeAlertKeys = alerts
+            .filter(alert => delivered || monitor.activeAlertKeys.includes(alert.key))
+            .map(alert => alert.key);
+
+        // 运行期间配置可能已被修改，只更新运行状态
+        const latest = await monitorStore.get(tokenAddress);
+        if (latest) {
+            await monitorStore.put(tokenAddress, {
+                ...latest,
+                lastRunAt: startedAt,
+                lastSnapshotId: snapshot.id,
+                lastStatus: 'ok',
+                lastError: undefined,
+                activeAlertKeys,
+                updatedAt: new Date().toISOString()
+            });
+        }
+
+        console.log(`✓ Monitor ${tokenAddress}: ${alerts.length} alerts, ${newAlerts.length} new`);
+        return { tokenAddress, snapshotId: snapshot.id, alerts, newAlerts, deliveries };
+    } catch (error) {
+        const latest = await monitorStore.get(tokenAddress);
+        if (latest) {
+            await monitorStore.put(tokenAddress, {
+                ...latest,
+                lastRunAt: startedAt,
+                lastStatus: 'failed',
+                lastError: error instanceof Error ? error.message : String(error),
+                updatedAt: new Date().toISOString()
+            });
+        }
+        console.error(`❌ Monitor ${tokenAddress} failed:`, error);
+        throw error;
+    } finally {
+        runningMonitors.delete(tokenAddress);
+    }
+}
+
+/**
+ * 判断监控是否到期
+ * @param {WatchedToken} monitor - 监控配置
+ * @param {number} now - 当前时间戳（毫秒）
+ * @returns {boolean} 是否需要运行
+ */
+function isMonitorDue(monitor: WatchedToken, now: number): boolean {
+    if (!monitor.enabled || runningMonitors.has(monitor.tokenAddress)) return false;
+    if (!monitor.lastRunAt) return true;
+    return now - Date.parse(monitor.lastRunAt) >= monitor.intervalMinutes * 60 * 1000;
+}
+
+/**
+ * 依次运行所有到期的监控，单个代币失败不影响其他代币
+ */
+async function runDueMonitors(): Promise<void> {
+    const monitors = await listMonitors();
+    for (const monitor of monitors) {
+        if (!isMonitorDue(monitor, Date.now())) continue;
+        await runMonitor(monitor.tokenAddress).catch(() => undefined);
+    }
+}
+
+/**
+ * 启动监控调度器，重复调用无效果
+ */
+function startMonitorScheduler(): void {
+    const tickSeconds = Number(process.env.MONITOR_TICK_SECONDS ?? 60);
+    if (schedulerTimer || !Number.isFinite(tickSeconds) || tickSeconds <= 0) return;
+
+    // 上一轮未结束时跳过本轮
+    let ticking = false;
+    schedulerTimer = setInterval(async () => {
+        if (ticking) return;
+        ticking = true;
+        try {
+            await runDueMonitors();
+        } catch (error) {
+            console.error('❌ Monitor scheduler tick failed:', error);
+        } finally {
+            ticking = false;
+        }
+    }, tickSeconds * 1000);
+
+    console.log(`🔔 Monitor scheduler started, checking every ${tickSeconds}s`);
+}
+
+/**
+ * 停止监控调度器
+ */
+function stopMonitorScheduler(): void {
+    if (schedulerTimer) {
+        clearInterval(schedulerTimer);
+        schedulerTimer = null;
+    }
+}
+
+export {
+    evaluateMonitorRules,
+    listMonitors,
+    getMonitor,
+    saveMonitor,
+    deleteMonitor,
+    runMonitor,
+    runDueMonitors,
+    startMonitorScheduler,
+    stopMonitorScheduler,
+    MonitorBusyError
+};
+
+export type {
+    MonitorRule,
+    WatchedToken,
+    WatchedTokenInput,
+    MonitorAlert,
+    MonitorAlertPayload,
+    MonitorRun
+};
@@ -0,0 +1,119 @@
+/**
+ * permalink.ts
+ * 主要功能：分析结果页面链接的生成与解析
+ *
+ * 链接格式：/analysis/[token]?topN=&maxDepth=&minAmount=&direction=&exchangeMode=&traceTokenFlow=&snapshot=
+ * 链接中包含完整的分析参数，打开链接即可看到相同参数下的结果
+ *
+ * 浏览器端与服务端共用
+ */
+
+import { validateAnalysisParameters } from './validation';
+import type { ValidationResult } from './validation';
+import type { AnalysisParameters } from './analyze';
+
+// 类型定义
+/**
+ * 页面查询参数（Next.js searchParams）
+ */
+type SearchParams = Record<string, string | string[] | undefined>;
+
+/**
+ * 从链接解析出的分析参数与快照
+ * @interface AnalysisPermalink
+ * @property {string | null} snapshotId - 指定的快照 ID，未指定时使用相同参数的最新快照
+ */
+interface AnalysisPermalink {
+    parameters: AnalysisParameters;
+    snapshotId: string | null;
+}
+
+// 数值类型的参数
+const NUMBER_PARAMETERS: (keyof AnalysisParameters)[] = ['topN', 'maxDepth', 'minAmount'];
+
+/**
+ * 生成分析结果页面链接
+ * @param {string} tokenAddress - 代币地址
+ * @param {AnalysisParameters} parameters - 分析参数
+ * @param {string | null} snapshotId - 快照 ID
+ * @returns {string} 页面路径
+ */
+function buildAnalysisPath(
+    tokenAddress: string,
+    parameters: AnalysisParameters,
+    snapshotId: string | null = null
+): string {
+    const query = new URLSearchParams({
+        topN: String(parameters.topN),
+        maxDepth: String(parameters.maxDepth),
+        minAmount: String(parameters.minAmount),
+        direction: parameters.direction,
+        exchangeMode: parameters.exchangeMode,
+        traceTokenFlow: String(parameters.traceTokenFlow)
+    });
+    if (snapshotId) {
+        query.set('snapshot', snapshotId);
+    }
+    return `/analysis/${encodeURIComponent(tokenAddress)}?${query.toString()}`;
+}
+
+/**
+ * 解析分析结果页面的查询参数，未提供的参数使用默认值
+ * @param {SearchParams} searchParams - 页面查询参数
+ * @returns {ValidationResult<AnalysisPermalink>} 解析结果
+ */
+function parseAnalysisSearchParams(searchParams: SearchParams): ValidationResult<AnalysisPermalink> {
+    const first = (key: string) => {
+        const value = searchParams[key];
+        return Array.isArray(value) ? value[0] : value;
+    };
+
+    // 查询参数均为字符串，转换为对应类型后复用请求体的校验规则
+    const raw: Record<string, unknown> = {};
+    NUMBER_PARAMETERS.forEach(key => {
+        const value = first(key);
+        if (value !== undefined) raw[key] = value.trim() === '' ? NaN : Number(value);
+    });
+    ['direction', 'exchangeMode'].forEach(key => {
+        const value = first(key);
+        if (value !== undefined) raw[key] = value;
+    });
+    const traceTokenFlow = first('traceTokenFlow');
+    if (traceTokenFlow !== undefined) {
+        raw.traceTokenFlow = traceTokenFlow === 'true' ? true : traceTokenFlow === 'false' ? false : traceTokenFlow;
+    }
+
+    const validation = validateAnalysisParameters(raw);
+    if (!validation.ok) {
+        return validation;
+    }
+
+    return {
+        ok: true,
+        value: {
+            parameters: validation.value,
+            snapshotId: first('snapshot') || null
+        }
+    };
+}
+
+/**
+ * 判断两组分析参数是否相同
+ * @param {AnalysisParameters} a - 参数 A
+ * @param {AnalysisParameters} b - 参数 B
+ * @returns {boolean} 是否相同
+ */
+function isSameParameters(a: AnalysisParameters, b: AnalysisParameters): boolean {
+    return (Object.keys(a) as (keyof AnalysisParameters)[]).every(key => a[key] === b[key]);
+}
+
+export {
+    buildAnalysisPath,
+    parseAnalysisSearchParams,
+    isSameParameters
+};
+
+export type {
+    SearchParams,
+    AnalysisPermalink
+};
@@ -0,0 +1,48 @@
+/**
+ * pool.ts
+ * 主要功能：限制并发数的工作池
+ *
+ * 提交到同一工作池的任务最多同时执行 concurrency 个，其余任务排队等待
+ * 任务结束时执行名额直接交给队首的等待任务，新提交的任务不会插队
+ */
+
+/**
+ * 工作池
+ */
+class WorkerPool {
+    private active = 0;
+    private waiting: (() => void)[] = [];
+
+    constructor(private concurrency: number) {
+        if (!Number.isInteger(concurrency) || concurrency < 1) {
+            throw new Error(`Invalid concurrency: ${concurrency}`);
+        }
+    }
+
+    /**
+     * 在工作池中执行任务
+     * @param {Function} task - 异步任务
+     * @returns {Promise<T>} 任务结果
+     */
+    async run<T>(task: () => Promise<T>): Promise<T> {
+        if (this.active >= this.concurrency) {
+            // 由结束的任务直接移交执行名额，唤醒后不再计数
+            await new Promise<void>(resolve => this.waiting.push(resolve));
+        } else {
+            this.active++;
+        }
+
+        try {
+            return await task();
+        } finally {
+            const next = this.waiting.shift();
+            if (next) {
+                next();
+            } else {
+                this.active--;
+            }
+        }
+    }
+}
+
+export { WorkerPool };
@@ -0,0 +1,57 @@
+/**
+ * progress.ts
+ * 主要功能：将分析进度事件归并为进度状态
+ *
+ * 服务端任务与浏览器端共用，保证两边的进度展示一致
+ */
+
+import type { AnalysisProgress, AnalysisProgressEvent } from '@/types';
+
+/**
+ * 创建初始进度状态
+ * @returns {AnalysisProgress} 初始进度
+ */
+function createInitialProgress(): AnalysisProgress {
+    return {
+        step: 1,
+        totalSteps: 4,
+        message: 'Starting analysis',
+        currentHolder: null,
+        totalHolders: 0,
+        completedHolders: [],
+        apiCallCount: 0
+    };
+}
+
+/**
+ * 根据进度事件更新进度状态
+ * @param {AnalysisProgress} progress - 当前进度
+ * @param {AnalysisProgressEvent} event - 进度事件
+ * @returns {AnalysisProgress} 新的进度
+ */
+function applyProgressEvent(progress: AnalysisProgress, event: AnalysisProgressEvent): AnalysisProgress {
+    switch (event.type) {
+        case 'step':
+            return { ...progress, step: event.step, totalSteps: event.totalSteps, message: event.message };
+        case 'holder':
+            return { ...progress, currentHolder: event.address, totalHolders: event.total };
+        case 'holder_result':
+            return {
+                ...progress,
+                totalHolders: event.total,
+                apiCallCount: event.apiCallCount,
+                completedHolders: [
+                    ...progress.completedHolders,
+                    {
+                        address: event.address,
+                        relatedCount: event.data.incomingAddresses.length + event.data.outgoingAddresses.length,
+                        status: event.status.status
+                    }
+                ]
+            };
+        default:
+            return progress;
+    }
+}
+
+export { createInitialProgress, applyProgressEvent };
@@ -0,0 +1,229 @@
+/**
+ * rate-limit.ts
+ * 主要功能：上游 API 共享限流与重试
+ *
+ * 工作流程：
+ * 1. 每个上游服务（Solscan、GMGN 代理、Dune、Solana RPC）拥有独立的令牌桶
+ * 2. 每次调用前从令牌桶获取令牌，令牌不足时等待
+ * 3. 遇到 HTTP 429 / 5xx 时按指数退避重试，并优先遵循 Retry-After
+ *
+ * 配置（环境变量，{PROVIDER} 为 SOLSCAN / GMGN / DUNE / RPC）：
+ * - {PROVIDER}_RATE_LIMIT: 每秒请求数
+ * - {PROVIDER}_RATE_BURST: 令牌桶容量
+ * - {PROVIDER}_MAX_RETRIES: 最大重试次数
+ */
+
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+// 类型定义
+/**
+ * 上游服务名称
+ */
+type Provider = 'solscan' | 'gmgn' | 'dune' | 'rpc';
+
+/**
+ * 限流配置
+ * @interface RateLimitConfig
+ * @property {number} ratePerSecond - 每秒补充的令牌数
+ * @property {number} burst - 令牌桶容量
+ * @property {number} maxRetries - 最大重试次数
+ * @property {number} baseDelay - 退避基础延迟（毫秒）
+ */
+interface RateLimitConfig {
+    ratePerSecond: number;
+    burst: number;
+    maxRetries: number;
+    baseDelay: number;
+}
+
+/**
+ * 携带 HTTP 状态码的上游错误
+ * fetch 调用在响应非 2xx 时抛出此错误，以便限流器判断是否需要重试
+ */
+class UpstreamHttpError extends Error {
+    constructor(
+        message: string,
+        public status: number,
+        public retryAfter: string | null = null
+    ) {
+        super(message);
+        this.name = 'UpstreamHttpError';
+    }
+}
+
+// 默认配置
+const DEFAULT_CONFIGS: Record<Provider, RateLimitConfig> = {
+    solscan: { ratePerSecond: 10, burst: 10, maxRetries: 3, baseDelay: 500 },
+    gmgn: { ratePerSecond: 1, burst: 2, maxRetries: 3, baseDelay: 2000 },
+    dune: { ratePerSecond: 1, burst: 1, maxRetries: 3, baseDelay: 2000 },
+    rpc: { ratePerSecond: 5, burst: 5, maxRetries: 3, baseDelay: 500 }
+};
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * 令牌桶
+ * 按固定速率补充令牌，等待中的调用按先后顺序获取令牌
+ */
+class TokenBucket {
+    private tokens: number;
+    private lastRefill = Date.now();
+    private queue: Promise<void> = Promise.resolve();
+
+    constructor(private ratePerSecond: number, private capacity: number) {
+        this.tokens = capacity;
+    }
+
+    private refill(): void {
+        const now = Date.now();
+        const elapsed = (now - this.lastRefill) / 1000;
+        this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.ratePerSecond);
+        this.lastRefill = now;
+    }
+
+    /**
+     * 获取一个令牌，令牌不足时等待
+     */
+    take(): Promise<void> {
+        const next = this.queue.then(async () => {
+            this.refill();
+            if (this.tokens < 1) {
+                const wait = ((1 - this.tokens) / this.ratePerSecond) * 1000;
+                await delay(wait);
+                this.refill();
+            }
+            this.tokens -= 1;
+        });
+        this.queue = next;
+        return next;
+    }
+}
+
+/**
+ * 读取上游服务的限流配置
+ * @param {Provider} provider - 上游服务
+ * @returns {RateLimitConfig} 限流配置
+ */
+function getRateLimitConfig(provider: Provider): RateLimitConfig {
+    const prefix = provider.toUpperCase();
+    const defaults = DEFAULT_CONFIGS[provider];
+    const read = (name: string, fallback: number) => {
+        const value = Number(process.env[`${prefix}_${name}`]);
+        return Number.isFinite(value) && value > 0 ? value : fallback;
+    };
+
+    return {
+        ratePerSecond: read('RATE_LIMIT', defaults.ratePerSecond),
+        burst: read('RATE_BURST', defaults.burst),
+        maxRetries: read('MAX_RETRIES', defaults.maxRetries),
+        baseDelay: defaults.baseDelay
+    };
+}
+
+const buckets = new Map<Provider, TokenBucket>();
+
+/**
+ * 获取上游服务的令牌桶，首次使用时创建
+ * @param {Provider} provider - 上游服务
+ * @returns {TokenBucket} 令牌桶
+ */
+function getBucket(provider: Provider): TokenBucket {
+    let bucket = buckets.get(provider);
+    if (!bucket) {
+        const config = getRateLimitConfig(provider);
+        bucket = new TokenBucket(config.ratePerSecond, config.burst);
+        buckets.set(provider, bucket);
+    }
+    return bucket;
+}
+
+/**
+ * 从错误中提取 HTTP 状态码与 Retry-After
+ * 支持 UpstreamHttpError 与 axios 错误
+ * @param {unknown} error - 错误
+ * @returns 状态码与 Retry-After，无法识别时返回 null
+ */
+function getHttpErrorInfo(error: unknown): { status: number; retryAfter: string | null } | null {
+    if (error instanceof UpstreamHttpError) {
+        return { status: error.status, retryAfter: error.retryAfter };
+    }
+
+    const response = (error as { response?: { status?: number; headers?: Record<string, unknown> } })?.response;
+    if (response?.status) {
+        const retryAfter = response.headers?.['retry-after'];
+        return { status: response.status, retryAfter: retryAfter ? String(retryAfter) : null };
+    }
+
+    return null;
+}
+
+/**
+ * 解析 Retry-After（秒数或 HTTP 日期）
+ * @param {string | null} retryAfter - Retry-After 头
+ * @returns {number | null} 等待毫秒数
+ */
+function parseRetryAfter(retryAfter: string | null): number | null {
+    if (!retryAfter) return null;
+
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+
+    return null;
+}
+
+/**
+ * 判断状态码是否可重试
+ * @param {number} status - HTTP 状态码
+ * @returns {boolean} 是否可重试
+ */
+function isRetryableStatus(status: number): boolean {
+    return status === 429 || status >= 500;
+}
+
+/**
+ * 在限流与重试保护下执行上游调用
+ * @param {Provider} provider - 上游服务
+ * @param {Function} fn - 实际调用
+ * @returns {Promise<T>} 调用结果
+ */
+async function withRateLimit<T>(provider: Provider, fn: () => Promise<T>): Promise<T> {
+    const config = getRateLimitConfig(provider);
+    const bucket = getBucket(provider);
+
+    for (let attempt = 0; ; attempt++) {
+        await bucket.take();
+
+        try {
+            return await fn();
+        } catch (error) {
+            const info = getHttpErrorInfo(error);
+            if (!info || !isRetryableStatus(info.status) || attempt >= config.maxRetries) {
+                throw error;
+            }
+
+            const wait = parseRetryAfter(info.retryAfter) ?? config.baseDelay * Math.pow(2, attempt);
+            console.warn(`⏳ ${provider} responded ${info.status}, retrying in ${wait}ms (attempt ${attempt + 1}/${config.maxRetries})`);
+            await delay(wait);
+        }
+    }
+}
+
+export {
+    withRateLimit,
+    getRateLimitConfig,
+    getHttpErrorInfo,
+    parseRetryAfter,
+    isRetryableStatus,
+    UpstreamHttpError,
+    TokenBucket
+};
+
+export type {
+    Provider,
+    RateLimitConfig
+};
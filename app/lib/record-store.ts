@@ -0,0 +1,106 @@
+/**
+ * record-store.ts
+ * 主要功能：按 ID 存取 JSON 记录的通用存储
+ *
+ * - memory: 进程内存
+ * - file: 本地 JSON 文件，每条记录一个文件
+ */
+
+import path from 'path';
+import { promises as fs } from 'fs';
+
+// 类型定义
+/**
+ * 记录存储接口
+ * @interface RecordStore
+ */
+interface RecordStore<T> {
+    list(): Promise<T[]>;
+    get(id: string): Promise<T | null>;
+    put(id: string, record: T): Promise<void>;
+    delete(id: string): Promise<boolean>;
+}
+
+/**
+ * 内存记录存储
+ */
+class MemoryRecordStore<T> implements RecordStore<T> {
+    private records = new Map<string, T>();
+
+    async list(): Promise<T[]> {
+        return Array.from(this.records.values());
+    }
+
+    async get(id: string): Promise<T | null> {
+        return this.records.get(id) ?? null;
+    }
+
+    async put(id: string, record: T): Promise<void> {
+        this.records.set(id, record);
+    }
+
+    async delete(id: string): Promise<boolean> {
+        return this.records.delete(id);
+    }
+}
+
+/**
+ * 文件记录存储，每条记录一个 JSON 文件
+ * 同一目录可存放多种记录，按文件扩展名区分（如快照结果 .json 与摘要 .summary.json）
+ */
+class FileRecordStore<T> implements RecordStore<T> {
+    constructor(private dir: string, private extension: string = '.json') { }
+
+    private filePath(id: string): string {
+        return path.join(this.dir, `${path.basename(id)}${this.extension}`);
+    }
+
+    async list(): Promise<T[]> {
+        let files: string[];
+        try {
+            files = await fs.readdir(this.dir);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+            throw error;
+        }
+
+        const records: (T | null)[] = await Promise.all(
+            files
+                .filter(file => file.endsWith(this.extension))
+                .map(file => this.get(file.slice(0, -this.extension.length)))
+        );
+        return records.filter((record): record is T => record !== null);
+    }
+
+    async get(id: string): Promise<T | null> {
+        try {
+            const content = await fs.readFile(this.filePath(id), 'utf8');
+            return JSON.parse(content) as T;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+            throw error;
+        }
+    }
+
+    async put(id: string, record: T): Promise<void> {
+        await fs.mkdir(this.dir, { recursive: true });
+        await fs.writeFile(this.filePath(id), JSON.stringify(record, null, 2));
+    }
+
+    async delete(id: string): Promise<boolean> {
+        try {
+            await fs.unlink(this.filePath(id));
+            return true;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+            throw error;
+        }
+    }
+}
+
+export {
+    MemoryRecordStore,
+    FileRecordStore
+};
+
+export type { RecordStore };
@@ -0,0 +1,274 @@
+/**
+ * risk.ts
+ * 主要功能：根据分析结果计算持有者与代币的风险评分
+ *
+ * 评分信号（权重见 config/risk-weights.json）：
+ * - 持有者：新钱包、共同资金来源、群组成员、资金来源类型（交易所 / 普通钱包）、持仓集中度
+ * - 代币：大户持仓集中度、群组持仓、共同资金来源持仓、新钱包持仓
+ *
+ * 每项信号命中时按权重计分，分数限制在 0-100，并附带可读的原因说明
+ */
+
+import riskWeights from '../config/risk-weights.json';
+import { isExchangeAddress } from './entities';
+import type { AnalysisResult } from './analyze';
+
+// 类型定义
+/**
+ * 风险等级
+ */
+type RiskLevel = 'low' | 'medium' | 'high';
+
+/**
+ * 单项风险因素
+ * @interface RiskFactor
+ * @property {string} signal - 信号名称，对应权重配置中的键
+ * @property {number} points - 该信号贡献的分数（可为负）
+ * @property {string} description - 可读说明
+ */
+interface RiskFactor {
+    signal: string;
+    points: number;
+    description: string;
+}
+
+/**
+ * 风险评分
+ * @interface RiskScore
+ */
+interface RiskScore {
+    score: number;
+    level: RiskLevel;
+    factors: RiskFactor[];
+}
+
+/**
+ * 持有者风险评分
+ * @interface HolderRiskScore
+ */
+interface HolderRiskScore extends RiskScore {
+    address: string;
+}
+
+/**
+ * 风险报告
+ * @interface RiskReport
+ * @property {RiskScore} token - 代币整体评分
+ * @property {Record<string, HolderRiskScore>} holders - 按持有者地址索引的评分
+ */
+interface RiskReport {
+    token: RiskScore;
+    holders: Record<string, HolderRiskScore>;
+}
+
+/**
+ * 风险权重配置
+ * @interface RiskWeights
+ */
+interface RiskWeights {
+    holder: {
+        isNew: number;
+        sharedFunder: number;
+        clusterMember: number;
+        freshWalletFunded: number;
+        cexFunded: number;
+        concentration: number;
+    };
+    token: {
+        topHolderConcentration: number;
+        clusteredSupply: number;
+        sharedFunderSupply: number;
+        newWalletSupply: number;
+    };
+    thresholds: {
+        holderConcentration: number;
+        topHolderConcentration: number;
+        supplyShare: number;
+        mediumLevel: number;
+        highLevel: number;
+    };
+}
+
+const DEFAULT_RISK_WEIGHTS: RiskWeights = riskWeights;
+
+/**
+ * 格式化持仓比例
+ * @param {number} pct - 比例（0-1）
+ * @returns {string} 百分比字符串
+ */
+function formatPct(pct: number): string {
+    return `${(pct * 100).toFixed(2)}%`;
+}
+
+/**
+ * 按比例计算信号得分，达到阈值时得满分
+ * @param {number} weight - 权重
+ * @param {number} value - 实际值
+ * @param {number} threshold - 满分阈值
+ * @returns {number} 分数
+ */
+function scaled(weight: number, value: number, threshold: number): number {
+    return Math.round(weight * Math.min(1, value / threshold));
+}
+
+/**
+ * 汇总风险因素
+ * @param {RiskFactor[]} factors - 风险因素
+ * @param {RiskWeights} weights - 权重配置
+ * @returns {RiskScore} 评分
+ */
+function toRiskScore(factors: RiskFactor[], weights: RiskWeights): RiskScore {
+    const total = factors.reduce((sum, factor) => sum + factor.points, 0);
+    const score = Math.max(0, Math.min(100, total));
+    const level: RiskLevel =
+        score >= weights.thresholds.highLevel ? 'high' :
+            score >= weights.thresholds.mediumLevel ? 'medium' : 'low';
+
+    return {
+        score,
+        level,
+        factors: factors
+            .filter(factor => factor.points !== 0)
+            .sort((a, b) => Math.abs(b.points) - Math.abs(a.points))
+    };
+}
+
+/**
+ * 计算分析结果的风险评分
+ * @param {AnalysisResult} result - 分析结果（需已包含群组与共同资金来源）
+ * @param {RiskWeights} weights - 权重配置，默认读取 config/risk-weights.json
+ * @returns {RiskReport} 风险报告
+ */
+function scoreAnalysis(result: AnalysisResult, weights: RiskWeights = DEFAULT_RISK_WEIGHTS): RiskReport {
+    const { holder: holderWeights, token: tokenWeights, thresholds } = weights;
+    const canDetectNew = result.holderSourceCapabilities.isNew;
+
+    const clusterByHolder = new Map(
+        result.clusters.flatMap(cluster => cluster.holders.map(address => [address, cluster] as const))
+    );
+    const fundersByHolder = new Map<string, string[]>();
+    result.commonFunders.forEach(funder => {
+        funder.holders.forEach(holder => {
+            fundersByHolder.set(holder.address, [...(fundersByHolder.get(holder.address) ?? []), funder.funder]);
+        });
+    });
+
+    // 1. 持有者评分
+    const holders: Record<string, HolderRiskScore> = {};
+    for (const holder of result.topHolders) {
+        const address = holder.holder_address;
+        const pct = parseFloat(holder.holder_pct_of_supply) || 0;
+        const factors: RiskFactor[] = [];
+
+        if (canDetectNew && holder.is_new) {
+            factors.push({
+                signal: 'isNew',
+                points: holderWeights.isNew,
+                description: 'Newly created wallet'
+            });
+        }
+
+        const sharedFunders = fundersByHolder.get(address);
+        if (sharedFunders) {
+            factors.push({
+                signal: 'sharedFunder',
+                points: holderWeights.sharedFunder,
+                description: `Shares a funder with other top holders (${sharedFunders.map(f => f.substring(0, 4)).join(', ')})`
+            });
+        }
+
+        const cluster = clusterByHolder.get(address);
+        if (cluster) {
+            factors.push({
+                signal: 'clusterMember',
+                points: holderWeights.clusterMember,
+                description: `Linked to ${cluster.holders.length - 1} other top holders controlling ${formatPct(cluster.totalPct)} together`
+            });
+        }
+
+        // 直接转入该持有者的资金来源
+        const directFunders = (result.relatedAddresses.get(address)?.transactions ?? [])
+            .filter(tx => tx.type === 'in' && tx.to === address)
+            .map(tx => tx.from);
+        if (directFunders.some(isExchangeAddress)) {
+            factors.push({
+                signal: 'cexFunded',
+                points: holderWeights.cexFunded,
+                description: 'Funded from an exchange wallet'
+            });
+        } else if (directFunders.length > 0) {
+            factors.push({
+                signal: 'freshWalletFunded',
+                points: holderWeights.freshWalletFunded,
+                description: 'Funded only by non-exchange wallets'
+            });
+        }
+
+        factors.push({
+            signal: 'concentration',
+            points: scaled(holderWeights.concentration, pct, thresholds.holderConcentration),
+            description: `Holds ${formatPct(pct)} of supply`
+        });
+
+        holders[address] = { address, ...toRiskScore(factors, weights) };
+    }
+
+    // 2. 代币评分
+    const pctOf = (addresses: Iterable<string>) => {
+        let total = 0;
+        for (const address of addresses) {
+            const holder = result.topHolders.find(h => h.holder_address === address);
+            total += holder ? parseFloat(holder.holder_pct_of_supply) || 0 : 0;
+        }
+        return total;
+    };
+
+    const topPct = pctOf(result.topHolders.map(holder => holder.holder_address));
+    const clusteredPct = pctOf(clusterByHolder.keys());
+    const sharedFunderPct = pctOf(fundersByHolder.keys());
+    const tokenFactors: RiskFactor[] = [
+        {
+            signal: 'topHolderConcentration',
+            points: scaled(tokenWeights.topHolderConcentration, topPct, thresholds.topHolderConcentration),
+            description: `Top ${result.topHolders.length} holders control ${formatPct(topPct)} of supply`
+        },
+        {
+            signal: 'clusteredSupply',
+            points: scaled(tokenWeights.clusteredSupply, clusteredPct, thresholds.supplyShare),
+            description: `${result.clusters.length} linked holder groups control ${formatPct(clusteredPct)} of supply`
+        },
+        {
+            signal: 'sharedFunderSupply',
+            points: scaled(tokenWeights.sharedFunderSupply, sharedFunderPct, thresholds.supplyShare),
+            description: `Holders with a shared funder control ${formatPct(sharedFunderPct)} of supply`
+        }
+    ];
+
+    if (canDetectNew) {
+        const newPct = pctOf(result.topHolders.filter(holder => holder.is_new).map(holder => holder.holder_address));
+        tokenFactors.push({
+            signal: 'newWalletSupply',
+            points: scaled(tokenWeights.newWalletSupply, newPct, thresholds.supplyShare),
+            description: `New wallets control ${formatPct(newPct)} of supply`
+        });
+    }
+
+    return {
+        token: toRiskScore(tokenFactors, weights),
+        holders
+    };
+}
+
+export {
+    scoreAnalysis,
+    DEFAULT_RISK_WEIGHTS
+};
+
+export type {
+    RiskLevel,
+    RiskFactor,
+    RiskScore,
+    HolderRiskScore,
+    RiskReport,
+    RiskWeights
+};
@@ -0,0 +1,163 @@
+/**
+ * schema.ts
+ * 主要功能：校验上游数据源返回的数据结构
+ *
+ * 上游接口结构变化时立即抛出 ProviderError（指明数据源、接口与字段），
+ * 而不是静默地得到空的持有者列表或关系图
+ */
+
+import { ProviderError } from './errors';
+
+// 类型定义
+/**
+ * 字段类型
+ * - numeric: 数字，或可转换为有限数字的字符串
+ */
+type FieldType = 'string' | 'number' | 'numeric' | 'boolean' | 'string[]' | 'array' | 'object';
+
+/**
+ * 字段规则
+ * @interface FieldRule
+ * @property {boolean} optional - 允许缺失
+ * @property {boolean} nullable - 允许为 null
+ */
+interface FieldRule {
+    type: FieldType;
+    optional?: boolean;
+    nullable?: boolean;
+}
+
+/**
+ * 对象结构：字段名到类型或规则
+ */
+type ObjectSchema = Record<string, FieldType | FieldRule>;
+
+/**
+ * 校验上下文，用于生成错误信息
+ * @interface SchemaContext
+ */
+interface SchemaContext {
+    provider: string;
+    endpoint: string;
+}
+
+/**
+ * 描述值的实际类型
+ * @param {unknown} value - 值
+ * @returns {string} 类型描述
+ */
+function describe(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+}
+
+/**
+ * 检查值是否符合字段类型
+ * @param {unknown} value - 值
+ * @param {FieldType} type - 字段类型
+ * @returns {boolean} 是否符合
+ */
+function matchesType(value: unknown, type: FieldType): boolean {
+    switch (type) {
+        case 'string':
+            return typeof value === 'string';
+        case 'number':
+            return typeof value === 'number' && Number.isFinite(value);
+        case 'numeric':
+            return (typeof value === 'number' && Number.isFinite(value))
+                || (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value)));
+        case 'boolean':
+            return typeof value === 'boolean';
+        case 'string[]':
+            return Array.isArray(value) && value.every(item => typeof item === 'string');
+        case 'array':
+            return Array.isArray(value);
+        case 'object':
+            return typeof value === 'object' && value !== null && !Array.isArray(value);
+    }
+}
+
+/**
+ * 生成字段路径
+ * @param {string} path - 父路径
+ * @param {string} key - 字段名
+ * @returns {string} 字段路径
+ */
+function joinPath(path: string, key: string): string {
+    return path ? `${path}.${key}` : key;
+}
+
+/**
+ * 校验对象结构，不符合时抛出 ProviderError
+ * 未在结构中声明的字段不做检查
+ * @param {unknown} value - 待校验的值
+ * @param {ObjectSchema} schema - 对象结构
+ * @param {SchemaContext} ctx - 校验上下文
+ * @param {string} path - 当前值的字段路径
+ * @returns {T} 校验通过的值
+ * @throws {ProviderError} 结构不符合时抛出
+ */
+function expectObject<T>(value: unknown, schema: ObjectSchema, ctx: SchemaContext, path: string = ''): T {
+    if (!matchesType(value, 'object')) {
+        throw new ProviderError(
+            ctx.provider,
+            ctx.endpoint,
+            path || '(root)',
+            `${ctx.provider} ${ctx.endpoint}: expected ${path || 'response'} to be an object, got ${describe(value)}`
+        );
+    }
+
+    const record = value as Record<string, unknown>;
+    for (const [key, spec] of Object.entries(schema)) {
+        const rule = typeof spec === 'string' ? { type: spec } : spec;
+        const fieldValue = record[key];
+        const fieldPath = joinPath(path, key);
+
+        if (fieldValue === undefined && rule.optional) continue;
+        if (fieldValue === null && rule.nullable) continue;
+        if (!matchesType(fieldValue, rule.type)) {
+            throw new ProviderError(
+                ctx.provider,
+                ctx.endpoint,
+                fieldPath,
+                `${ctx.provider} ${ctx.endpoint}: expected ${fieldPath} to be ${rule.type}, got ${describe(fieldValue)}`
+            );
+        }
+    }
+
+    return value as T;
+}
+
+/**
+ * 校验数组及其中每个对象的结构
+ * @param {unknown} value - 待校验的值
+ * @param {ObjectSchema} itemSchema - 数组元素结构
+ * @param {SchemaContext} ctx - 校验上下文
+ * @param {string} path - 数组的字段路径
+ * @returns {T[]} 校验通过的数组
+ * @throws {ProviderError} 结构不符合时抛出
+ */
+function expectArrayOf<T>(value: unknown, itemSchema: ObjectSchema, ctx: SchemaContext, path: string): T[] {
+    if (!Array.isArray(value)) {
+        throw new ProviderError(
+            ctx.provider,
+            ctx.endpoint,
+            path,
+            `${ctx.provider} ${ctx.endpoint}: expected ${path} to be array, got ${describe(value)}`
+        );
+    }
+    return value.map((item, index) => expectObject<T>(item, itemSchema, ctx, `${path}[${index}]`));
+}
+
+export {
+    expectObject,
+    expectArrayOf
+};
+
+export type {
+    FieldType,
+    FieldRule,
+    ObjectSchema,
+    SchemaContext
+};
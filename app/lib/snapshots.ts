@@ -0,0 +1,500 @@
+/**
+ * snapshots.ts
+ * 主要功能：分析结果快照历史与快照对比
+ *
+ * 工作流程：
+ * 1. 每次分析完成后按代币保存带时间戳的快照
+ * 2. 按代币列出历史快照（只读取摘要，不加载完整结果）
+ * 3. 对比两个快照：进出前 N 名的持有者、持仓比例变化、新增资金转入、群组增减
+ *
+ * 快照存储可插拔：
+ * - file: 本地 JSON 文件，每个快照一个结果文件和一个摘要文件（默认）
+ * - memory: 进程内存
+ */
+
+import dotenv from 'dotenv';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { MemoryRecordStore, FileRecordStore } from './record-store';
+import type { RecordStore } from './record-store';
+import { isSameParameters } from './permalink';
+import type { AnalysisParameters, SerializedAnalysisResult, TransactionData } from './analyze';
+import type { RiskLevel } from './risk';
+
+dotenv.config();
+
+// 类型定义
+/**
+ * 快照摘要
+ * @interface SnapshotSummary
+ */
+interface SnapshotSummary {
+    id: string;
+    tokenAddress: string;
+    createdAt: string;
+    parameters: AnalysisParameters;
+    holderSource: string;
+    totalHolders: number;
+    riskScore: number;
+    riskLevel: RiskLevel;
+}
+
+/**
+ * 分析快照
+ * @interface AnalysisSnapshot
+ */
+interface AnalysisSnapshot extends SnapshotSummary {
+    result: SerializedAnalysisResult;
+}
+
+/**
+ * 持有者持仓
+ * @interface HolderPosition
+ * @property {string} address - 持有者地址
+ * @property {number} pct - 持仓比例（0-1）
+ */
+interface HolderPosition {
+    address: string;
+    pct: number;
+}
+
+/**
+ * 持有者持仓比例变化
+ * @interface HolderPctChange
+ */
+interface HolderPctChange {
+    address: string;
+    previousPct: number;
+    currentPct: number;
+    change: number;
+}
+
+/**
+ * 群组变化类型
+ */
+type ClusterChangeStatus = 'new' | 'grown' | 'shrunk' | 'changed' | 'dissolved';
+
+/**
+ * 群组变化
+ * @interface ClusterChange
+ * @property {string | null} previousId - 旧快照中对应的群组 ID，新群组为 null
+ * @property {string | null} currentId - 新快照中对应的群组 ID，解散的群组为 null
+ * @property {string[]} holders - 群组当前成员（解散的群组为原成员）
+ * @property {string[]} added - 新加入的持有者
+ * @property {string[]} removed - 离开的持有者
+ */
+interface ClusterChange {
+    status: ClusterChangeStatus;
+    previousId: string | null;
+    currentId: string | null;
+    holders: string[];
+    added: string[];
+    removed: string[];
+    previousPct: number;
+    currentPct: number;
+}
+
+/**
+ * 两个快照不一致的分析参数
+ * @interface ParameterMismatch
+ */
+interface ParameterMismatch {
+    parameter: keyof AnalysisParameters;
+    from: AnalysisParameters[keyof AnalysisParameters];
+    to: AnalysisParameters[keyof AnalysisParameters];
+}
+
+/**
+ * 快照对比结果
+ * @interface SnapshotDiff
+ * @property {HolderPosition[]} entered - 新进入前 N 名的持有者
+ * @property {HolderPosition[]} exited - 跌出前 N 名的持有者（持仓为旧快照中的比例）
+ * @property {HolderPctChange[]} pctChanges - 两次均在前 N 名的持有者持仓变化，按变化幅度排序
+ * @property {TransactionData[]} newFundingEdges - 新快照中新出现的资金转入交易
+ * @property {ClusterChange[]} clusterChanges - 新增、扩大、缩小或解散的群组
+ * @property {ParameterMismatch[]} parameterMismatches - 两个快照不一致的分析参数，非空时各项变化可能由参数不同导致
+ */
+interface SnapshotDiff {
+    tokenAddress: string;
+    from: SnapshotSummary;
+    to: SnapshotSummary;
+    entered: HolderPosition[];
+    exited: HolderPosition[];
+    pctChanges: HolderPctChange[];
+    newFundingEdges: TransactionData[];
+    clusterChanges: ClusterChange[];
+    parameterMismatches: ParameterMismatch[];
+}
+
+/**
+ * 快照存储接口
+ * @interface SnapshotStore
+ */
+interface SnapshotStore {
+    save(snapshot: AnalysisSnapshot): Promise<void>;
+    list(tokenAddress: string): Promise<SnapshotSummary[]>;
+    get(tokenAddress: string, id: string): Promise<AnalysisSnapshot | null>;
+}
+
+/**
+ * 单个代币的快照记录：完整结果与摘要分开存放，列出历史时只读取摘要
+ * @interface SnapshotRecords
+ */
+interface SnapshotRecords {
+    results: RecordStore<AnalysisSnapshot>;
+    summaries: RecordStore<SnapshotSummary>;
+}
+
+/**
+ * 提取快照摘要（去掉完整结果）
+ * @param {AnalysisSnapshot} snapshot - 快照
+ * @returns {SnapshotSummary} 摘要
+ */
+function toSnapshotSummary(snapshot: AnalysisSnapshot): SnapshotSummary {
+    return {
+        id: snapshot.id,
+        tokenAddress: snapshot.tokenAddress,
+        createdAt: snapshot.createdAt,
+        parameters: snapshot.parameters,
+        holderSource: snapshot.holderSource,
+        totalHolders: snapshot.totalHolders,
+        riskScore: snapshot.riskScore,
+        riskLevel: snapshot.riskLevel
+    };
+}
+
+/**
+ * 基于记录存储的快照存储，每个代币一组记录
+ */
+class RecordSnapshotStore implements SnapshotStore {
+    private records = new Map<string, SnapshotRecords>();
+
+    constructor(private createRecords: (tokenAddress: string) => SnapshotRecords) { }
+
+    private recordsFor(tokenAddress: string): SnapshotRecords {
+        let records = this.records.get(tokenAddress);
+        if (!records) {
+            records = this.createRecords(tokenAddress);
+            this.records.set(tokenAddress, records);
+        }
+        return records;
+    }
+
+    async save(snapshot: AnalysisSnapshot): Promise<void> {
+        const { results, summaries } = this.recordsFor(snapshot.tokenAddress);
+        await results.put(snapshot.id, snapshot);
+        await summaries.put(snapshot.id, toSnapshotSummary(snapshot));
+    }
+
+    async list(tokenAddress: string): Promise<SnapshotSummary[]> {
+        return this.recordsFor(tokenAddress).summaries.list();
+    }
+
+    async get(tokenAddress: string, id: string): Promise<AnalysisSnapshot | null> {
+        return this.recordsFor(tokenAddress).results.get(id);
+    }
+}
+
+/**
+ * 内存快照存储
+ */
+class MemorySnapshotStore extends RecordSnapshotStore {
+    constructor() {
+        super(() => ({
+            results: new MemoryRecordStore<AnalysisSnapshot>(),
+            summaries: new MemoryRecordStore<SnapshotSummary>()
+        }));
+    }
+}
+
+/**
+ * 文件快照存储，按代币分目录，每个快照一个结果文件（{id}.json）和一个摘要文件（{id}.summary.json）
+ * 结果记录的 .json 扩展名也会匹配摘要文件，因此只通过摘要记录列出快照
+ */
+class FileSnapshotStore extends RecordSnapshotStore {
+    constructor(dir: string) {
+        super(tokenAddress => {
+            const tokenDir = path.join(dir, path.basename(tokenAddress));
+            return {
+                results: new FileRecordStore<AnalysisSnapshot>(tokenDir),
+                summaries: new FileRecordStore<SnapshotSummary>(tokenDir, '.summary.json')
+            };
+        });
+    }
+}
+
+/**
+ * 根据环境变量创建快照存储
+ * - SNAPSHOT_STORE: file | memory，默认 file
+ * - SNAPSHOT_STORE_DIR: 文件存储目录，默认 .data/snapshots
+ * @returns {SnapshotStore} 快照存储
+ */
+function createSnapshotStore(): SnapshotStore {
+    if (process.env.SNAPSHOT_STORE === 'memory') {
+        return new MemorySnapshotStore();
+    }
+    return new FileSnapshotStore(process.env.SNAPSHOT_STORE_DIR || path.join(process.cwd(), '.data', 'snapshots'));
+}
+
+const snapshotStore = createSnapshotStore();
+
+// 快照 ID 格式：毫秒时间戳-8 位十六进制
+const SNAPSHOT_ID_PATTERN = /^\d+-[0-9a-f]{8}$/;
+
+/**
+ * 校验快照 ID 格式
+ * @param {string} id - 快照 ID
+ * @returns {boolean} 是否为 saveSnapshot 生成的 ID
+ */
+function isValidSnapshotId(id: string): boolean {
+    return SNAPSHOT_ID_PATTERN.test(id);
+}
+
+/**
+ * 保存分析结果快照
+ * @param {SerializedAnalysisResult} result - 分析结果
+ * @returns {Promise<SnapshotSummary>} 快照摘要
+ */
+async function saveSnapshot(result: SerializedAnalysisResult): Promise<SnapshotSummary> {
+    const now = new Date();
+    const summary: SnapshotSummary = {
+        // 时间戳前缀保证 ID 按时间排序
+        id: `${now.getTime()}-${randomUUID().slice(0, 8)}`,
+        tokenAddress: result.tokenAddress,
+        createdAt: now.toISOString(),
+        parameters: result.parameters,
+        holderSource: result.holderSource,
+        totalHolders: result.summary.totalHolders,
+        riskScore: result.risk.token.score,
+        riskLevel: result.risk.token.level
+    };
+
+    await snapshotStore.save({ ...summary, result });
+    console.log(`Snapshot ${summary.id} saved for token: ${result.tokenAddress}`);
+    return summary;
+}
+
+/**
+ * 列出代币的历史快照
+ * @param {string} tokenAddress - 代币地址
+ * @returns {Promise<SnapshotSummary[]>} 快照摘要，最新的在前
+ */
+async function listSnapshots(tokenAddress: string): Promise<SnapshotSummary[]> {
+    const snapshots = await snapshotStore.list(tokenAddress);
+    return snapshots.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * 获取使用相同分析参数的最新快照
+ * @param {string} tokenAddress - 代币地址
+ * @param {AnalysisParameters} parameters - 分析参数
+ * @returns {Promise<AnalysisSnapshot | null>} 快照，不存在时返回 null
+ */
+async function findLatestSnapshot(
+    tokenAddress: string,
+    parameters: AnalysisParameters
+): Promise<AnalysisSnapshot | null> {
+    const summaries = await listSnapshots(tokenAddress);
+    const latest = summaries.find(summary => isSameParameters(summary.parameters, parameters));
+    return latest ? getSnapshot(tokenAddress, latest.id) : null;
+}
+
+/**
+ * 获取快照
+ * @param {string} tokenAddress - 代币地址
+ * @param {string} id - 快照 ID
+ * @returns {Promise<AnalysisSnapshot | null>} 快照，不存在时返回 null
+ */
+async function getSnapshot(tokenAddress: string, id: string): Promise<AnalysisSnapshot | null> {
+    return snapshotStore.get(tokenAddress, id);
+}
+
+/**
+ * 获取持有者地址到持仓比例的映射
+ * @param {SerializedAnalysisResult} result - 分析结果
+ * @returns {Map<string, number>} 持仓比例
+ */
+function getHolderPcts(result: SerializedAnalysisResult): Map<string, number> {
+    return new Map(result.topHolders.map(holder => [
+        holder.holder_address,
+        parseFloat(holder.holder_pct_of_supply) || 0
+    ]));
+}
+
+/**
+ * 获取结果中的所有资金转入交易（已去重）
+ * @param {SerializedAnalysisResult} result - 分析结果
+ * @returns {Map<string, TransactionData>} 交易键到交易的映射
+ */
+function getFundingEdges(result: SerializedAnalysisResult): Map<string, TransactionData> {
+    const edges = new Map<string, TransactionData>();
+    Object.values(result.relatedAddresses).forEach(holderData => {
+        holderData.transactions
+            .filter(tx => tx.type === 'in')
+            .forEach(tx => {
+                edges.set(`${tx.from}-${tx.to}-${tx.timestamp}-${tx.amount}-${tx.asset}`, tx);
+            });
+    });
+    return edges;
+}
+
+/**
+ * 对比两次分析的群组
+ * 群组 ID 由成员决定，成员变化后 ID 也会变化，因此按成员重叠度匹配新旧群组
+ * @param {SerializedAnalysisResult} previous - 旧分析结果
+ * @param {SerializedAnalysisResult} current - 新分析结果
+ * @returns {ClusterChange[]} 有变化的群组
+ */
+function diffClusters(previous: SerializedAnalysisResult, current: SerializedAnalysisResult): ClusterChange[] {
+    const changes: ClusterChange[] = [];
+    const unmatched = new Set(previous.clusters);
+
+    for (const cluster of current.clusters) {
+        const members = new Set(cluster.holders);
+
+        // 找到成员重叠最多的旧群组
+        let match: typeof cluster | undefined;
+        let bestOverlap = 0;
+        for (const candidate of unmatched) {
+            const overlap = candidate.holders.filter(address => members.has(address)).length;
+            if (overlap > bestOverlap) {
+                match = candidate;
+                bestOverlap = overlap;
+            }
+        }
+
+        if (!match) {
+            changes.push({
+                status: 'new',
+                previousId: null,
+                currentId: cluster.id,
+                holders: cluster.holders,
+                added: cluster.holders,
+                removed: [],
+                previousPct: 0,
+                currentPct: cluster.totalPct
+            });
+            continue;
+        }
+
+        unmatched.delete(match);
+        const previousMembers = new Set(match.holders);
+        const added = cluster.holders.filter(address => !previousMembers.has(address));
+        const removed = match.holders.filter(address => !members.has(address));
+        if (added.length === 0 && removed.length === 0) continue;
+
+        changes.push({
+            status: cluster.holders.length > match.holders.length ? 'grown' :
+                cluster.holders.length < match.holders.length ? 'shrunk' : 'changed',
+            previousId: match.id,
+            currentId: cluster.id,
+            holders: cluster.holders,
+            added,
+            removed,
+            previousPct: match.totalPct,
+            currentPct: cluster.totalPct
+        });
+    }
+
+    unmatched.forEach(cluster => {
+        changes.push({
+            status: 'dissolved',
+            previousId: cluster.id,
+            currentId: null,
+            holders: cluster.holders,
+            added: [],
+            removed: cluster.holders,
+            previousPct: cluster.totalPct,
+            currentPct: 0
+        });
+    });
+
+    return changes;
+}
+
+/**
+ * 列出两组分析参数中不一致的参数
+ * topN、maxDepth、minAmount 等参数不同时，持有者与资金转入的变化可能只是参数不同造成的
+ * @param {AnalysisParameters} from - 旧快照的参数
+ * @param {AnalysisParameters} to - 新快照的参数
+ * @returns {ParameterMismatch[]} 不一致的参数
+ */
+function getParameterMismatches(from: AnalysisParameters, to: AnalysisParameters): ParameterMismatch[] {
+    return (Object.keys(to) as (keyof AnalysisParameters)[])
+        .filter(parameter => from[parameter] !== to[parameter])
+        .map(parameter => ({ parameter, from: from[parameter], to: to[parameter] }));
+}
+
+/**
+ * 对比两个快照
+ * 参数不一致时仍返回对比结果，并在 parameterMismatches 中列出不一致的参数
+ * @param {AnalysisSnapshot} from - 旧快照
+ * @param {AnalysisSnapshot} to - 新快照
+ * @returns {SnapshotDiff} 对比结果
+ */
+function diffSnapshots(from: AnalysisSnapshot, to: AnalysisSnapshot): SnapshotDiff {
+    const previous = from.result;
+    const current = to.result;
+    const previousPcts = getHolderPcts(previous);
+    const currentPcts = getHolderPcts(current);
+
+    // 1. 进出前 N 名的持有者
+    const entered = Array.from(currentPcts)
+        .filter(([address]) => !previousPcts.has(address))
+        .map(([address, pct]) => ({ address, pct }));
+    const exited = Array.from(previousPcts)
+        .filter(([address]) => !currentPcts.has(address))
+        .map(([address, pct]) => ({ address, pct }));
+
+    // 2. 持仓比例变化
+    const pctChanges = Array.from(currentPcts)
+        .filter(([address, pct]) => previousPcts.has(address) && previousPcts.get(address) !== pct)
+        .map(([address, currentPct]) => {
+            const previousPct = previousPcts.get(address) ?? 0;
+            return { address, previousPct, currentPct, change: currentPct - previousPct };
+        })
+        .sort((a, b) => Math.abs(b.change) - Math.abs(a.change));
+
+    // 3. 新增资金转入
+    const previousEdges = getFundingEdges(previous);
+    const newFundingEdges = Array.from(getFundingEdges(current))
+        .filter(([key]) => !previousEdges.has(key))
+        .map(([, tx]) => tx)
+        .sort((a, b) => b.timestamp - a.timestamp);
+
+    return {
+        tokenAddress: to.tokenAddress,
+        from: toSnapshotSummary(from),
+        to: toSnapshotSummary(to),
+        entered,
+        exited,
+        pctChanges,
+        newFundingEdges,
+        clusterChanges: diffClusters(previous, current),
+        parameterMismatches: getParameterMismatches(from.parameters, to.parameters)
+    };
+}
+
+export {
+    MemorySnapshotStore,
+    FileSnapshotStore,
+    createSnapshotStore,
+    saveSnapshot,
+    listSnapshots,
+    getSnapshot,
+    findLatestSnapshot,
+    isValidSnapshotId,
+    diffSnapshots
+};
+
+export type {
+    SnapshotSummary,
+    AnalysisSnapshot,
+    HolderPosition,
+    HolderPctChange,
+    ClusterChangeStatus,
+    ClusterChange,
+    ParameterMismatch,
+    SnapshotDiff,
+    SnapshotStore
+};
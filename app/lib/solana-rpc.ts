@@ -0,0 +1,285 @@
+/**
+ * solana-rpc.ts
+ * 主要功能：通过 Solana JSON-RPC 获取代币持有者数据
+ *
+ * 工作流程：
+ * 1. getTokenLargestAccounts 获取持仓最多的代币账户
+ * 2. getTokenSupply 获取代币总供应量
+ * 3. getMultipleAccounts 将代币账户解析为所有者钱包
+ * 4. 按所有者合并持仓并计算持有比例
+ */
+
+import dotenv from 'dotenv';
+import type { HolderData, HolderSource } from './holder-source';
+import { withRateLimit, UpstreamHttpError } from './rate-limit';
+import { ProviderError, ProviderInputError } from './errors';
+import { expectArrayOf, expectObject } from './schema';
+import type { ObjectSchema, SchemaContext } from './schema';
+
+dotenv.config();
+
+// 类型定义
+/**
+ * JSON-RPC 响应结构
+ * @interface RpcResponse
+ */
+interface RpcResponse<T> {
+    jsonrpc: '2.0';
+    id: number;
+    result?: T;
+    error?: {
+        code: number;
+        message: string;
+    };
+}
+
+/**
+ * 代币数量结构
+ * @interface TokenAmount
+ */
+interface TokenAmount {
+    amount: string;
+    decimals: number;
+    uiAmount: number | null;
+    uiAmountString: string;
+}
+
+/**
+ * getTokenLargestAccounts 返回的账户
+ * @interface LargestAccount
+ */
+interface LargestAccount extends TokenAmount {
+    address: string;
+}
+
+/**
+ * jsonParsed 编码的代币账户
+ * @interface ParsedTokenAccount
+ */
+interface ParsedTokenAccount {
+    data: {
+        program: string;
+        parsed: {
+            type: string;
+            info: {
+                mint: string;
+                owner: string;
+                tokenAmount: TokenAmount;
+            };
+        };
+    };
+}
+
+interface RpcContextResult<T> {
+    context: { slot: number };
+    value: T;
+}
+
+// JSON-RPC 响应结构
+const RPC_RESPONSE_SCHEMA: ObjectSchema = {
+    result: { type: 'object', optional: true },
+    error: { type: 'object', optional: true }
+};
+
+// 带 context 的结果结构，value 的结构按方法分别校验
+const CONTEXT_RESULT_SCHEMA: ObjectSchema = {
+    context: 'object'
+};
+
+// 代币数量结构
+const TOKEN_AMOUNT_SCHEMA: ObjectSchema = {
+    amount: 'numeric',
+    decimals: 'number'
+};
+
+// getTokenLargestAccounts 返回的账户结构
+const LARGEST_ACCOUNT_SCHEMA: ObjectSchema = {
+    address: 'string',
+    amount: 'numeric',
+    decimals: 'number'
+};
+
+// jsonParsed 编码的代币账户中的所有者信息
+const TOKEN_ACCOUNT_INFO_SCHEMA: ObjectSchema = {
+    mint: 'string',
+    owner: 'string'
+};
+
+// JSON-RPC 参数错误（如地址不是代币 mint）
+const RPC_INVALID_PARAMS = -32602;
+
+// 环境变量配置
+const DEFAULT_RPC_URL = process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com';
+
+/**
+ * 发送 JSON-RPC 请求
+ * @param {string} rpcUrl - RPC 地址
+ * @param {string} method - 方法名
+ * @param {unknown[]} params - 参数
+ * @returns {Promise<T>} 结果（已校验响应结构与 context 字段，value 由调用方校验）
+ * @throws {ProviderError} 响应结构不符合预期或 RPC 返回错误时抛出，参数错误为 ProviderInputError
+ */
+async function callRpc<T>(rpcUrl: string, method: string, params: unknown[]): Promise<T> {
+    const body = await withRateLimit('rpc', async () => {
+        const response = await fetch(rpcUrl, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+                jsonrpc: '2.0',
+                id: 1,
+                method,
+                params
+            })
+        });
+
+        if (!response.ok) {
+            throw new UpstreamHttpError(
+                `RPC ${method} failed with HTTP ${response.status}`,
+                response.status,
+                response.headers.get('retry-after')
+            );
+        }
+
+        return await response.json() as unknown;
+    });
+
+    const ctx: SchemaContext = { provider: 'rpc', endpoint: method };
+    const rpcResponse = expectObject<RpcResponse<T>>(body, RPC_RESPONSE_SCHEMA, ctx);
+
+    if (rpcResponse.error) {
+        const { code, message } = expectObject<NonNullable<RpcResponse<T>['error']>>(
+            rpcResponse.error, { code: 'number', message: 'string' }, ctx, 'error'
+        );
+        const ErrorType = code === RPC_INVALID_PARAMS ? ProviderInputError : ProviderError;
+        throw new ErrorType('rpc', method, null, `RPC ${method} error ${code}: ${message}`);
+    }
+    if (rpcResponse.result === undefined) {
+        throw new ProviderError('rpc', method, 'result', `RPC ${method} returned no result`);
+    }
+
+    return expectObject<T>(rpcResponse.result, CONTEXT_RESULT_SCHEMA, ctx, 'result');
+}
+
+/**
+ * 从 jsonParsed 编码的账户中读取所有者
+ * 账户不存在或不是可解析的代币账户时返回 null；代币账户缺少所有者时抛出 ProviderError
+ * @param {unknown} account - getMultipleAccounts 返回的账户
+ * @param {number} index - 账户在结果中的位置
+ * @returns {string | null} 所有者地址
+ */
+function readTokenAccountOwner(account: unknown, index: number): string | null {
+    if (account === null) return null;
+
+    const ctx: SchemaContext = { provider: 'rpc', endpoint: 'getMultipleAccounts' };
+    const path = `result.value[${index}]`;
+    const { data } = expectObject<{ data?: unknown }>(account, {}, ctx, path);
+    // 无法按 jsonParsed 解析的账户，data 为 [base64 数据, 编码] 数组
+    if (typeof data !== 'object' || data === null || Array.isArray(data) || !('parsed' in data)) return null;
+
+    const parsed = expectObject<ParsedTokenAccount['data']['parsed']>(
+        data.parsed, { type: 'string', info: 'object' }, ctx, `${path}.data.parsed`
+    );
+    const info = expectObject<ParsedTokenAccount['data']['parsed']['info']>(
+        parsed.info, TOKEN_ACCOUNT_INFO_SCHEMA, ctx, `${path}.data.parsed.info`
+    );
+    return info.owner;
+}
+
+/**
+ * 创建基于 Solana JSON-RPC 的持有者数据源
+ * @param {string} rpcUrl - RPC 地址，默认读取 SOLANA_RPC_URL
+ * @returns {HolderSource} 数据源
+ */
+function createSolanaRpcHolderSource(rpcUrl: string = DEFAULT_RPC_URL): HolderSource {
+    /**
+     * 获取代币持有者数据
+     * @param tokenAddress 代币地址
+     * @param limit 限制数量（getTokenLargestAccounts 最多返回 20 个账户）
+     * @returns 持有者数据
+     */
+    async function fetchTokenHolders(tokenAddress: string, limit?: number): Promise<HolderData[]> {
+        console.log(`Fetching largest accounts via RPC for token: ${tokenAddress}`);
+
+        const [largest, supply] = await Promise.all([
+            callRpc<RpcContextResult<LargestAccount[]>>(rpcUrl, 'getTokenLargestAccounts', [tokenAddress]),
+            callRpc<RpcContextResult<TokenAmount>>(rpcUrl, 'getTokenSupply', [tokenAddress])
+        ]);
+
+        const supplyValue = expectObject<TokenAmount>(
+            supply.value, TOKEN_AMOUNT_SCHEMA, { provider: 'rpc', endpoint: 'getTokenSupply' }, 'result.value'
+        );
+        const totalSupply = Number(supplyValue.amount);
+        if (!totalSupply) {
+            throw new ProviderInputError('rpc', 'getTokenSupply', 'result.value.amount', `Token supply is zero for ${tokenAddress}`);
+        }
+
+        const largestAccounts = expectArrayOf<LargestAccount>(
+            largest.value, LARGEST_ACCOUNT_SCHEMA, { provider: 'rpc', endpoint: 'getTokenLargestAccounts' }, 'result.value'
+        );
+        const accounts = largestAccounts.filter(account => Number(account.amount) > 0);
+        if (accounts.length === 0) {
+            return [];
+        }
+
+        // 将代币账户解析为所有者钱包
+        const parsed = await callRpc<RpcContextResult<unknown>>(
+            rpcUrl,
+            'getMultipleAccounts',
+            [accounts.map(account => account.address), { encoding: 'jsonParsed' }]
+        );
+        if (!Array.isArray(parsed.value) || parsed.value.length !== accounts.length) {
+            throw new ProviderError(
+                'rpc',
+                'getMultipleAccounts',
+                'result.value',
+                `rpc getMultipleAccounts: expected result.value to be an array of ${accounts.length} accounts`
+            );
+        }
+        const parsedAccounts = parsed.value as unknown[];
+
+        // 同一所有者可能持有多个代币账户，按所有者合并
+        const ownerAmounts = new Map<string, number>();
+        accounts.forEach((account, index) => {
+            const owner = readTokenAccountOwner(parsedAccounts[index], index);
+            if (!owner) {
+                console.warn(`⚠️ Unable to resolve owner for token account ${account.address}`);
+                return;
+            }
+            ownerAmounts.set(owner, (ownerAmounts.get(owner) || 0) + Number(account.amount));
+        });
+
+        const holders = Array.from(ownerAmounts.entries())
+            .sort((a, b) => b[1] - a[1])
+            .map(([owner, amount]) => ({
+                holder_address: owner,
+                holder_sns: null,
+                holder_pct_of_supply: (amount / totalSupply).toString(),
+                is_new: false
+            }));
+
+        console.log(`Resolved ${accounts.length} token accounts to ${holders.length} holders`);
+        return limit ? holders.slice(0, limit) : holders;
+    }
+
+    return {
+        name: 'rpc',
+        capabilities: {
+            sns: false,
+            isNew: false,
+            tags: false
+        },
+        fetchTokenHolders
+    };
+}
+
+/**
+ * 使用默认 RPC 地址的持有者数据源
+ */
+const solanaRpcHolderSource = createSolanaRpcHolderSource();
+
+export {
+    createSolanaRpcHolderSource,
+    solanaRpcHolderSource
+};
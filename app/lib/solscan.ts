@@ -6,18 +6,33 @@
  * 1. 获取单个地址的最新交易
  * 2. 构建交易邻接表
  * 3. 合并多个地址的交易数据
- * 4. 递归分析关联地址
+ * 4. 按层（BFS）分析关联地址
+ * 5. 追踪被分析代币在持有者之间的转账
  * 
  * 关键功能：
- * - API调用限流处理
+ * - API调用限流处理（共享令牌桶，见 rate-limit.ts）
+ * - 工作池并发查询，并发数可配置
+ * - 按分析统计 API 调用次数
  * - 交易图谱构建
- * - 递归深度控制
- * - 访问记录去重
+ * - 遍历深度控制
+ * - 查询结果去重：同一地址的转账查询在所有持有者之间共享，只查询一次
+ * - 访问记录去重：已访问地址与已处理交易按持有者独立记录。若在持有者之间共享，
+ *   先到达某个地址的持有者会占用该地址，后到达的持有者的关系图缺少这部分边，
+ *   共同资金方与群组检测依赖每个持有者完整的关系图；共享查询结果已避免重复调用 API
  */
 
 import dotenv from 'dotenv';
 import axios from 'axios';
-import exchangeAddresses from '../config/exchange-addresses.json';
+import { createCacheStore, normalizeCacheKey } from './cache';
+import { withRateLimit, getHttpErrorInfo } from './rate-limit';
+import { WorkerPool } from './pool';
+import { getFundingAssets, getAssetThreshold } from './assets';
+import type { FundingAsset } from './assets';
+import { isExchangeAddress, getExchangeNodeId } from './entities';
+import type { ExchangeMode } from './entities';
+import { ProviderError } from './errors';
+import { expectArrayOf, expectObject } from './schema';
+import type { ObjectSchema, SchemaContext } from './schema';
 
 dotenv.config();
 
@@ -29,14 +44,16 @@ dotenv.config();
  * @property {number} amount - 交易金额
  * @property {number} timestamp - 时间戳
  * @property {string} formattedTime - 格式化时间
- * @property {'in' | 'out'} type - 交易类型
+ * @property {'in' | 'out' | 'token'} type - 交易类型：资金转入、资金转出或被分析代币的转账
+ * @property {string} asset - 转账资产符号（如 SOL、USDC）
  */
 interface Transaction {
     to: string;
     amount: number;
     timestamp: number;
     formattedTime: string;
-    type?: 'in' | 'out';
+    type?: 'in' | 'out' | 'token';
+    asset: string;
 }
 
 /**
@@ -45,7 +62,7 @@ interface Transaction {
  */
 interface SolscanResponse {
     success: boolean;
-    data: SolscanTransaction[];
+    data?: SolscanTransaction[];
 }
 
 /**
@@ -56,7 +73,7 @@ interface SolscanTransaction {
     from_address: string;
     to_address: string;
     amount: number;
-    token_decimals: number;
+    token_decimals?: number;
     block_time: number;
 }
 
@@ -75,7 +92,6 @@ interface APIParams {
 }
 
 // 环境变量配置
-const SOL_TOKEN = process.env.SOL_TOKEN_ADDRESS;
 const SOLSCAN_API_URL = `${process.env.SOLSCAN_API_URL}/account/transfer`;
 const API_KEY = process.env.SOLSCAN_API_KEY;
 
@@ -85,76 +101,310 @@ if (!API_KEY) {
     process.exit(1);
 }
 
-// 全局计数器和限流控制
-let apiCallCount = 0;
-const API_DELAY = 10; // ms between calls
+// 转账查询缓存，缓存后端与过期时间可通过环境变量配置
+const transferCache = createCacheStore('SOLSCAN_CACHE');
+
+// Solscan 转账接口返回结构
+const SOLSCAN_CONTEXT: SchemaContext = { provider: 'solscan', endpoint: '/account/transfer' };
+
+const SOLSCAN_TRANSFER_SCHEMA: ObjectSchema = {
+    from_address: 'string',
+    to_address: 'string',
+    amount: 'number',
+    token_decimals: { type: 'number', optional: true, nullable: true },
+    block_time: 'number'
+};
+const CACHE_TTL = Number(process.env.SOLSCAN_CACHE_TTL || 3600) * 1000; // 默认 1 小时
+
+/**
+ * Solscan 调用统计，每次分析独立计数，避免并发请求互相干扰
+ * @interface SolscanStats
+ * @property {number} exchangeEdgesRemoved - exclude 模式下移除的交易所交易数
+ * @property {number} exchangeEdgesCollapsed - collapse 模式下合并到交易所节点的交易数
+ */
+interface SolscanStats {
+    apiCallCount: number;
+    cacheHits: number;
+    cacheMisses: number;
+    budgetExhausted: boolean;
+    exchangeEdgesRemoved: number;
+    exchangeEdgesCollapsed: number;
+}
+
+/**
+ * 资金流向：仅转入、仅转出或双向
+ */
+type FlowDirection = 'in' | 'out' | 'both';
+
+/**
+ * 关联交易遍历选项
+ * @interface TraversalOptions
+ * @property {number} maxDepth - 最大递归深度
+ * @property {FlowDirection} direction - 追踪的资金流向
+ * @property {ExchangeMode} exchangeMode - 交易所处理方式
+ * @property {number} transfersPerDirection - 每个地址每个方向保留的转账数
+ * @property {number} pagesPerDirection - 每个方向最多跟随的页数
+ * @property {number} callBudget - 单次分析的 API 调用预算
+ * @property {number} concurrency - 同时进行的 API 查询数
+ * @property {FundingAsset[]} assets - 追踪的资金资产
+ * @property {AbortSignal} signal - 取消信号，取消后不再发起新的查询
+ */
+interface TraversalOptions {
+    maxDepth: number;
+    direction: FlowDirection;
+    exchangeMode: ExchangeMode;
+    transfersPerDirection: number;
+    pagesPerDirection: number;
+    callBudget: number;
+    concurrency: number;
+    assets: FundingAsset[];
+    signal?: AbortSignal;
+}
+
+/**
+ * 带资产信息的转账记录
+ * @interface AssetTransfer
+ */
+interface AssetTransfer {
+    tx: SolscanTransaction;
+    asset: FundingAsset;
+}
+
+/**
+ * 单个地址两个方向的转账记录
+ * @interface AddressTransfers
+ * @property {number} lookups - 查询数（方向 × 资产）
+ * @property {string[]} errors - 失败查询的错误信息
+ * @property {number} skipped - 因调用预算耗尽而未执行的查询数
+ * @property {number} calls - 尝试的 API 调用数（含缓存命中）
+ */
+interface AddressTransfers {
+    in: AssetTransfer[];
+    out: AssetTransfer[];
+    lookups: number;
+    errors: string[];
+    skipped: number;
+    calls: number;
+}
+
+/**
+ * 持有者关联查询状态
+ * - complete: 所有查询均成功
+ * - partial: 部分查询失败或因调用预算耗尽被截断，关联图谱不完整
+ * - failed: 持有者自身的查询全部失败，没有关联数据
+ */
+type RelationStatusKind = 'complete' | 'partial' | 'failed';
+
+/**
+ * 持有者关联查询状态详情
+ * @interface RelationStatus
+ * @property {RelationStatusKind} status - 查询状态
+ * @property {string | null} reason - 不完整或失败的原因
+ * @property {number} callsAttempted - 遍历中尝试的 API 调用数（含缓存命中）
+ * @property {number} failedLookups - 失败的查询数
+ */
+interface RelationStatus {
+    status: RelationStatusKind;
+    reason: string | null;
+    callsAttempted: number;
+    failedLookups: number;
+}
+
+/**
+ * 单个持有者的关联交易图及查询状态
+ * @interface RelationGraph
+ */
+interface RelationGraph {
+    graph: Map<string, Transaction[]>;
+    status: RelationStatus;
+}
+
+/**
+ * 持有者的代币转账追踪失败
+ * @interface TokenFlowFailure
+ * @property {string} reason - 失败原因
+ * @property {number} failedLookups - 失败的查询数（因预算耗尽跳过的查询不计入）
+ */
+interface TokenFlowFailure {
+    reason: string;
+    failedLookups: number;
+}
+
+/**
+ * 代币转账追踪结果
+ * @interface TokenFlowResult
+ * @property {Map<string, Transaction[]>} graph - 代币转账图谱，边类型为 token
+ * @property {Map<string, TokenFlowFailure>} failures - 查询失败或被跳过的持有者
+ */
+interface TokenFlowResult {
+    graph: Map<string, Transaction[]>;
+    failures: Map<string, TokenFlowFailure>;
+}
+
+/**
+ * 一次遍历中所有持有者共享的状态
+ * @interface TraversalContext
+ * @property {Map<string, Promise<AddressTransfers>>} transfers - 地址查询结果，同一地址只查询一次
+ */
+interface TraversalContext {
+    minAmount: number;
+    options: TraversalOptions;
+    stats: SolscanStats;
+    pool: WorkerPool;
+    transfers: Map<string, Promise<AddressTransfers>>;
+}
+
+// 每页转账数
+const PAGE_SIZE = 10;
+
+// 被分析代币转账边的资产符号
+const TOKEN_FLOW_ASSET = 'TOKEN';
+
+/**
+ * 创建新的调用统计
+ * @returns {SolscanStats} 计数为零的统计
+ */
+function createSolscanStats(): SolscanStats {
+    return {
+        apiCallCount: 0,
+        cacheHits: 0,
+        cacheMisses: 0,
+        budgetExhausted: false,
+        exchangeEdgesRemoved: 0,
+        exchangeEdgesCollapsed: 0
+    };
+}
+
+/**
+ * 读取默认遍历选项
+ * - SOLSCAN_TRANSFERS_PER_DIRECTION: 默认 3
+ * - SOLSCAN_PAGES_PER_DIRECTION: 默认 1
+ * - ANALYSIS_CALL_BUDGET: 默认 500
+ * - ANALYSIS_CONCURRENCY: 默认 4
+ * - FUNDING_ASSETS: 追踪的资金资产，默认 SOL 与 wSOL（见 assets.ts）
+ * @returns {TraversalOptions} 遍历选项
+ */
+function getDefaultTraversalOptions(): TraversalOptions {
+    return {
+        maxDepth: 2,
+        direction: 'both',
+        exchangeMode: 'collapse',
+        transfersPerDirection: Number(process.env.SOLSCAN_TRANSFERS_PER_DIRECTION || 3),
+        pagesPerDirection: Number(process.env.SOLSCAN_PAGES_PER_DIRECTION || 1),
+        callBudget: Number(process.env.ANALYSIS_CALL_BUDGET || 500),
+        concurrency: Number(process.env.ANALYSIS_CONCURRENCY || 4),
+        assets: getFundingAssets()
+    };
+}
 
 /**
- * 添加延迟函数
- * @param {number} ms - 延迟毫秒数
+ * 校验 Solscan 转账接口的响应结构
+ * success 为 false 的响应没有 data，按无数据处理
+ * @param {unknown} payload - 响应数据
+ * @returns {SolscanResponse} 校验后的响应
+ * @throws {ProviderError} 结构不符合时抛出
  */
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+function parseSolscanResponse(payload: unknown): SolscanResponse {
+    const response = expectObject<SolscanResponse>(payload, { success: 'boolean' }, SOLSCAN_CONTEXT);
+    if (!response.success) {
+        return response;
+    }
+    return {
+        success: true,
+        data: expectArrayOf<SolscanTransaction>(response.data, SOLSCAN_TRANSFER_SCHEMA, SOLSCAN_CONTEXT, 'data')
+    };
+}
 
 /**
- * 调用 Solscan API
+ * 调用 Solscan API，优先使用缓存
+ * 查询的地址来自持有者列表与遍历结果而非用户输入，Solscan 拒绝请求（HTTP 400）按上游问题（502）处理
  * @param {APIParams} params - API请求参数
- * @returns {Promise<any>} API响应
+ * @param {SolscanStats} stats - 本次分析的调用统计
+ * @returns {Promise<SolscanResponse>} API响应
+ * @throws {ProviderError} Solscan 拒绝请求或响应结构不符合预期时抛出
  */
-async function callSolscanAPI(params: APIParams): Promise<any> {
-    apiCallCount++;
-    console.log(`🌐 API Call #${apiCallCount}: ${params.address} (${params.flow || 'query'})`);
+async function callSolscanAPI(params: APIParams, stats: SolscanStats): Promise<SolscanResponse> {
+    const cacheKey = normalizeCacheKey('/account/transfer', params);
+    const cached = await transferCache.get<unknown>(cacheKey);
+    if (cached) {
+        stats.cacheHits++;
+        console.log(`💾 Cache hit: ${params.address} (${params.flow || 'query'})`);
+        return parseSolscanResponse(cached);
+    }
+    stats.cacheMisses++;
 
-    await delay(API_DELAY);
+    stats.apiCallCount++;
+    console.log(`🌐 API Call #${stats.apiCallCount}: ${params.address} (${params.flow || 'query'})`);
 
-    return axios.get(SOLSCAN_API_URL, {
-        params,
-        headers: { 'token': API_KEY }
-    });
+    let payload: unknown;
+    try {
+        const response = await withRateLimit('solscan', async () =>
+            axios.get<unknown>(SOLSCAN_API_URL, {
+                params,
+                headers: { 'token': API_KEY }
+            })
+        );
+        payload = response.data;
+    } catch (error) {
+        if (getHttpErrorInfo(error)?.status === 400) {
+            throw new ProviderError(
+                SOLSCAN_CONTEXT.provider,
+                SOLSCAN_CONTEXT.endpoint,
+                null,
+                `Solscan rejected the request for ${params.address} (HTTP 400)`
+            );
+        }
+        throw error;
+    }
+
+    const data = parseSolscanResponse(payload);
+
+    // 只缓存成功的响应
+    if (data.success) {
+        await transferCache.set(cacheKey, data, CACHE_TTL);
+    }
+
+    return data;
 }
 
 /**
  * 获取单个地址的最新交易
  * @param {string} address - 要查询的地址
+ * @param {SolscanStats} stats - 调用统计
  * @returns {Promise<Map<string, Transaction[]>>} 交易图谱
  */
-async function getLatestTransaction(address: string): Promise<Map<string, Transaction[]>> {
+async function getLatestTransaction(
+    address: string,
+    stats: SolscanStats
+): Promise<Map<string, Transaction[]>> {
     const adjacencyList = new Map<string, Transaction[]>();
+    const [asset] = getFundingAssets();
 
     try {
-        const response = await axios.get<SolscanResponse>(SOLSCAN_API_URL, {
-            params: {
-                address: address,
-                'activity_type[]': 'ACTIVITY_SPL_TRANSFER',
-                token: SOL_TOKEN,
-                'amount[]': 0.5,
-                flow: 'in',
-                page: 1,
-                page_size: 10
-            },
-            headers: {
-                'token': API_KEY
-            }
-        });
+        const response = await callSolscanAPI({
+            address: address,
+            'activity_type[]': asset.activityType,
+            token: asset.token,
+            'amount[]': asset.minAmount,
+            flow: 'in',
+            page: 1,
+            page_size: 10
+        }, stats);
 
-        if (response.data?.success && Array.isArray(response.data.data)) {
-            const transactions = response.data.data;
+        if (response.success && response.data) {
+            const transactions = response.data;
 
             if (transactions.length > 0) {
-                const firstTx = transactions[0];
-                const amount = firstTx.amount / Math.pow(10, firstTx.token_decimals);
+                const { from, edge } = toTransactionEdge(transactions[0], 'in', asset);
 
-                if (!adjacencyList.has(firstTx.from_address)) {
-                    adjacencyList.set(firstTx.from_address, []);
+                if (!adjacencyList.has(from)) {
+                    adjacencyList.set(from, []);
                 }
-                adjacencyList.get(firstTx.from_address)?.push({
-                    to: firstTx.to_address,
-                    amount,
-                    timestamp: firstTx.block_time,
-                    formattedTime: new Date(firstTx.block_time * 1000).toLocaleString()
-                });
+                adjacencyList.get(from)?.push(edge);
             }
         }
     } catch (error) {
+        if (error instanceof ProviderError) throw error;
         if (error instanceof Error) {
             console.error(`Error fetching data for address ${address}:`, error.message);
         }
@@ -186,381 +436,561 @@ function mergeMaps(maps: Map<string, Transaction[]>[]): Map<string, Transaction[
 /**
  * 获取多个地址的交易图
  * @param {string[]} addresses - 要查询的地址列表
+ * @param {SolscanStats} stats - 调用统计
  * @returns {Promise<Map<string, Transaction[]>>} 交易图谱
  */
-async function getTransactionGraph(addresses: string[]): Promise<Map<string, Transaction[]>> {
+async function getTransactionGraph(
+    addresses: string[],
+    stats: SolscanStats = createSolscanStats()
+): Promise<Map<string, Transaction[]>> {
     try {
         const maps = await Promise.all(
-            addresses.map(address => getLatestTransaction(address))
+            addresses.map(address => getLatestTransaction(address, stats))
         );
         return mergeMaps(maps);
     } catch (error) {
+        if (error instanceof ProviderError) throw error;
         console.error('Error in getTransactionGraph:', error);
         return new Map();
     }
 }
 
 /**
- * 递归获取地址的关联交易
- * @param {string} address - 要分析的地址
- * @param {number} minAmount - 最小交易金额（SOL）
- * @param {number} depth - 当前递归深度
- * @param {number} maxDepth - 最大递归深度
- * @param {Set<string>} visitedAddresses - 已访问地址集合
- * @param {Set<string>} processedTx - 已处理交易集合
- * @returns {Promise<Map<string, Transaction[]>>} 交易图谱
+ * 从单条转账记录中提取交易边
+ * @param {SolscanTransaction} tx - 转账记录
+ * @param {'in' | 'out' | 'token'} type - 交易类型
+ * @param {Pick<FundingAsset, 'symbol' | 'decimals'>} asset - 转账资产
+ * @returns {{ from: string; edge: Transaction }} 交易边
  */
-async function getRelatedTransactions(
-    address: string,
-    minAmount: number = 100,
-    depth: number = 0,
-    maxDepth: number = 2,
-    visitedAddresses: Set<string> = new Set(),
-    processedTx: Set<string> = new Set()
-): Promise<Map<string, Transaction[]>> {
-    console.log(`\n📊 Analyzing depth ${depth} for address: ${address}`);
-    console.log(`   Min amount: ${minAmount} SOL`);
+function toTransactionEdge(
+    tx: SolscanTransaction,
+    type: 'in' | 'out' | 'token',
+    asset: Pick<FundingAsset, 'symbol' | 'decimals'>
+): { from: string; edge: Transaction } {
+    return {
+        from: tx.from_address,
+        edge: {
+            to: tx.to_address,
+            amount: tx.amount / Math.pow(10, tx.token_decimals ?? asset.decimals),
+            timestamp: tx.block_time,
+            formattedTime: new Date(tx.block_time * 1000).toLocaleString(),
+            type,
+            asset: asset.symbol
+        }
+    };
+}
 
-    // 防止重复访问
-    if (visitedAddresses.has(address)) {
-        console.log(`   ⚠️ Address already visited: ${address}`);
-        return new Map();
+/**
+ * 判断本次分析的调用预算是否已用完
+ * @param {SolscanStats} stats - 调用统计
+ * @param {TraversalOptions} options - 遍历选项
+ * @returns {boolean} 是否已用完
+ */
+function isBudgetExhausted(stats: SolscanStats, options: TraversalOptions): boolean {
+    if (stats.apiCallCount >= options.callBudget) {
+        if (!stats.budgetExhausted) {
+            console.warn(`   ⚠️ API call budget exhausted (${options.callBudget} calls)`);
+            stats.budgetExhausted = true;
+        }
+        return true;
     }
-    visitedAddresses.add(address);
+    return false;
+}
 
-    // 深度限制
-    if (depth >= maxDepth) {
-        console.log(`   🛑 Max depth reached (${maxDepth})`);
-        return new Map();
-    }
+/**
+ * 获取地址单个方向、单个资产的转账记录，按配置跟随多页
+ * @param {string} address - 要查询的地址
+ * @param {'in' | 'out'} flow - 转账方向
+ * @param {Pick<FundingAsset, 'token' | 'activityType'>} asset - 查询的资产
+ * @param {number} minAmount - 最小交易金额（资产单位）
+ * @param {TraversalOptions} options - 遍历选项
+ * @param {SolscanStats} stats - 调用统计
+ * @param {{ calls: number }} attempts - 可选，累计尝试的 API 调用数
+ * @returns {Promise<SolscanTransaction[]>} 最多 transfersPerDirection 条转账记录
+ */
+async function fetchTransfers(
+    address: string,
+    flow: 'in' | 'out',
+    asset: Pick<FundingAsset, 'token' | 'activityType'>,
+    minAmount: number,
+    options: TraversalOptions,
+    stats: SolscanStats,
+    attempts?: { calls: number }
+): Promise<SolscanTransaction[]> {
+    const transfers: SolscanTransaction[] = [];
 
-    const transactionGraph = new Map<string, Transaction[]>();
+    for (let page = 1; page <= options.pagesPerDirection; page++) {
+        if (isBudgetExhausted(stats, options)) break;
 
-    try {
-        // 获取转入交易
-        console.log(`   📥 Fetching incoming transactions...`);
-        const inResponse = await callSolscanAPI({
+        if (attempts) attempts.calls++;
+
+        const response = await callSolscanAPI({
             address: address,
-            'activity_type[]': 'ACTIVITY_SPL_TRANSFER',
-            token: SOL_TOKEN,
+            'activity_type[]': asset.activityType,
+            token: asset.token,
             'amount[]': minAmount,
-            flow: 'in',
-            page: 1,
-            page_size: 10
-        });
+            flow,
+            page,
+            page_size: PAGE_SIZE
+        }, stats);
 
-        await delay(API_DELAY);
+        if (!response.success || !response.data) break;
 
-        // 获取转出交易
-        console.log(`   📤 Fetching outgoing transactions...`);
-        const outResponse = await callSolscanAPI({
-            address: address,
-            'activity_type[]': 'ACTIVITY_SPL_TRANSFER',
-            token: SOL_TOKEN,
-            'amount[]': minAmount,
-            flow: 'out',
-            page: 1,
-            page_size: 10
-        });
+        transfers.push(...response.data);
 
-        // 处理转入交易
-        if (inResponse.data?.success && Array.isArray(inResponse.data.data)) {
-            const inTx = inResponse.data.data[0];
-            if (inTx) {
-                const amount = inTx.amount / Math.pow(10, inTx.token_decimals);
-                if (amount >= minAmount) {
-                    const fromAddress = inTx.from_address;
-                    const txKey = `${fromAddress}-${address}-${inTx.block_time}`;
-
-                    if (!processedTx.has(txKey)) {
-                        processedTx.add(txKey);
-
-                        if (!transactionGraph.has(fromAddress)) {
-                            transactionGraph.set(fromAddress, []);
-                        }
-                        transactionGraph.get(fromAddress)?.push({
-                            to: address,
-                            amount,
-                            timestamp: inTx.block_time,
-                            formattedTime: new Date(inTx.block_time * 1000).toLocaleString(),
-                            type: 'in'
-                        });
-
-                        // 递归分析转入地址
-                        if (depth < maxDepth - 1) {
-                            console.log(`Looking for transactions to ${fromAddress} (depth ${depth + 1})`);
-                            const relatedTx = await getRelatedTransactions(
-                                fromAddress,
-                                minAmount,
-                                depth + 1,
-                                maxDepth,
-                                visitedAddresses,
-                                processedTx
-                            );
-                            // 合并结果
-                            for (const [from, edges] of relatedTx) {
-                                if (!transactionGraph.has(from)) {
-                                    transactionGraph.set(from, []);
-                                }
-                                transactionGraph.get(from)?.push(...edges);
-                            }
-                        }
-                    }
-                }
-            }
+        // 最后一页或已取够数量时停止翻页
+        if (response.data.length < PAGE_SIZE || transfers.length >= options.transfersPerDirection) break;
+    }
+
+    return transfers.slice(0, options.transfersPerDirection);
+}
+
+/**
+ * 查询地址两个方向的转账记录
+ * 结果按地址缓存在遍历上下文中，多个持有者到达同一地址时只查询一次
+ * @param {string} address - 要查询的地址
+ * @param {TraversalContext} ctx - 遍历上下文
+ * @returns {Promise<AddressTransfers>} 转账记录
+ */
+function fetchAddressTransfers(address: string, ctx: TraversalContext): Promise<AddressTransfers> {
+    const existing = ctx.transfers.get(address);
+    if (existing) return existing;
+
+    const { options, minAmount, stats, pool } = ctx;
+    const lookups = { errors: [] as string[], skipped: 0, calls: 0 };
+    const fetchAsset = (flow: 'in' | 'out', asset: FundingAsset) => pool.run(async (): Promise<AssetTransfer[]> => {
+        if (options.signal?.aborted) return [];
+        if (isBudgetExhausted(stats, options)) {
+            lookups.skipped++;
+            return [];
+        }
+        try {
+            console.log(`   ${flow === 'in' ? '📥' : '📤'} Fetching ${flow} ${asset.symbol} transactions for ${address}...`);
+            const transfers = await fetchTransfers(
+                address,
+                flow,
+                asset,
+                getAssetThreshold(asset, minAmount),
+                options,
+                stats,
+                lookups
+            );
+            return transfers.map(tx => ({ tx, asset }));
+        } catch (error) {
+            // 单次查询失败（包括上游结构变化或拒绝请求）只记录到该地址的查询状态，不中止整个分析
+            console.error(`   ❌ Error fetching ${flow} ${asset.symbol} transactions for ${address}:`, error);
+            lookups.errors.push(`${address} ${flow} ${asset.symbol}: ${error instanceof Error ? error.message : String(error)}`);
+            return [];
+        }
+    });
+    const fetchFlow = async (flow: 'in' | 'out') =>
+        (await Promise.all(options.assets.map(asset => fetchAsset(flow, asset)))).flat();
+
+    const flows = options.direction === 'both' ? 2 : 1;
+    const pending = Promise.all([
+        options.direction !== 'out' ? fetchFlow('in') : Promise.resolve([]),
+        options.direction !== 'in' ? fetchFlow('out') : Promise.resolve([])
+    ]).then(([inTransfers, outTransfers]): AddressTransfers => ({
+        in: inTransfers,
+        out: outTransfers,
+        lookups: flows * options.assets.length,
+        ...lookups
+    }));
+
+    ctx.transfers.set(address, pending);
+    return pending;
+}
+
+/**
+ * 按层（BFS）获取地址的关联交易
+ * 每层的地址并发查询；每条转账生成一条边，对端地址加入下一层
+ * 已访问地址与已处理交易按持有者独立记录，每个持有者得到完整的关系图；
+ * 只有地址查询结果在持有者之间共享
+ * @param {string} address - 起始地址
+ * @param {TraversalContext} ctx - 遍历上下文
+ * @returns {Promise<RelationGraph>} 交易图谱及查询状态
+ */
+async function getRelatedTransactions(
+    address: string,
+    ctx: TraversalContext
+): Promise<RelationGraph> {
+    const { options, minAmount } = ctx;
+    const visitedAddresses = new Set<string>();
+    const processedTx = new Set<string>();
+    const transactionGraph = new Map<string, Transaction[]>();
+    const addEdge = (from: string, edge: Transaction) => {
+        if (!transactionGraph.has(from)) {
+            transactionGraph.set(from, []);
         }
+        transactionGraph.get(from)?.push(edge);
+    };
 
-        // 处理转出交易
-        if (outResponse.data?.success && Array.isArray(outResponse.data.data)) {
-            const outTx = outResponse.data.data[0];
-            if (outTx) {
-                const amount = outTx.amount / Math.pow(10, outTx.token_decimals);
-                if (amount >= minAmount) {
-                    const toAddress = outTx.to_address;
-                    const txKey = `${address}-${toAddress}-${outTx.block_time}`;
-
-                    if (!processedTx.has(txKey)) {
-                        processedTx.add(txKey);
-
-                        if (!transactionGraph.has(address)) {
-                            transactionGraph.set(address, []);
-                        }
-                        transactionGraph.get(address)?.push({
-                            to: toAddress,
-                            amount,
-                            timestamp: outTx.block_time,
-                            formattedTime: new Date(outTx.block_time * 1000).toLocaleString(),
-                            type: 'out'
-                        });
-
-                        // 递归分析转出地址
-                        if (depth < maxDepth - 1) {
-                            console.log(`Looking for transactions from ${toAddress} (depth ${depth + 1})`);
-                            const relatedTx = await getRelatedTransactions(
-                                toAddress,
-                                minAmount,
-                                depth + 1,
-                                maxDepth,
-                                visitedAddresses,
-                                processedTx
-                            );
-                            // 合并结果
-                            for (const [from, edges] of relatedTx) {
-                                if (!transactionGraph.has(from)) {
-                                    transactionGraph.set(from, []);
-                                }
-                                transactionGraph.get(from)?.push(...edges);
-                            }
-                        }
+    visitedAddresses.add(address);
+    let frontier = [address];
+    // 遍历中查询过的地址，用于汇总查询状态
+    const fetched: AddressTransfers[] = [];
+    let truncated = false;
+
+    for (let depth = 0; depth < options.maxDepth && frontier.length > 0; depth++) {
+        // 取消后不再展开下一层
+        if (options.signal?.aborted) break;
+        console.log(`\n📊 Analyzing depth ${depth} for ${address}: ${frontier.length} addresses`);
+
+        const results = await Promise.all(frontier.map(current => fetchAddressTransfers(current, ctx)));
+        fetched.push(...results);
+        const nextFrontier: string[] = [];
+
+        for (const result of results) {
+            const directions: [AssetTransfer[], 'in' | 'out'][] = [
+                [result.in, 'in'],
+                [result.out, 'out']
+            ];
+
+            for (const [transfers, type] of directions) {
+                for (const { tx, asset } of transfers) {
+                    const { from, edge } = toTransactionEdge(tx, type, asset);
+                    if (edge.amount < getAssetThreshold(asset, minAmount)) continue;
+
+                    const txKey = `${from}-${edge.to}-${tx.block_time}-${asset.symbol}`;
+                    if (processedTx.has(txKey)) continue;
+                    processedTx.add(txKey);
+
+                    addEdge(from, edge);
+
+                    // 对端地址作为下一层候选；交易所地址的转账量巨大，除 keep 模式外不继续展开
+                    const candidate = type === 'in' ? from : edge.to;
+                    const expandable = options.exchangeMode === 'keep' || !isExchangeAddress(candidate);
+                    if (depth < options.maxDepth - 1 && expandable && !visitedAddresses.has(candidate)) {
+                        visitedAddresses.add(candidate);
+                        nextFrontier.push(candidate);
                     }
                 }
             }
         }
 
-        console.log(`   ✅ Analysis completed for address: ${address}`);
-        console.log(`   📊 Found ${transactionGraph.size} related addresses`);
-
-    } catch (error) {
-        console.error(`   ❌ Error analyzing address ${address}:`, error);
-        if (error instanceof Error) {
-            console.error(`   Details: ${error.message}`);
+        if (isBudgetExhausted(ctx.stats, options)) {
+            truncated = nextFrontier.length > 0;
+            break;
         }
+        frontier = nextFrontier;
     }
 
-    return transactionGraph;
+    console.log(`   ✅ Traversal completed for address: ${address}`);
+    console.log(`   📊 Found ${transactionGraph.size} related addresses`);
+
+    return { graph: transactionGraph, status: getRelationStatus(fetched, truncated) };
 }
 
 /**
- * 检查地址是否为交易所地址
- * @param {string} address - 要检查的地址
- * @returns {boolean} 是否为交易所地址
+ * 汇总持有者遍历中各地址的查询结果
+ * 持有者自身的查询全部失败（或因预算耗尽全部未执行）为 failed；
+ * 任一查询失败、被跳过或遍历被预算截断为 partial
+ * @param {AddressTransfers[]} fetched - 遍历中查询过的地址，第一个为持有者自身
+ * @param {boolean} truncated - 遍历是否因调用预算耗尽提前结束
+ * @returns {RelationStatus} 查询状态
  */
-function isExchangeAddress(address: string): boolean {
-    // 获取所有交易所地址
-    const allExchangeAddresses = Object.values(exchangeAddresses.solana)
-        .flat();
-
-    return allExchangeAddresses.includes(address);
+function getRelationStatus(fetched: AddressTransfers[], truncated: boolean): RelationStatus {
+    const errors = fetched.flatMap(result => result.errors);
+    const skipped = fetched.reduce((sum, result) => sum + result.skipped, 0);
+    const callsAttempted = fetched.reduce((sum, result) => sum + result.calls, 0);
+    const counts = { callsAttempted, failedLookups: errors.length };
+    const budgetReason = 'API call budget exhausted';
+
+    const [root] = fetched;
+    if (root && root.lookups > 0 && root.errors.length + root.skipped === root.lookups) {
+        return { status: 'failed', reason: root.errors[0] ?? budgetReason, ...counts };
+    }
+    if (errors.length > 0) {
+        return { status: 'partial', reason: `${errors.length} lookup(s) failed: ${errors[0]}`, ...counts };
+    }
+    if (skipped > 0 || truncated) {
+        return { status: 'partial', reason: budgetReason, ...counts };
+    }
+    return { status: 'complete', reason: null, ...counts };
 }
 
 /**
- * 过滤交易关系图，移除交易所相关的交易
+ * 按交易所处理方式处理交易关系图
+ * - exclude: 移除交易所相关的交易
+ * - collapse: 将交易所地址替换为每个交易所一个的合并节点
+ * - keep: 原样返回
+ * 移除或合并的交易数计入调用统计
  * @param {Map<string, Transaction[]>} graph - 原始交易图
- * @returns {Map<string, Transaction[]>} 过滤后的交易图
+ * @param {ExchangeMode} mode - 交易所处理方式
+ * @param {SolscanStats} stats - 调用统计
+ * @returns {Map<string, Transaction[]>} 处理后的交易图
  */
-function filterRelation(graph: Map<string, Transaction[]>): Map<string, Transaction[]> {
+function filterRelation(
+    graph: Map<string, Transaction[]>,
+    mode: ExchangeMode,
+    stats: SolscanStats
+): Map<string, Transaction[]> {
+    if (mode === 'keep') return graph;
+
     const filteredGraph = new Map<string, Transaction[]>();
+    const addEdges = (from: string, edges: Transaction[]) => {
+        if (edges.length === 0) return;
+        filteredGraph.set(from, [...(filteredGraph.get(from) ?? []), ...edges]);
+    };
 
     for (const [from, transactions] of graph) {
-        // 如果发送方是交易所地址，跳过
-        if (isExchangeAddress(from)) {
+        const fromExchange = isExchangeAddress(from);
+
+        if (mode === 'exclude') {
+            // 移除发送方或接收方是交易所的交易
+            const kept = fromExchange ? [] : transactions.filter(tx => !isExchangeAddress(tx.to));
+            stats.exchangeEdgesRemoved += transactions.length - kept.length;
+            addEdges(from, kept);
             continue;
         }
 
-        // 过滤掉接收方是交易所的交易
-        const filteredTransactions = transactions.filter(tx =>
-            !isExchangeAddress(tx.to)
-        );
-
-        // 如果还有剩余交易，添加到新图中
-        if (filteredTransactions.length > 0) {
-            filteredGraph.set(from, filteredTransactions);
-        }
+        // collapse: 交易所地址替换为合并节点
+        const collapsed = transactions.map(tx => {
+            const toNode = getExchangeNodeId(tx.to);
+            if (fromExchange || toNode) stats.exchangeEdgesCollapsed++;
+            return toNode ? { ...tx, to: toNode } : tx;
+        });
+        addEdges(getExchangeNodeId(from) ?? from, collapsed);
     }
 
     return filteredGraph;
 }
 
 /**
- * 获取地址的关联交易图
- * @param {string} address - 要分析的地址
- * @param {number} minAmount - 最小交易金额（SOL）
- * @returns {Promise<Map<string, Transaction[]>>} 交易图谱
+ * 处理交易所相关交易并按深度输出交易图谱
+ * @param {string} address - 起始地址
+ * @param {Map<string, Transaction[]>} graph - 原始交易图
+ * @param {TraversalOptions} options - 遍历选项
+ * @param {SolscanStats} stats - 调用统计
+ * @returns {Map<string, Transaction[]>} 处理后的交易图
  */
-async function getAddressRelationGraph(
+function finalizeRelationGraph(
     address: string,
-    minAmount: number = 100
-): Promise<Map<string, Transaction[]>> {
-    console.log(`\n🔍 Starting analysis for address: ${address}`);
-    console.log(`   Minimum transaction amount: ${minAmount} SOL`);
-
-    apiCallCount = 0;
-
-    try {
-        const graph = await getRelatedTransactions(address, minAmount, 0, 2, new Set());
-
-        // 添加过滤步骤
-        console.log('\nFiltering exchange-related transactions...');
-        const filteredGraph = filterRelation(graph);
-        console.log(`Removed ${graph.size - filteredGraph.size} exchange-related addresses`);
-
-        // 创建地址到深度的映射
-        const addressDepth = new Map<string, number>();
-        addressDepth.set(address, 0); // 起始地址深度为0
-
-        // 计算每个地址的深度
-        for (const [from, edges] of filteredGraph) {
-            edges.forEach(edge => {
-                const toAddress = edge.to;
-                if (edge.type === 'in') {
-                    // 对于转入交易，from地址深度+1
-                    if (!addressDepth.has(from)) {
-                        addressDepth.set(from, (addressDepth.get(toAddress) || 0) + 1);
-                    }
-                } else {
-                    // 对于转出交易，to地址深度-1
-                    if (!addressDepth.has(toAddress)) {
-                        addressDepth.set(toAddress, (addressDepth.get(from) || 0) - 1);
-                    }
+    graph: Map<string, Transaction[]>,
+    options: TraversalOptions,
+    stats: SolscanStats
+): Map<string, Transaction[]> {
+    // 按交易所处理方式处理交易所相关交易
+    const filteredGraph = filterRelation(graph, options.exchangeMode, stats);
+
+    // 创建地址到深度的映射
+    const addressDepth = new Map<string, number>();
+    addressDepth.set(address, 0); // 起始地址深度为0
+
+    // 计算每个地址的深度
+    for (const [from, edges] of filteredGraph) {
+        edges.forEach(edge => {
+            const toAddress = edge.to;
+            if (edge.type === 'in') {
+                // 对于转入交易，from地址深度+1
+                if (!addressDepth.has(from)) {
+                    addressDepth.set(from, (addressDepth.get(toAddress) || 0) + 1);
                 }
-            });
-        }
-
-        // 按深度输出结果
-        console.log('\nTransaction Graph:');
-        for (let depth = 2; depth >= -2; depth--) {
-            console.log(`\n=== Depth ${depth} ===`);
-            for (const [from, edges] of filteredGraph) {
-                if (addressDepth.get(from) === depth) {
-                    edges.forEach(edge => {
-                        console.log(`\nFrom: ${from}`);
-                        console.log(`  → To: ${edge.to}`);
-                        console.log(`    Amount: ${edge.amount} SOL`);
-                        console.log(`    Time: ${edge.formattedTime}`);
-                        console.log(`    Type: ${edge.type}`);
-                    });
+            } else {
+                // 对于转出交易，to地址深度-1
+                if (!addressDepth.has(toAddress)) {
+                    addressDepth.set(toAddress, (addressDepth.get(from) || 0) - 1);
                 }
             }
-        }
+        });
+    }
 
-        // 打印 API 调用统计
-        console.log(`\nTotal API calls made: ${apiCallCount}`);
+    // 按深度输出结果
+    console.log(`\nTransaction Graph (${address}):`);
+    for (let depth = options.maxDepth; depth >= -options.maxDepth; depth--) {
+        console.log(`\n=== Depth ${depth} ===`);
         for (const [from, edges] of filteredGraph) {
-            edges.forEach(edge => {
-                const toAddress = edge.to;
-                if (edge.type === 'in') {
-                    // 对于转入交易，from地址深度+1
-                    if (!addressDepth.has(from)) {
-                        addressDepth.set(from, (addressDepth.get(toAddress) || 0) + 1);
-                    }
-                } else {
-                    // 对于转出交易，to地址深度-1
-                    if (!addressDepth.has(toAddress)) {
-                        addressDepth.set(toAddress, (addressDepth.get(from) || 0) - 1);
-                    }
-                }
-            });
-        }
-
-        // 按深度输出结果
-        console.log('\nTransaction Graph:');
-        for (let depth = 2; depth >= -2; depth--) {
-            console.log(`\n=== Depth ${depth} ===`);
-            for (const [from, edges] of filteredGraph) {
-                if (addressDepth.get(from) === depth) {
-                    edges.forEach(edge => {
-                        console.log(`\nFrom: ${from}`);
-                        console.log(`  → To: ${edge.to}`);
-                        console.log(`    Amount: ${edge.amount} SOL`);
-                        console.log(`    Time: ${edge.formattedTime}`);
-                        console.log(`    Type: ${edge.type}`);
-                    });
-                }
+            if (addressDepth.get(from) === depth) {
+                edges.forEach(edge => {
+                    console.log(`\nFrom: ${from}`);
+                    console.log(`  → To: ${edge.to}`);
+                    console.log(`    Amount: ${edge.amount} ${edge.asset}`);
+                    console.log(`    Time: ${edge.formattedTime}`);
+                    console.log(`    Type: ${edge.type}`);
+                });
             }
         }
+    }
 
-        // 打印 API 调用统计
-        console.log(`\nTotal API calls made: ${apiCallCount}`);
-        for (const [from, edges] of filteredGraph) {
-            edges.forEach(edge => {
-                const toAddress = edge.to;
-                if (edge.type === 'in') {
-                    // 对于转入交易，from地址深度+1
-                    if (!addressDepth.has(from)) {
-                        addressDepth.set(from, (addressDepth.get(toAddress) || 0) + 1);
-                    }
-                } else {
-                    // 对于转出交易，to地址深度-1
-                    if (!addressDepth.has(toAddress)) {
-                        addressDepth.set(toAddress, (addressDepth.get(from) || 0) - 1);
-                    }
-                }
+    return filteredGraph;
+}
+
+/**
+ * 获取被分析代币在持有者与其对手方之间的转账
+ * 每个持有者查询两个方向的代币转账，不做递归，结果合并为一张交易图
+ * 查询失败或因调用预算耗尽被跳过的持有者记录在 failures 中，由调用方计入持有者查询状态
+ * @param {string[]} addresses - 持有者地址列表
+ * @param {string} tokenAddress - 被分析代币地址
+ * @param {SolscanStats} stats - 调用统计
+ * @param {TraversalOptions} options - 遍历选项（使用其中的分页、预算、并发与交易所过滤设置）
+ * @returns {Promise<TokenFlowResult>} 代币转账图谱与失败的持有者
+ */
+async function getTokenFlows(
+    addresses: string[],
+    tokenAddress: string,
+    stats: SolscanStats = createSolscanStats(),
+    options: TraversalOptions = getDefaultTraversalOptions()
+): Promise<TokenFlowResult> {
+    console.log(`\n🪙 Tracing ${tokenAddress} transfers for ${addresses.length} addresses`);
+
+    const pool = new WorkerPool(options.concurrency);
+    const processedTx = new Set<string>();
+    const flowGraph = new Map<string, Transaction[]>();
+    const failures = new Map<string, TokenFlowFailure>();
+    const tokenAsset = {
+        symbol: TOKEN_FLOW_ASSET,
+        token: tokenAddress,
+        activityType: 'ACTIVITY_SPL_TRANSFER',
+        decimals: 0
+    };
+
+    const fetchFlow = (address: string, flow: 'in' | 'out') => pool.run(async () => {
+        if (options.signal?.aborted) return [];
+        if (isBudgetExhausted(stats, options)) {
+            const failure = failures.get(address);
+            failures.set(address, {
+                reason: failure?.reason ?? 'API call budget exhausted before token flow tracing',
+                failedLookups: failure?.failedLookups ?? 0
             });
+            return [];
         }
+        try {
+            return await fetchTransfers(address, flow, tokenAsset, 0, options, stats);
+        } catch (error) {
+            console.error(`   ❌ Error fetching token ${flow} transfers for ${address}:`, error);
+            const failure = failures.get(address);
+            failures.set(address, {
+                reason: `Token ${flow} transfers failed: ${error instanceof Error ? error.message : String(error)}`,
+                failedLookups: (failure?.failedLookups ?? 0) + 1
+            });
+            return [];
+        }
+    });
 
-        // 按深度输出结果
-        console.log('\nTransaction Graph:');
-        for (let depth = 2; depth >= -2; depth--) {
-            console.log(`\n=== Depth ${depth} ===`);
-            for (const [from, edges] of filteredGraph) {
-                if (addressDepth.get(from) === depth) {
-                    edges.forEach(edge => {
-                        console.log(`\nFrom: ${from}`);
-                        console.log(`  → To: ${edge.to}`);
-                        console.log(`    Amount: ${edge.amount} SOL`);
-                        console.log(`    Time: ${edge.formattedTime}`);
-                        console.log(`    Type: ${edge.type}`);
-                    });
-                }
-            }
+    const results = await Promise.all(addresses.flatMap(address => [
+        fetchFlow(address, 'in'),
+        fetchFlow(address, 'out')
+    ]));
+
+    for (const tx of results.flat()) {
+        if (tx.from_address === tx.to_address) continue;
+
+        const txKey = `${tx.from_address}-${tx.to_address}-${tx.block_time}-${tx.amount}`;
+        if (processedTx.has(txKey)) continue;
+        processedTx.add(txKey);
+
+        const { from, edge } = toTransactionEdge(tx, 'token', tokenAsset);
+        if (!flowGraph.has(from)) {
+            flowGraph.set(from, []);
         }
+        flowGraph.get(from)?.push(edge);
+    }
 
-        // 打印 API 调用统计
-        console.log(`\nTotal API calls made: ${apiCallCount}`);
-        return filteredGraph;
-    } catch (error) {
-        console.error('\n❌ Error in analysis:', error);
-        return new Map();
+    const graph = filterRelation(flowGraph, options.exchangeMode, stats);
+    console.log(`   ✅ Found ${processedTx.size} token transfers`);
+    if (failures.size > 0) {
+        console.log(`   ⚠️ Token flow tracing incomplete for ${failures.size} address(es)`);
     }
+
+    return { graph, failures };
+}
+
+/**
+ * 并发获取多个地址的关联交易图
+ * 所有地址共享工作池与查询结果，被多个地址关联到的地址只查询一次
+ * @param {string[]} addresses - 要分析的地址列表
+ * @param {number} minAmount - 最小交易金额（SOL）
+ * @param {SolscanStats} stats - 调用统计，由调用方按分析创建
+ * @param {TraversalOptions} options - 遍历选项
+ * @param {Function} onGraph - 单个地址的图谱完成时的回调
+ * @returns {Promise<Map<string, RelationGraph>>} 地址到交易图谱及查询状态的映射
+ */
+async function getRelationGraphs(
+    addresses: string[],
+    minAmount: number = 100,
+    stats: SolscanStats = createSolscanStats(),
+    options: TraversalOptions = getDefaultTraversalOptions(),
+    onGraph?: (address: string, relation: RelationGraph) => void
+): Promise<Map<string, RelationGraph>> {
+    console.log(`\n🔍 Starting relation analysis for ${addresses.length} addresses`);
+    console.log(`   Minimum transaction amount: ${minAmount} SOL, concurrency: ${options.concurrency}`);
+
+    const ctx: TraversalContext = {
+        minAmount,
+        options,
+        stats,
+        pool: new WorkerPool(options.concurrency),
+        transfers: new Map()
+    };
+
+    const graphs = new Map<string, RelationGraph>();
+
+    await Promise.all(addresses.map(async address => {
+        let relation: RelationGraph;
+        try {
+            const { graph, status } = await getRelatedTransactions(address, ctx);
+            relation = { graph: finalizeRelationGraph(address, graph, options, stats), status };
+        } catch (error) {
+            // 记录为该持有者的失败状态，之后可只重试失败的持有者
+            console.error(`\n❌ Error in analysis for ${address}:`, error);
+            relation = {
+                graph: new Map(),
+                status: {
+                    status: 'failed',
+                    reason: error instanceof Error ? error.message : String(error),
+                    callsAttempted: 0,
+                    failedLookups: 0
+                }
+            };
+        }
+        graphs.set(address, relation);
+        onGraph?.(address, relation);
+    }));
+
+    // 打印 API 调用统计
+    console.log(`\nTotal API calls made: ${stats.apiCallCount}`);
+
+    // 按输入顺序返回
+    return new Map(addresses.map(address => [address, graphs.get(address)!]));
+}
+
+/**
+ * 获取地址的关联交易图
+ * @param {string} address - 要分析的地址
+ * @param {number} minAmount - 最小交易金额（SOL）
+ * @param {SolscanStats} stats - 调用统计，由调用方按分析创建
+ * @param {TraversalOptions} options - 遍历选项
+ * @returns {Promise<Map<string, Transaction[]>>} 交易图谱
+ */
+async function getAddressRelationGraph(
+    address: string,
+    minAmount: number = 100,
+    stats: SolscanStats = createSolscanStats(),
+    options: TraversalOptions = getDefaultTraversalOptions()
+): Promise<Map<string, Transaction[]>> {
+    const graphs = await getRelationGraphs([address], minAmount, stats, options);
+    return graphs.get(address)?.graph ?? new Map();
 }
 
 export {
     getTransactionGraph,
-    getAddressRelationGraph
+    getAddressRelationGraph,
+    getRelationGraphs,
+    getTokenFlows,
+    createSolscanStats,
+    getDefaultTraversalOptions
 };
 
 export type {
     Transaction,
     SolscanResponse,
+    SolscanStats,
+    FlowDirection,
+    TraversalOptions,
+    RelationStatusKind,
+    RelationStatus,
+    RelationGraph,
+    TokenFlowFailure,
+    TokenFlowResult,
     APIParams
 };
@@ -0,0 +1,238 @@
+/**
+ * user-labels.ts
+ * 主要功能：用户自定义地址标签与观察列表
+ *
+ * 1. 自定义标签：为地址添加备注名称（如已知开发者钱包、KOL、历史跑路地址）
+ * 2. 观察列表：按名称分组的地址集合，列表中的持有者在表格与关系图中高亮
+ * 3. 每次分析完成后自动为结果中的地址附加标签与所属观察列表
+ *
+ * 存储可插拔：
+ * - file: 本地 JSON 文件，每条记录一个文件（默认）
+ * - memory: 进程内存
+ */
+
+import dotenv from 'dotenv';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { MemoryRecordStore, FileRecordStore } from './record-store';
+import type { RecordStore } from './record-store';
+
+dotenv.config();
+
+// 类型定义
+/**
+ * 用户自定义标签
+ * @interface UserLabel
+ * @property {string} address - 地址
+ * @property {string} label - 标签名称
+ * @property {string} note - 备注（可选）
+ */
+interface UserLabel {
+    address: string;
+    label: string;
+    note?: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+/**
+ * 观察列表
+ * @interface Watchlist
+ */
+interface Watchlist {
+    id: string;
+    name: string;
+    addresses: string[];
+    createdAt: string;
+    updatedAt: string;
+}
+
+/**
+ * 附加到分析结果的用户数据
+ * @interface UserAnnotations
+ * @property {Record<string, UserLabel>} labels - 地址到自定义标签的映射
+ * @property {Record<string, string[]>} watchlists - 地址到所属观察列表名称的映射
+ */
+interface UserAnnotations {
+    labels: Record<string, UserLabel>;
+    watchlists: Record<string, string[]>;
+}
+
+/**
+ * 根据环境变量创建记录存储
+ * - LABEL_STORE: file | memory，默认 file
+ * - LABEL_STORE_DIR: 文件存储根目录，默认 .data
+ * @param {string} collection - 集合名称，对应存储根目录下的子目录
+ * @returns {RecordStore<T>} 记录存储
+ */
+function createRecordStore<T>(collection: string): RecordStore<T> {
+    if (process.env.LABEL_STORE === 'memory') {
+        return new MemoryRecordStore<T>();
+    }
+    const root = process.env.LABEL_STORE_DIR || path.join(process.cwd(), '.data');
+    return new FileRecordStore<T>(path.join(root, collection));
+}
+
+const labelStore = createRecordStore<UserLabel>('labels');
+const watchlistStore = createRecordStore<Watchlist>('watchlists');
+
+/**
+ * 获取所有自定义标签
+ * @returns {Promise<UserLabel[]>} 按地址排序的标签
+ */
+async function listUserLabels(): Promise<UserLabel[]> {
+    const labels = await labelStore.list();
+    return labels.sort((a, b) => a.address.localeCompare(b.address));
+}
+
+/**
+ * 获取地址的自定义标签
+ * @param {string} address - 地址
+ * @returns {Promise<UserLabel | null>} 标签，不存在时返回 null
+ */
+async function getUserLabel(address: string): Promise<UserLabel | null> {
+    return labelStore.get(address);
+}
+
+/**
+ * 创建或更新地址的自定义标签
+ * @param {string} address - 地址
+ * @param {string} label - 标签名称
+ * @param {string} note - 备注（可选）
+ * @returns {Promise<UserLabel>} 保存后的标签
+ */
+async function setUserLabel(address: string, label: string, note?: string): Promise<UserLabel> {
+    const existing = await labelStore.get(address);
+    const now = new Date().toISOString();
+    const saved: UserLabel = {
+        address,
+        label,
+        ...(note ? { note } : {}),
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now
+    };
+    await labelStore.put(address, saved);
+    return saved;
+}
+
+/**
+ * 删除地址的自定义标签
+ * @param {string} address - 地址
+ * @returns {Promise<boolean>} 是否存在并已删除
+ */
+async function deleteUserLabel(address: string): Promise<boolean> {
+    return labelStore.delete(address);
+}
+
+/**
+ * 获取所有观察列表
+ * @returns {Promise<Watchlist[]>} 按名称排序的观察列表
+ */
+async function listWatchlists(): Promise<Watchlist[]> {
+    const watchlists = await watchlistStore.list();
+    return watchlists.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * 获取观察列表
+ * @param {string} id - 观察列表 ID
+ * @returns {Promise<Watchlist | null>} 观察列表，不存在时返回 null
+ */
+async function getWatchlist(id: string): Promise<Watchlist | null> {
+    return watchlistStore.get(id);
+}
+
+/**
+ * 创建观察列表
+ * @param {string} name - 名称
+ * @param {string[]} addresses - 地址列表
+ * @returns {Promise<Watchlist>} 新建的观察列表
+ */
+async function createWatchlist(name: string, addresses: string[]): Promise<Watchlist> {
+    const now = new Date().toISOString();
+    const watchlist: Watchlist = {
+        id: randomUUID(),
+        name,
+        addresses: Array.from(new Set(addresses)),
+        createdAt: now,
+        updatedAt: now
+    };
+    await watchlistStore.put(watchlist.id, watchlist);
+    return watchlist;
+}
+
+/**
+ * 更新观察列表的名称或地址
+ * @param {string} id - 观察列表 ID
+ * @param {Partial<Pick<Watchlist, 'name' | 'addresses'>>} patch - 需要更新的字段
+ * @returns {Promise<Watchlist | null>} 更新后的观察列表，不存在时返回 null
+ */
+async function updateWatchlist(
+    id: string,
+    patch: Partial<Pick<Watchlist, 'name' | 'addresses'>>
+): Promise<Watchlist | null> {
+    const watchlist = await watchlistStore.get(id);
+    if (!watchlist) return null;
+
+    const updated: Watchlist = {
+        ...watchlist,
+        ...(patch.name !== undefined ? { name: patch.name } : {}),
+        ...(patch.addresses !== undefined ? { addresses: Array.from(new Set(patch.addresses)) } : {}),
+        updatedAt: new Date().toISOString()
+    };
+    await watchlistStore.put(id, updated);
+    return updated;
+}
+
+/**
+ * 删除观察列表
+ * @param {string} id - 观察列表 ID
+ * @returns {Promise<boolean>} 是否存在并已删除
+ */
+async function deleteWatchlist(id: string): Promise<boolean> {
+    return watchlistStore.delete(id);
+}
+
+/**
+ * 收集一组地址的自定义标签与所属观察列表
+ * @param {Iterable<string>} addresses - 地址
+ * @returns {Promise<UserAnnotations>} 只包含有标签或在观察列表中的地址
+ */
+async function collectUserAnnotations(addresses: Iterable<string>): Promise<UserAnnotations> {
+    const [labels, watchlists] = await Promise.all([listUserLabels(), listWatchlists()]);
+    const labelsByAddress = new Map(labels.map(label => [label.address, label]));
+    const watchlistsByAddress = new Map<string, string[]>();
+    watchlists.forEach(watchlist => {
+        watchlist.addresses.forEach(address => {
+            watchlistsByAddress.set(address, [...(watchlistsByAddress.get(address) ?? []), watchlist.name]);
+        });
+    });
+
+    const annotations: UserAnnotations = { labels: {}, watchlists: {} };
+    for (const address of addresses) {
+        const label = labelsByAddress.get(address);
+        if (label) annotations.labels[address] = label;
+        const names = watchlistsByAddress.get(address);
+        if (names) annotations.watchlists[address] = names;
+    }
+    return annotations;
+}
+
+export {
+    listUserLabels,
+    getUserLabel,
+    setUserLabel,
+    deleteUserLabel,
+    listWatchlists,
+    getWatchlist,
+    createWatchlist,
+    updateWatchlist,
+    deleteWatchlist,
+    collectUserAnnotations
+};
+
+export type {
+    UserLabel,
+    Watchlist,
+    UserAnnotations
+};
@@ -0,0 +1,350 @@
+/**
+ * validation.ts
+ * 主要功能：API 请求参数校验
+ *
+ * 浏览器端与服务端共用，保证表单默认值与接口校验规则一致
+ */
+
+import type { AnalysisParameters, ExchangeMode, FlowDirection, RelationParameters } from './analyze';
+import type { MonitorRule, WatchedTokenInput } from './monitor';
+
+// Solana 地址为 32-44 位 Base58 字符串
+const SOLANA_ADDRESS_PATTERN = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+
+// 默认分析参数
+const DEFAULT_ANALYSIS_PARAMETERS: AnalysisParameters = {
+    topN: 20,
+    maxDepth: 2,
+    minAmount: 5,
+    direction: 'both',
+    exchangeMode: 'collapse',
+    traceTokenFlow: true
+};
+
+// 参数取值范围
+const PARAMETER_LIMITS = {
+    topN: { min: 1, max: 100 },
+    maxDepth: { min: 1, max: 4 },
+    minAmount: { min: 0, max: 1_000_000 }
+};
+
+const FLOW_DIRECTIONS: FlowDirection[] = ['in', 'out', 'both'];
+
+const EXCHANGE_MODES: ExchangeMode[] = ['exclude', 'collapse', 'keep'];
+
+// 自定义标签与观察列表名称的最大长度
+const LABEL_MAX_LENGTH = 64;
+
+// 监控配置取值范围
+const MONITOR_LIMITS = {
+    intervalMinutes: { min: 5, max: 10_080 },
+    rules: 20,
+    webhooks: 10
+};
+
+/**
+ * 参数校验结果
+ */
+type ValidationResult<T> =
+    | { ok: true; value: T }
+    | { ok: false; error: string };
+
+/**
+ * 检查是否为合法的 Solana 地址格式
+ * @param {string} address - 待检查的地址
+ * @returns {boolean} 是否合法
+ */
+function isValidSolanaAddress(address: string): boolean {
+    return SOLANA_ADDRESS_PATTERN.test(address);
+}
+
+/**
+ * 校验数值参数
+ * @param {string} name - 参数名
+ * @param {unknown} value - 参数值
+ * @param {{ min: number; max: number }} limit - 取值范围
+ * @param {boolean} integer - 是否要求整数
+ * @returns {string | null} 错误信息
+ */
+function checkNumber(
+    name: string,
+    value: unknown,
+    limit: { min: number; max: number },
+    integer: boolean
+): string | null {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return `${name} must be a number`;
+    }
+    if (integer && !Number.isInteger(value)) {
+        return `${name} must be an integer`;
+    }
+    if (value < limit.min || value > limit.max) {
+        return `${name} must be between ${limit.min} and ${limit.max}`;
+    }
+    return null;
+}
+
+/**
+ * 校验分析参数，未提供的参数使用默认值
+ * @param {unknown} input - 请求体中的 parameters 字段
+ * @returns {ValidationResult<AnalysisParameters>} 校验结果
+ */
+function validateAnalysisParameters(input: unknown): ValidationResult<AnalysisParameters> {
+    if (input === undefined || input === null) {
+        return { ok: true, value: { ...DEFAULT_ANALYSIS_PARAMETERS } };
+    }
+    if (typeof input !== 'object' || Array.isArray(input)) {
+        return { ok: false, error: 'parameters must be an object' };
+    }
+
+    const raw = input as Partial<AnalysisParameters> & { excludeExchanges?: unknown };
+    const parameters = { ...DEFAULT_ANALYSIS_PARAMETERS, ...raw };
+
+    // 兼容旧参数 excludeExchanges
+    if (raw.exchangeMode === undefined && typeof raw.excludeExchanges === 'boolean') {
+        parameters.exchangeMode = raw.excludeExchanges ? 'exclude' : 'keep';
+    }
+
+    const error =
+        checkNumber('topN', parameters.topN, PARAMETER_LIMITS.topN, true) ||
+        checkNumber('maxDepth', parameters.maxDepth, PARAMETER_LIMITS.maxDepth, true) ||
+        checkNumber('minAmount', parameters.minAmount, PARAMETER_LIMITS.minAmount, false) ||
+        (!FLOW_DIRECTIONS.includes(parameters.direction)
+            ? `direction must be one of ${FLOW_DIRECTIONS.join(', ')}`
+            : null) ||
+        (!EXCHANGE_MODES.includes(parameters.exchangeMode)
+            ? `exchangeMode must be one of ${EXCHANGE_MODES.join(', ')}`
+            : null) ||
+        (typeof parameters.traceTokenFlow !== 'boolean'
+            ? 'traceTokenFlow must be a boolean'
+            : null);
+
+    if (error) {
+        return { ok: false, error };
+    }
+
+    return {
+        ok: true,
+        value: {
+            topN: parameters.topN,
+            maxDepth: parameters.maxDepth,
+            minAmount: parameters.minAmount,
+            direction: parameters.direction,
+            exchangeMode: parameters.exchangeMode,
+            traceTokenFlow: parameters.traceTokenFlow
+        }
+    };
+}
+
+/**
+ * 校验单个地址关联查询的 URL 参数（minAmount、direction、exchangeMode），未提供的参数使用默认值
+ * @param {URLSearchParams} searchParams - 查询参数
+ * @returns {ValidationResult<RelationParameters>} 校验结果
+ */
+function validateRelationQuery(searchParams: URLSearchParams): ValidationResult<RelationParameters> {
+    // 查询参数均为字符串，转换后复用分析参数的校验规则
+    const query: Record<string, unknown> = {};
+    const minAmount = searchParams.get('minAmount');
+    if (minAmount !== null) query.minAmount = minAmount.trim() === '' ? NaN : Number(minAmount);
+    const direction = searchParams.get('direction');
+    if (direction !== null) query.direction = direction;
+    const exchangeMode = searchParams.get('exchangeMode');
+    if (exchangeMode !== null) query.exchangeMode = exchangeMode;
+
+    const validation = validateAnalysisParameters(query);
+    if (!validation.ok) {
+        return validation;
+    }
+
+    return {
+        ok: true,
+        value: {
+            minAmount: validation.value.minAmount,
+            direction: validation.value.direction,
+            exchangeMode: validation.value.exchangeMode
+        }
+    };
+}
+
+/**
+ * 校验自定义标签请求体
+ * @param {unknown} input - 请求体
+ * @returns {ValidationResult<{ label: string; note?: string }>} 校验结果
+ */
+function validateUserLabelInput(input: unknown): ValidationResult<{ label: string; note?: string }> {
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+        return { ok: false, error: 'Request body must be an object' };
+    }
+
+    const { label, note } = input as { label?: unknown; note?: unknown };
+    if (typeof label !== 'string' || !label.trim()) {
+        return { ok: false, error: 'label must be a non-empty string' };
+    }
+    if (label.length > LABEL_MAX_LENGTH) {
+        return { ok: false, error: `label must be at most ${LABEL_MAX_LENGTH} characters` };
+    }
+    if (note !== undefined && typeof note !== 'string') {
+        return { ok: false, error: 'note must be a string' };
+    }
+
+    return {
+        ok: true,
+        value: { label: label.trim(), ...(note?.trim() ? { note: note.trim() } : {}) }
+    };
+}
+
+/**
+ * 校验观察列表请求体
+ * @param {unknown} input - 请求体
+ * @param {boolean} partial - 是否允许省略字段（更新时）
+ * @returns {ValidationResult<{ name?: string; addresses?: string[] }>} 校验结果
+ */
+function validateWatchlistInput(
+    input: unknown,
+    partial: boolean
+): ValidationResult<{ name?: string; addresses?: string[] }> {
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+        return { ok: false, error: 'Request body must be an object' };
+    }
+
+    const { name, addresses } = input as { name?: unknown; addresses?: unknown };
+    const value: { name?: string; addresses?: string[] } = {};
+
+    if (name !== undefined || !partial) {
+        if (typeof name !== 'string' || !name.trim()) {
+            return { ok: false, error: 'name must be a non-empty string' };
+        }
+        if (name.length > LABEL_MAX_LENGTH) {
+            return { ok: false, error: `name must be at most ${LABEL_MAX_LENGTH} characters` };
+        }
+        value.name = name.trim();
+    }
+
+    if (addresses !== undefined || !partial) {
+        if (!Array.isArray(addresses) || addresses.some(address => typeof address !== 'string')) {
+            return { ok: false, error: 'addresses must be an array of strings' };
+        }
+        const invalid = addresses.find(address => !isValidSolanaAddress(address));
+        if (invalid !== undefined) {
+            return { ok: false, error: `Invalid Solana address: ${invalid}` };
+        }
+        value.addresses = addresses;
+    }
+
+    return { ok: true, value };
+}
+
+/**
+ * 校验单条告警规则
+ * @param {unknown} input - 规则
+ * @returns {ValidationResult<MonitorRule>} 校验结果
+ */
+function validateMonitorRule(input: unknown): ValidationResult<MonitorRule> {
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+        return { ok: false, error: 'rule must be an object' };
+    }
+
+    const rule = input as Record<string, unknown>;
+    const pctLimit = { min: 0, max: 1 };
+    let error: string | null;
+
+    switch (rule.type) {
+        case 'cluster_supply':
+            error = checkNumber('threshold', rule.threshold, pctLimit, false);
+            return error ? { ok: false, error } : { ok: true, value: { type: rule.type, threshold: rule.threshold as number } };
+
+        case 'watchlist_funded_holder': {
+            const topN = rule.topN ?? 10;
+            if (typeof rule.watchlist !== 'string' || !rule.watchlist.trim()) {
+                return { ok: false, error: 'watchlist must be a non-empty string' };
+            }
+            error = checkNumber('topN', topN, PARAMETER_LIMITS.topN, true);
+            return error
+                ? { ok: false, error }
+                : { ok: true, value: { type: rule.type, watchlist: rule.watchlist.trim(), topN: topN as number } };
+        }
+
+        case 'holder_exited': {
+            const minPct = rule.minPct ?? 0;
+            error = checkNumber('minPct', minPct, pctLimit, false);
+            return error ? { ok: false, error } : { ok: true, value: { type: rule.type, minPct: minPct as number } };
+        }
+
+        default:
+            return { ok: false, error: 'rule type must be one of cluster_supply, watchlist_funded_holder, holder_exited' };
+    }
+}
+
+/**
+ * 校验监控配置请求体
+ * @param {unknown} input - 请求体
+ * @returns {ValidationResult<Partial<WatchedTokenInput>>} 校验结果，只包含请求中提供的字段
+ */
+function validateMonitorInput(input: unknown): ValidationResult<Partial<WatchedTokenInput>> {
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+        return { ok: false, error: 'Request body must be an object' };
+    }
+
+    const raw = input as Record<string, unknown>;
+    const value: Partial<WatchedTokenInput> = {};
+
+    if (raw.intervalMinutes !== undefined) {
+        const error = checkNumber('intervalMinutes', raw.intervalMinutes, MONITOR_LIMITS.intervalMinutes, true);
+        if (error) return { ok: false, error };
+        value.intervalMinutes = raw.intervalMinutes as number;
+    }
+
+    if (raw.parameters !== undefined) {
+        const parameters = validateAnalysisParameters(raw.parameters);
+        if (!parameters.ok) return parameters;
+        value.parameters = parameters.value;
+    }
+
+    if (raw.rules !== undefined) {
+        if (!Array.isArray(raw.rules) || raw.rules.length > MONITOR_LIMITS.rules) {
+            return { ok: false, error: `rules must be an array of at most ${MONITOR_LIMITS.rules} rules` };
+        }
+        const rules: MonitorRule[] = [];
+        for (const item of raw.rules) {
+            const rule = validateMonitorRule(item);
+            if (!rule.ok) return rule;
+            rules.push(rule.value);
+        }
+        value.rules = rules;
+    }
+
+    if (raw.webhooks !== undefined) {
+        if (!Array.isArray(raw.webhooks) || raw.webhooks.length > MONITOR_LIMITS.webhooks) {
+            return { ok: false, error: `webhooks must be an array of at most ${MONITOR_LIMITS.webhooks} URLs` };
+        }
+        const invalid = raw.webhooks.find(url => typeof url !== 'string' || !/^https?:\/\/\S+$/.test(url));
+        if (invalid !== undefined) {
+            return { ok: false, error: `Invalid webhook URL: ${String(invalid)}` };
+        }
+        value.webhooks = raw.webhooks as string[];
+    }
+
+    if (raw.enabled !== undefined) {
+        if (typeof raw.enabled !== 'boolean') {
+            return { ok: false, error: 'enabled must be a boolean' };
+        }
+        value.enabled = raw.enabled;
+    }
+
+    return { ok: true, value };
+}
+
+export {
+    isValidSolanaAddress,
+    validateAnalysisParameters,
+    validateRelationQuery,
+    validateUserLabelInput,
+    validateWatchlistInput,
+    validateMonitorInput,
+    MONITOR_LIMITS,
+    DEFAULT_ANALYSIS_PARAMETERS,
+    PARAMETER_LIMITS,
+    EXCHANGE_MODES
+};
+
+export type { ValidationResult };
@@ -0,0 +1,112 @@
+/**
+ * webhooks.ts
+ * 主要功能：向配置的 Webhook 地址推送 JSON 消息
+ *
+ * 网络错误、超时与 HTTP 429 / 5xx 按指数退避重试，优先遵循 Retry-After；
+ * 其他 4xx 视为接收方拒绝，不再重试
+ *
+ * 配置（环境变量）：
+ * - WEBHOOK_MAX_RETRIES: 最大重试次数，默认 3
+ * - WEBHOOK_TIMEOUT_MS: 单次请求超时，默认 10000
+ */
+
+import dotenv from 'dotenv';
+import { parseRetryAfter, isRetryableStatus } from './rate-limit';
+
+dotenv.config();
+
+// 类型定义
+/**
+ * Webhook 推送结果
+ * @interface WebhookDelivery
+ * @property {string} url - Webhook 地址
+ * @property {boolean} ok - 是否推送成功
+ * @property {number | null} status - 最后一次响应的状态码，未收到响应时为 null
+ * @property {number} attempts - 尝试次数
+ * @property {string} error - 失败原因（可选）
+ */
+interface WebhookDelivery {
+    url: string;
+    ok: boolean;
+    status: number | null;
+    attempts: number;
+    error?: string;
+}
+
+// 退避基础延迟（毫秒）
+const BASE_DELAY = 1000;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * 读取正整数环境变量
+ * @param {string} name - 变量名
+ * @param {number} fallback - 默认值
+ * @returns {number} 配置值
+ */
+function readNumber(name: string, fallback: number): number {
+    const value = Number(process.env[name]);
+    return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * 计算重试等待时间
+ * @param {number} attempt - 已失败的次数（从 0 开始）
+ * @param {string | null} retryAfter - Retry-After 头（秒数或 HTTP 日期）
+ * @returns {number} 等待毫秒数
+ */
+function getRetryDelay(attempt: number, retryAfter: string | null): number {
+    return parseRetryAfter(retryAfter) ?? BASE_DELAY * Math.pow(2, attempt);
+}
+
+/**
+ * 推送 JSON 消息到 Webhook，失败时重试
+ * @param {string} url - Webhook 地址
+ * @param {unknown} payload - 消息内容
+ * @returns {Promise<WebhookDelivery>} 推送结果，不抛出异常
+ */
+async function deliverWebhook(url: string, payload: unknown): Promise<WebhookDelivery> {
+    const maxRetries = readNumber('WEBHOOK_MAX_RETRIES', 3);
+    const timeout = readNumber('WEBHOOK_TIMEOUT_MS', 10000);
+    const body = JSON.stringify(payload);
+    let status: number | null = null;
+    let error = '';
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+        let retryAfter: string | null = null;
+        try {
+            const response = await fetch(url, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body,
+                signal: AbortSignal.timeout(timeout)
+            });
+            status = response.status;
+            if (response.ok) {
+                return { url, ok: true, status, attempts: attempt + 1 };
+            }
+
+            error = `HTTP ${response.status}`;
+            if (!isRetryableStatus(response.status)) {
+                return { url, ok: false, status, attempts: attempt + 1, error };
+            }
+            retryAfter = response.headers.get('retry-after');
+        } catch (err) {
+            status = null;
+            error = err instanceof Error ? err.message : String(err);
+        }
+
+        if (attempt < maxRetries) {
+            const wait = getRetryDelay(attempt, retryAfter);
+            console.warn(`⏳ Webhook ${url} failed (${error}), retrying in ${wait}ms (attempt ${attempt + 1}/${maxRetries})`);
+            await delay(wait);
+        }
+    }
+
+    console.error(`❌ Webhook ${url} failed after ${maxRetries + 1} attempts: ${error}`);
+    return { url, ok: false, status, attempts: maxRetries + 1, error };
+}
+
+export { deliverWebhook };
+
+export type { WebhookDelivery };
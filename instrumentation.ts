@@ -0,0 +1,23 @@
+/**
+ * instrumentation.ts
+ * 主要功能：服务启动时执行的初始化
+ *
+ * 在 Node.js 运行时启动代币监控调度器（MONITOR_TICK_SECONDS=0 时不启动）
+ * 监控模块会加载 Solscan 客户端，后者在缺少 SOLSCAN_API_KEY 时退出进程，
+ * 因此在导入前先检查调度器是否启用以及密钥是否已配置
+ */
+
+export async function register() {
+    if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+    const tickSeconds = Number(process.env.MONITOR_TICK_SECONDS ?? 60);
+    if (!Number.isFinite(tickSeconds) || tickSeconds <= 0) return;
+
+    if (!process.env.SOLSCAN_API_KEY) {
+        console.warn('⚠️ SOLSCAN_API_KEY not set, monitor scheduler not started');
+        return;
+    }
+
+    const { startMonitorScheduler } = await import('./app/lib/monitor');
+    startMonitorScheduler();
+}
\ No newline at end of file
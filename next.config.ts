@@ -5,6 +5,11 @@ const nextConfig: NextConfig = {
     ignoreDuringBuilds: true
   },
 
+  // 分析任务通过 unstable_after 在响应发送后执行
+  experimental: {
+    after: true
+  },
+
   // 添加 Vercel 特定的配置
   serverRuntimeConfig: {
     maxDuration: 300, // 5 minutes in seconds
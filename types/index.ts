@@ -2,14 +2,18 @@ export interface Transaction {
     from: string;
     to: string;
     amount: number;
-    type: 'in' | 'out';
+    type: 'in' | 'out' | 'token';
     time: string;
+    timestamp: number;
+    asset: string;
 }
 
 export interface HolderData {
     transactions: Transaction[];
     incomingAddresses: string[];
     outgoingAddresses: string[];
+    totalInAmount: number;
+    totalOutAmount: number;
 }
 
 export interface Holder {
@@ -17,11 +21,327 @@ export interface Holder {
     holder_sns: string | null;
     holder_pct_of_supply: string;
     is_new: boolean;
+    tags?: string[];
+}
+
+export interface HolderSourceCapabilities {
+    sns: boolean;
+    isNew: boolean;
+    tags: boolean;
+}
+
+export type FlowDirection = 'in' | 'out' | 'both';
+
+export type ExchangeMode = 'exclude' | 'collapse' | 'keep';
+
+export interface AnalysisParameters {
+    topN: number;
+    maxDepth: number;
+    minAmount: number;
+    direction: FlowDirection;
+    exchangeMode: ExchangeMode;
+    traceTokenFlow: boolean;
+}
+
+export interface Cluster {
+    id: string;
+    holders: string[];
+    connectors: string[];
+    totalPct: number;
+    edges: Transaction[];
+}
+
+export interface FundedHolder {
+    address: string;
+    amounts: { [asset: string]: number };
+    firstFundedAt: number;
+    lastFundedAt: number;
+}
+
+export interface CommonFunder {
+    funder: string;
+    holders: FundedHolder[];
+    totalAmounts: { [asset: string]: number };
+    firstFundedAt: number;
+    lastFundedAt: number;
+    timeSpread: number;
+    totalPct: number;
+}
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+export interface RiskFactor {
+    signal: string;
+    points: number;
+    description: string;
+}
+
+export interface RiskScore {
+    score: number;
+    level: RiskLevel;
+    factors: RiskFactor[];
+}
+
+export interface HolderRiskScore extends RiskScore {
+    address: string;
+}
+
+export interface RiskReport {
+    token: RiskScore;
+    holders: {
+        [address: string]: HolderRiskScore;
+    };
+}
+
+export type EntityCategory = 'cex' | 'dex' | 'bridge' | 'mev' | 'launchpad' | 'kol';
+
+export interface EntityLabel {
+    name: string;
+    category: EntityCategory;
+}
+
+export interface UserLabel {
+    address: string;
+    label: string;
+    note?: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface Watchlist {
+    id: string;
+    name: string;
+    addresses: string[];
+    createdAt: string;
+    updatedAt: string;
+}
+
+export type RelationStatusKind = 'complete' | 'partial' | 'failed';
+
+export interface RelationStatus {
+    status: RelationStatusKind;
+    reason: string | null;
+    callsAttempted: number;
+    failedLookups: number;
+}
+
+export interface HolderCompleteness {
+    complete: number;
+    partial: number;
+    failed: number;
+    ratio: number;
 }
 
 export interface AnalysisResult {
+    tokenAddress: string;
+    parameters: AnalysisParameters;
+    holderSource: string;
+    holderSourceCapabilities: HolderSourceCapabilities;
     topHolders: Holder[];
     relatedAddresses: {
         [key: string]: HolderData;
     };
-}
\ No newline at end of file
+    holderStatus: {
+        [holderAddress: string]: RelationStatus;
+    };
+    tokenFlows: Transaction[];
+    clusters: Cluster[];
+    commonFunders: CommonFunder[];
+    risk: RiskReport;
+    labels: {
+        [address: string]: EntityLabel;
+    };
+    userLabels: {
+        [address: string]: UserLabel;
+    };
+    watchlists: {
+        [address: string]: string[];
+    };
+    summary: {
+        totalHolders: number;
+        totalRelatedAddresses: number;
+        totalTransactions: number;
+        totalTokenTransfers: number;
+        apiCallCount: number;
+        cacheHits: number;
+        cacheMisses: number;
+        budgetExhausted: boolean;
+        exchangeEdgesRemoved: number;
+        exchangeEdgesCollapsed: number;
+        completeness: HolderCompleteness;
+    };
+}
+
+export type AnalysisProgressEvent =
+    | { type: 'step'; step: number; totalSteps: number; message: string }
+    | { type: 'holder'; index: number; total: number; address: string }
+    | {
+        type: 'holder_result';
+        index: number;
+        total: number;
+        address: string;
+        data: HolderData;
+        status: RelationStatus;
+        apiCallCount: number;
+    };
+
+export interface CompletedHolder {
+    address: string;
+    relatedCount: number;
+    status: RelationStatusKind;
+}
+
+export interface AnalysisProgress {
+    step: number;
+    totalSteps: number;
+    message: string;
+    currentHolder: string | null;
+    totalHolders: number;
+    completedHolders: CompletedHolder[];
+    apiCallCount: number;
+}
+
+export type JobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface ProviderErrorDetails {
+    provider: string;
+    endpoint: string;
+    field: string | null;
+}
+
+export interface AnalysisJob {
+    id: string;
+    tokenAddress: string;
+    parameters: AnalysisParameters;
+    status: JobStatus;
+    progress: AnalysisProgress;
+    result?: AnalysisResult;
+    snapshotId?: string;
+    retryOf?: string;
+    error?: string;
+    errorStatus?: number;
+    errorDetails?: ProviderErrorDetails;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface AddressRelations extends HolderData {
+    address: string;
+    parameters: Pick<AnalysisParameters, 'minAmount' | 'direction' | 'exchangeMode'>;
+    status: RelationStatus;
+    labels: {
+        [address: string]: EntityLabel;
+    };
+    userLabels: {
+        [address: string]: UserLabel;
+    };
+    watchlists: {
+        [address: string]: string[];
+    };
+    summary: {
+        apiCallCount: number;
+        cacheHits: number;
+        cacheMisses: number;
+        budgetExhausted: boolean;
+        exchangeEdgesRemoved: number;
+        exchangeEdgesCollapsed: number;
+    };
+}
+
+export interface TimelineEntry extends Transaction {
+    direction: 'in' | 'out' | 'indirect';
+    counterparty: string | null;
+}
+
+export interface AssetTotal {
+    asset: string;
+    in: number;
+    out: number;
+}
+
+export interface ExplorerLink {
+    name: string;
+    url: string;
+}
+
+export interface AddressDetail {
+    address: string;
+    holder: {
+        pctOfSupply: number;
+        sns: string | null;
+        isNew: boolean;
+    } | null;
+    totalInAmount: number;
+    totalOutAmount: number;
+    assetTotals: AssetTotal[];
+    timeline: TimelineEntry[];
+    labels: {
+        [address: string]: EntityLabel;
+    };
+    userLabels: {
+        [address: string]: { label: string; note?: string };
+    };
+    watchlists: {
+        [address: string]: string[];
+    };
+    explorerLinks: ExplorerLink[];
+    snapshotId?: string;
+}
+
+export interface SnapshotSummary {
+    id: string;
+    tokenAddress: string;
+    createdAt: string;
+    parameters: AnalysisParameters;
+    holderSource: string;
+    totalHolders: number;
+    riskScore: number;
+    riskLevel: RiskLevel;
+}
+
+export interface AnalysisSnapshot extends SnapshotSummary {
+    result: AnalysisResult;
+}
+
+export interface HolderPosition {
+    address: string;
+    pct: number;
+}
+
+export interface HolderPctChange {
+    address: string;
+    previousPct: number;
+    currentPct: number;
+    change: number;
+}
+
+export type ClusterChangeStatus = 'new' | 'grown' | 'shrunk' | 'changed' | 'dissolved';
+
+export interface ClusterChange {
+    status: ClusterChangeStatus;
+    previousId: string | null;
+    currentId: string | null;
+    holders: string[];
+    added: string[];
+    removed: string[];
+    previousPct: number;
+    currentPct: number;
+}
+
+export interface ParameterMismatch {
+    parameter: keyof AnalysisParameters;
+    from: AnalysisParameters[keyof AnalysisParameters];
+    to: AnalysisParameters[keyof AnalysisParameters];
+}
+
+export interface SnapshotDiff {
+    tokenAddress: string;
+    from: SnapshotSummary;
+    to: SnapshotSummary;
+    entered: HolderPosition[];
+    exited: HolderPosition[];
+    pctChanges: HolderPctChange[];
+    newFundingEdges: Transaction[];
+    clusterChanges: ClusterChange[];
+    parameterMismatches: ParameterMismatch[];
+}